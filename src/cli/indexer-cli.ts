@@ -2,13 +2,19 @@
 
 import { Command } from 'commander';
 import path from 'path';
-import { ProjectIndexer } from '../tools/project-indexer.js';
+import { ProjectIndexer, SCREENSHOTS_DIR } from '../tools/project-indexer.js';
 import { IndexSearchEngine } from '../tools/index-search-engine.js';
 import { VisualAnalyzer } from '../tools/visual-analyzer.js';
+import { ConfigLoader } from '../utils/config-loader.js';
+import { DevServer } from '../utils/dev-server.js';
 
 interface IndexOptions {
   path: string;
   output: string;
+  incremental?: boolean;
+  watch?: boolean;
+  visual?: boolean;
+  url?: string;
 }
 
 interface SearchOptions {
@@ -16,6 +22,7 @@ interface SearchOptions {
   query?: string;
   tags?: string;
   limit: string;
+  package?: string;
 }
 
 interface SimilarOptions {
@@ -26,13 +33,15 @@ interface SimilarOptions {
 }
 
 interface VisualAnalyzeOptions {
-  url: string;
+  path: string;
+  url?: string;
   selector?: string;
   output: string;
 }
 
 interface StatsOptions {
   path: string;
+  package?: string;
 }
 
 const program = new Command();
@@ -47,19 +56,57 @@ program
   .description('Index the current project')
   .option('-p, --path <path>', 'Project path', process.cwd())
   .option('-o, --output <output>', 'Output file for index', '.ui-context-index.json')
+  .option('-i, --incremental', 'Only re-analyze files changed since the last index')
+  .option('-w, --watch', 'Keep the index up to date as files change')
+  .option('--visual', 'Capture screenshots, bounds and styles from the dev server')
+  .option('-u, --url <url>', 'Dev server URL for --visual (default: devServer.url from uxplain.config, then http://localhost:3000)')
   .action(async (options: IndexOptions) => {
     const projectPath = path.resolve(options.path);
     console.log(`🔍 Indexing project: ${projectPath}`);
     
+    let devServer: DevServer | null = null;
     try {
       const indexer = new ProjectIndexer(projectPath);
-      const index = await indexer.indexProject();
+      
+      if (options.watch) {
+        await indexer.indexProject({ incremental: true });
+        const watcher = indexer.watch((index) => {
+          if (index.metadata.stale) return;
+          console.log(`✅ Index updated: ${index.metadata.componentsCount} components, ${index.metadata.pagesCount} pages`);
+        });
+        console.log('Press Ctrl+C to stop watching');
+        
+        process.on('SIGINT', async () => {
+          await watcher.close();
+          process.exit(0);
+        });
+        return;
+      }
+      
+      let devServerUrl: string | undefined;
+      let storybookUrl: string | undefined;
+      if (options.visual) {
+        const config = await ConfigLoader.load(projectPath);
+        devServerUrl = options.url || config.devServer.url || (config.storybook?.url ? undefined : 'http://localhost:3000');
+        storybookUrl = config.storybook?.url;
+        if (devServerUrl) devServer = await DevServer.ensureRunning(devServerUrl, config.devServer.command, projectPath);
+      }
+      
+      const index = await indexer.indexProject({ incremental: options.incremental, devServerUrl, storybookUrl });
+      await devServer?.stop();
       
       console.log('\n📊 Indexing Results:');
       console.log(`- Framework: ${index.metadata.framework}`);
       console.log(`- Components: ${index.metadata.componentsCount}`);
       console.log(`- Pages: ${index.metadata.pagesCount}`);
       console.log(`- Index saved to: ${path.join(projectPath, options.output)}`);
+      if (index.metadata.storybook) {
+        console.log(`- Storybook stories: ${index.metadata.storybook.linkedCount}/${index.metadata.storybook.storiesCount} linked`);
+      }
+      if (options.visual && !options.incremental) {
+        const captured = index.components.filter(component => Object.keys(component.screenshots).length > 0).length;
+        console.log(`- Visual capture: ${captured}/${index.components.length} components, screenshots in ${path.join(projectPath, SCREENSHOTS_DIR)}`);
+      }
       
       // Display component summary
       if (index.components.length > 0) {
@@ -74,6 +121,7 @@ program
       
     } catch (error) {
       console.error('❌ Indexing failed:', error);
+      await devServer?.stop();
       process.exit(1);
     }
   });
@@ -85,6 +133,7 @@ program
   .option('-q, --query <query>', 'Search query')
   .option('-t, --tags <tags>', 'Filter by tags (comma-separated)')
   .option('-l, --limit <limit>', 'Limit results', '10')
+  .option('--package <name>', 'Only search this workspace package')
   .action(async (options: SearchOptions) => {
     const projectPath = path.resolve(options.path);
     
@@ -100,6 +149,7 @@ program
       const searchQuery = {
         text: options.query,
         tags: options.tags ? options.tags.split(',').map((t: string) => t.trim()) : undefined,
+        package: options.package,
       };
       
       const results = searchEngine.searchComponents(searchQuery);
@@ -195,18 +245,24 @@ program
 program
   .command('visual-analyze')
   .description('Analyze visual components from a running dev server')
-  .option('-u, --url <url>', 'Dev server URL', 'http://localhost:3000')
+  .option('-p, --path <path>', 'Project path (for uxplain.config)', process.cwd())
+  .option('-u, --url <url>', 'Dev server URL (default: devServer.url from uxplain.config, then http://localhost:3000)')
   .option('-s, --selector <selector>', 'Component CSS selector')
   .option('-o, --output <output>', 'Output directory for analysis', './visual-analysis')
   .action(async (options: VisualAnalyzeOptions) => {
-    console.log(`🎨 Analyzing visual components at: ${options.url}`);
+    const projectPath = path.resolve(options.path);
+    const config = await ConfigLoader.load(projectPath);
+    const url = options.url || config.devServer.url || 'http://localhost:3000';
+    console.log(`🎨 Analyzing visual components at: ${url}`);
     
+    let devServer: DevServer | null = null;
     try {
-      const analyzer = new VisualAnalyzer();
+      devServer = await DevServer.ensureRunning(url, config.devServer.command, projectPath);
+      const analyzer = new VisualAnalyzer(config);
       
       if (options.selector) {
         // Analyze specific component
-        const results = await analyzer.analyzeComponent(options.url, options.selector);
+        const results = await analyzer.analyzeComponent(url, options.selector);
         
         console.log(`📸 Captured component "${options.selector}" across breakpoints:`);
         for (const [breakpoint, result] of Object.entries(results)) {
@@ -216,7 +272,7 @@ program
         }
       } else {
         // Analyze full page
-        const result = await analyzer.analyzeFullPage(options.url);
+        const result = await analyzer.analyzeFullPage(url);
         
         console.log(`📸 Full page analysis complete:`);
         console.log(`  - Screenshot size: ${result.screenshot.length} chars (base64)`);
@@ -238,30 +294,38 @@ program
       if (error instanceof Error && error.message.includes('net::ERR_CONNECTION_REFUSED')) {
         console.log('💡 Make sure your development server is running at the specified URL.');
       }
+      await devServer?.stop();
       process.exit(1);
     }
+    await devServer?.stop();
   });
 
 program
   .command('stats')
   .description('Show project statistics')
   .option('-p, --path <path>', 'Project path', process.cwd())
+  .option('--package <name>', 'Only report on this workspace package')
   .action(async (options: StatsOptions) => {
     const projectPath = path.resolve(options.path);
     
     try {
-      const index = await ProjectIndexer.loadIndex(projectPath);
-      if (!index) {
+      const fullIndex = await ProjectIndexer.loadIndex(projectPath);
+      if (!fullIndex) {
         console.error('❌ No index found. Run "ui-context-indexer index" first.');
         process.exit(1);
       }
       
+      const index = options.package ? IndexSearchEngine.filterByPackage(fullIndex, options.package) : fullIndex;
+      const { thresholds } = await ConfigLoader.load(projectPath);
       const searchEngine = new IndexSearchEngine(index);
       
       console.log('📊 Project Statistics:\n');
       
       console.log(`🏗️  Framework: ${index.metadata.framework}`);
       console.log(`📅 Last indexed: ${new Date(index.metadata.lastIndexed).toLocaleString()}`);
+      if (index.metadata.stale) {
+        console.log(`⚠️  Stale: updating failed at ${new Date(index.metadata.stale.since).toLocaleString()} (${index.metadata.stale.error})`);
+      }
       console.log(`📦 Total components: ${index.metadata.componentsCount}`);
       console.log(`📄 Total pages: ${index.metadata.pagesCount}\n`);
       
@@ -290,6 +354,7 @@ program
       console.log(`\n⚙️  Component Complexity:`);
       console.log(`   Average props per component: ${avgProps.toFixed(1)}`);
       console.log(`   Most complex component: ${maxProps} props`);
+      console.log(`   Components over ${thresholds.maxProps} props: ${propsStats.filter(count => count > thresholds.maxProps).length}`);
       
       // Usage graph stats
       const usageGraph = searchEngine.getComponentUsageGraph();
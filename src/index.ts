@@ -10,19 +10,77 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { UIContextTool } from './tools/ui-context.js';
-import { ProjectIndexer } from './tools/project-indexer.js';
+import { ProjectIndexer, SCREENSHOTS_DIR } from './tools/project-indexer.js';
+import type { FileWatcher } from './utils/file-watcher.js';
 import { IndexSearchEngine } from './tools/index-search-engine.js';
-import { VisualAnalyzer } from './tools/visual-analyzer.js';
 import { VisualCodeCorrelator } from './tools/visual-code-correlator.js';
+import { VisualComparisonTool } from './tools/visual-comparison.js';
+import { ComponentIsolationTool } from './tools/component-isolation.js';
+import { AccessibilityAuditor, type AccessibilityAuditParams } from './tools/accessibility-auditor.js';
 import { closeBrowserManager } from './utils/browser.js';
-import type { UIContextParams } from './types/index.js';
+import { ConfigLoader, type UxplainConfig } from './utils/config-loader.js';
+import { DevServer } from './utils/dev-server.js';
+import { ElementMarks } from './utils/element-marks.js';
+import type { ComponentIsolationParams, ElementMark, PageActionResult, UIContextParams, VisualComparisonParams } from './types/index.js';
 
 // Server configuration
 const SERVER_NAME = 'ui-context-mcp-server';
 const SERVER_VERSION = '0.1.0';
 
+// Interaction script accepted by every capture and analysis tool
+const ACTIONS_SCHEMA = {
+  type: 'array',
+  description: 'Steps run in order after the page loads and before anything is captured, e.g. to open a dropdown, show a submitted form\'s errors or reach step 3 of a wizard. After a failed step the rest are skipped',
+  items: {
+    type: 'object',
+    properties: {
+      type: {
+        type: 'string',
+        enum: ['click', 'fill', 'press', 'hover', 'select', 'scroll', 'waitForSelector', 'waitForResponse', 'evaluate'],
+      },
+      selector: {
+        type: 'string',
+        description: 'Target element: CSS or Playwright selector, or a locator such as getByRole("button", { name: "Save" })',
+      },
+      elementRef: {
+        type: 'number',
+        description: 'Number of a mark from an annotated screenshot, used in place of selector',
+      },
+      value: {
+        type: ['string', 'array'],
+        items: { type: 'string' },
+        description: 'fill: the text; select: option value(s) or label(s)',
+      },
+      key: {
+        type: 'string',
+        description: 'press: key such as Enter, Escape or Control+A; without a selector it goes to the focused element',
+      },
+      url: {
+        type: 'string',
+        description: 'waitForResponse: substring of the response URL, or a /regex/',
+      },
+      script: {
+        type: 'string',
+        description: 'evaluate: JavaScript expression run in the page; its result is reported',
+      },
+      x: { type: 'number', description: 'scroll: horizontal position when there is no selector' },
+      y: { type: 'number', description: 'scroll: vertical position when there is no selector' },
+      state: {
+        type: 'string',
+        enum: ['attached', 'detached', 'visible', 'hidden'],
+        description: 'waitForSelector: state to wait for',
+        default: 'visible',
+      },
+      timeout: { type: 'number', description: 'Milliseconds before the step fails', default: 10000 },
+      screenshot: { type: 'boolean', description: 'Capture the viewport after this step', default: false },
+    },
+    required: ['type'],
+  },
+};
+
 class UIContextMCPServer {
   private server: Server;
+  private watchers = new Map<string, FileWatcher>(); // project path -> watcher
 
   constructor() {
     this.server = new Server(
@@ -59,13 +117,21 @@ class UIContextMCPServer {
                 },
                 includeVisualAnalysis: {
                   type: 'boolean',
-                  description: 'Whether to include visual analysis (requires running dev server)',
+                  description: 'Capture screenshots, bounds and computed styles of every page and located component at the configured breakpoints (requires a dev server; ignored for incremental runs)',
                   default: false,
                 },
                 devServerUrl: {
                   type: 'string',
-                  description: 'URL of the running development server for visual analysis',
-                  default: 'http://localhost:3000',
+                  description: 'URL of the running development server for visual analysis (defaults to devServer.url from uxplain.config, then http://localhost:3000)',
+                },
+                incremental: {
+                  type: 'boolean',
+                  description: 'Only re-analyze files whose content changed since the last index',
+                  default: false,
+                },
+                watch: {
+                  type: 'boolean',
+                  description: 'Keep watching the project and update the index as files change, until the server stops or watch is set to false',
                 },
               },
               required: ['projectPath'],
@@ -96,6 +162,71 @@ class UIContextMCPServer {
                   description: 'Whether to capture the full page',
                   default: false,
                 },
+                annotate: {
+                  type: 'boolean',
+                  description: 'Overlay numbered boxes on interactive and landmark elements and return their legend. Other tools accept a number as elementRef',
+                  default: false,
+                },
+                actions: ACTIONS_SCHEMA,
+              },
+              required: ['url'],
+            },
+          },
+          {
+            name: 'capture_ui_context',
+            description: '🧩 CONTEXT TOOL: Capture the full UI context of a page or element: screenshot, HTML fragment, applicable CSS, computed styles, bounds, and optionally accessibility info and responsive views. Use when user needs detailed styling or markup for a specific element.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'The URL to capture',
+                },
+                selector: {
+                  type: 'string',
+                  description: 'Optional CSS selector of the element to focus on',
+                },
+                elementRef: {
+                  type: 'number',
+                  description: 'Number of a mark from an annotated screenshot, used in place of selector',
+                },
+                viewport: {
+                  type: 'object',
+                  properties: {
+                    width: { type: 'number', default: 1280 },
+                    height: { type: 'number', default: 720 },
+                  },
+                  description: 'Viewport size for capturing',
+                },
+                waitFor: {
+                  type: ['string', 'number'],
+                  description: 'CSS selector or milliseconds to wait for before capturing',
+                },
+                cropToElement: {
+                  type: 'boolean',
+                  description: 'Whether to crop the screenshot to the selected element',
+                  default: false,
+                },
+                fullPage: {
+                  type: 'boolean',
+                  description: 'Whether to capture the full page',
+                  default: false,
+                },
+                includeAccessibility: {
+                  type: 'boolean',
+                  description: 'Whether to include accessibility information',
+                  default: false,
+                },
+                includeResponsive: {
+                  type: 'boolean',
+                  description: 'Whether to capture the element at multiple breakpoints',
+                  default: false,
+                },
+                projectPath: {
+                  type: 'string',
+                  description: 'Optional: Path to the project, to resolve authored style files through source maps and the components importing them',
+                },
+                actions: ACTIONS_SCHEMA,
               },
               required: ['url'],
             },
@@ -114,10 +245,69 @@ class UIContextMCPServer {
                   type: 'string',
                   description: 'Optional CSS selector to focus on specific element',
                 },
+                elementRef: {
+                  type: 'number',
+                  description: 'Number of a mark from an annotated screenshot, used in place of selector',
+                },
+                actions: ACTIONS_SCHEMA,
               },
               required: ['url'],
             },
           },
+          {
+            name: 'compare_visual_states',
+            description: '🔀 COMPARISON TOOL: Compare two URLs, or the same URL at two points in time, with a pixel diff and element-level changes (moved, resized, styled, added, removed). Use when reviewing UI changes or pull requests.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                beforeUrl: {
+                  type: 'string',
+                  description: 'URL of the baseline (before) state',
+                },
+                afterUrl: {
+                  type: 'string',
+                  description: 'URL of the changed (after) state. Use the same URL as beforeUrl together with delay to compare over time',
+                },
+                selector: {
+                  type: 'string',
+                  description: 'Optional CSS selector to limit the comparison to one element',
+                },
+                elementRef: {
+                  type: 'number',
+                  description: 'Number of a mark from an annotated screenshot, used in place of selector',
+                },
+                viewport: {
+                  type: 'object',
+                  properties: {
+                    width: { type: 'number', default: 1280 },
+                    height: { type: 'number', default: 720 },
+                  },
+                  description: 'Viewport size used for both captures',
+                },
+                fullPage: {
+                  type: 'boolean',
+                  description: 'Whether to compare the full page instead of the viewport',
+                  default: true,
+                },
+                delay: {
+                  type: 'number',
+                  description: 'Milliseconds to wait between the before and after captures',
+                },
+                diffSensitivity: {
+                  type: 'string',
+                  enum: ['low', 'medium', 'high'],
+                  description: 'How sensitive the pixel diff is to small color differences',
+                  default: 'medium',
+                },
+                threshold: {
+                  type: 'number',
+                  description: 'Optional per-pixel color distance (0-1) above which a pixel counts as changed. Overrides diffSensitivity',
+                },
+                actions: ACTIONS_SCHEMA,
+              },
+              required: ['beforeUrl', 'afterUrl'],
+            },
+          },
           
           // === ELEMENT-SPECIFIC ANALYSIS TOOLS ===
           {
@@ -134,6 +324,7 @@ class UIContextMCPServer {
                   type: 'string',
                   description: 'Optional: Path to indexed project for source code correlation',
                 },
+                actions: ACTIONS_SCHEMA,
               },
               required: ['url'],
             },
@@ -152,6 +343,124 @@ class UIContextMCPServer {
                   type: 'string',
                   description: 'Optional: Path to indexed project for source code correlation',
                 },
+                actions: ACTIONS_SCHEMA,
+              },
+              required: ['url'],
+            },
+          },
+          {
+            name: 'isolate_component',
+            description: '🎛️ COMPONENT STATES: Capture one element in its default, hover, focus, focus-visible, active and disabled states with cropped screenshots, computed styles and a style diff per state, plus its box model, flex/grid layout and the winning CSS rule (file, line, specificity) for every property. Use when user asks how an element looks when interacted with, or why it has a given style.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'URL of the page containing the element',
+                },
+                selector: {
+                  type: 'string',
+                  description: 'CSS selector of the element to isolate',
+                },
+                elementRef: {
+                  type: 'number',
+                  description: 'Number of a mark from an annotated screenshot, used in place of selector',
+                },
+                viewport: {
+                  type: 'object',
+                  properties: {
+                    width: { type: 'number', default: 1280 },
+                    height: { type: 'number', default: 720 },
+                  },
+                  description: 'Viewport size for capturing',
+                },
+                waitFor: {
+                  type: ['string', 'number'],
+                  description: 'CSS selector or milliseconds to wait for before capturing',
+                },
+                captureStates: {
+                  type: 'boolean',
+                  description: 'Whether to capture hover, focus, focus-visible, active and disabled states',
+                  default: true,
+                },
+                includeParents: {
+                  type: 'boolean',
+                  description: 'Whether to include the surrounding DOM as context',
+                  default: false,
+                },
+                includeChildren: {
+                  type: 'boolean',
+                  description: 'Whether to list the direct children of the element',
+                  default: false,
+                },
+                styleScope: {
+                  type: 'string',
+                  enum: ['component', 'global', 'inherited'],
+                  description: 'Which CSS rules to report as style dependencies',
+                  default: 'component',
+                },
+                actions: ACTIONS_SCHEMA,
+              },
+              required: ['url'],
+            },
+          },
+          {
+            name: 'audit_accessibility',
+            description: '♿ ACCESSIBILITY AUDIT: Run axe-core against a page (or one element) for a WCAG 2.0/2.1/2.2 A/AA/AAA ruleset. Returns every violation with its impact, the offending node selectors and cropped screenshots, and—when projectPath points to an indexed project—the source component behind each node. Use when user asks about accessibility, WCAG compliance or a11y bugs.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                url: {
+                  type: 'string',
+                  description: 'URL of the page to audit',
+                },
+                selector: {
+                  type: 'string',
+                  description: 'Optional CSS selector to limit the audit to one element and its descendants',
+                },
+                elementRef: {
+                  type: 'number',
+                  description: 'Number of a mark from an annotated screenshot, used in place of selector',
+                },
+                wcagVersion: {
+                  type: 'string',
+                  enum: ['2.0', '2.1', '2.2'],
+                  description: 'WCAG version to test against (rules of earlier versions are included)',
+                  default: '2.1',
+                },
+                wcagLevel: {
+                  type: 'string',
+                  enum: ['A', 'AA', 'AAA'],
+                  description: 'Conformance level to test against (lower levels are included)',
+                  default: 'AA',
+                },
+                includeBestPractices: {
+                  type: 'boolean',
+                  description: 'Whether to also run axe best-practice rules that are not WCAG requirements',
+                  default: false,
+                },
+                viewport: {
+                  type: 'object',
+                  properties: {
+                    width: { type: 'number', default: 1280 },
+                    height: { type: 'number', default: 720 },
+                  },
+                  description: 'Viewport size for the audit',
+                },
+                waitFor: {
+                  type: ['string', 'number'],
+                  description: 'CSS selector or milliseconds to wait for before auditing',
+                },
+                projectPath: {
+                  type: 'string',
+                  description: 'Absolute path to an indexed project to link violations to source components',
+                },
+                maxScreenshots: {
+                  type: 'number',
+                  description: 'Maximum number of violating nodes to capture screenshots of',
+                  default: 10,
+                },
+                actions: ACTIONS_SCHEMA,
               },
               required: ['url'],
             },
@@ -183,6 +492,12 @@ class UIContextMCPServer {
                   description: 'Whether to include improvement recommendations',
                   default: true,
                 },
+                annotate: {
+                  type: 'boolean',
+                  description: 'Also return a full-page screenshot with numbered marks and a legend linking each mark to its component',
+                  default: false,
+                },
+                actions: ACTIONS_SCHEMA,
               },
               required: ['url', 'projectPath'],
             },
@@ -219,10 +534,43 @@ class UIContextMCPServer {
                   description: 'Maximum number of results to return',
                   default: 10,
                 },
+                package: {
+                  type: 'string',
+                  description: 'In a monorepo, only search components of this workspace package (e.g. "@acme/ui")',
+                },
               },
               required: ['projectPath'],
             },
           },
+          {
+            name: 'find_similar_components',
+            description: '🧬 SIMILARITY TOOL: Find components similar to a given component by semantics (tags, props, imports, name), usage context, or visual styles. Use when user wants to spot duplicates or reuse candidates. REQUIRES indexed project.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                projectPath: {
+                  type: 'string',
+                  description: 'Absolute path to the indexed project directory',
+                },
+                componentId: {
+                  type: 'string',
+                  description: 'ID or name of the component to compare against',
+                },
+                similarityType: {
+                  type: 'string',
+                  enum: ['semantic', 'visual', 'usage'],
+                  description: 'Kind of similarity to measure',
+                  default: 'semantic',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of results to return',
+                  default: 5,
+                },
+              },
+              required: ['projectPath', 'componentId'],
+            },
+          },
           {
             name: 'get_project_insights',
             description: '📊 INSIGHTS TOOL: Get comprehensive statistics and health metrics for an indexed project. Use when user wants to understand their codebase structure.',
@@ -233,6 +581,10 @@ class UIContextMCPServer {
                   type: 'string',
                   description: 'Absolute path to the indexed project directory',
                 },
+                package: {
+                  type: 'string',
+                  description: 'In a monorepo, only report on this workspace package',
+                },
               },
               required: ['projectPath'],
             },
@@ -246,28 +598,47 @@ class UIContextMCPServer {
       const { name, arguments: args } = request.params;
 
       try {
+        // Project settings from uxplain.config.*; tools without a projectPath use the working directory
+        const config = await ConfigLoader.load((args as any)?.projectPath || process.cwd());
+        this.resolveElementRef(args as any);
+        
         switch (name) {
           case 'index_project':
-            return await this.handleIndexProject(args as any);
+            return await this.handleIndexProject(args as any, config);
 
           case 'screenshot_page':
-            return await this.handleScreenshotPage(args as any);
+            return await this.handleScreenshotPage(args as any, config);
+
+          case 'capture_ui_context':
+            return await this.handleCaptureUIContext(args as any, config);
 
           case 'analyze_responsive_design':
-            return await this.handleAnalyzeResponsiveDesign(args as any);
+            return await this.handleAnalyzeResponsiveDesign(args as any, config);
+
+          case 'compare_visual_states':
+            return await this.handleCompareVisualStates(args as any, config);
 
           case 'analyze_button_elements':
-            return await this.handleAnalyzeButtonElements(args as any);
+            return await this.handleAnalyzeButtonElements(args as any, config);
 
           case 'analyze_form_elements':
-            return await this.handleAnalyzeFormElements(args as any);
+            return await this.handleAnalyzeFormElements(args as any, config);
+
+          case 'isolate_component':
+            return await this.handleIsolateComponent(args as any, config);
+
+          case 'audit_accessibility':
+            return await this.handleAuditAccessibility(args as any, config);
 
           case 'correlate_visual_to_source':
-            return await this.handleCorrelateVisualToSource(args as any);
+            return await this.handleCorrelateVisualToSource(args as any, config);
 
           case 'search_components':
             return await this.handleSearchComponents(args as any);
 
+          case 'find_similar_components':
+            return await this.handleFindSimilarComponents(args as any);
+
           case 'get_project_insights':
             return await this.handleGetProjectInsights(args as any);
 
@@ -292,13 +663,77 @@ class UIContextMCPServer {
     });
   }
 
-  private async handleScreenshotPage(params: any) {
+  // Swaps `elementRef` for the selector of that mark in the page's last annotated screenshot
+  private resolveElementRef(args: any) {
+    if (args?.elementRef === undefined) return;
+
+    let mark: ElementMark | undefined;
+    try {
+      mark = ElementMarks.resolve(Number(args.elementRef), args.url || args.afterUrl);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+    if (!mark) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown elementRef ${args.elementRef}: the legend for this page has no mark with that number`
+      );
+    }
+    args.selector = mark.selector;
+  }
+
+  private formatMarkLegend(marks: ElementMark[]): string {
+    const escape = (value: string) => value.replace(/\|/g, '\\|');
+    const withComponents = marks.some(mark => mark.component);
+    const rows = marks.map(mark => {
+      const component = !withComponents ? '' : mark.component
+        ? ` | \`${mark.component.name}\` (${(mark.component.confidence * 100).toFixed(0)}%)`
+        : ' | -';
+      return `| ${mark.ref} | \`${mark.tagName}\` | ${mark.role || '-'} | ${mark.name ? escape(mark.name) : '-'} | \`${escape(mark.selector)}\` · \`${escape(mark.locator)}\` | ${mark.bounds.x},${mark.bounds.y} ${mark.bounds.width}×${mark.bounds.height}${component} |`;
+    });
+
+    return `| Ref | Element | Role | Name | Selector · Locator | Bounds${withComponents ? ' | Component' : ''} |
+|-----|---------|------|------|--------------------|--------${withComponents ? '|-----------' : ''}|
+${rows.join('\n')}
+
+Pass a ref as \`elementRef\` to other tools instead of a selector.`;
+  }
+
+  private formatActionResults(results: PageActionResult[] | undefined, title = 'Actions'): string {
+    if (!results) return '';
+    const steps = results.map(result => {
+      const status = result.skipped ? '⏭️' : result.success ? '✅' : '❌';
+      const target = result.target ? ` \`${result.target}\`` : '';
+      const outcome = result.skipped
+        ? ' (skipped)'
+        : ` (${result.duration}ms)${result.error ? ` — ${result.error}` : ''}${result.result !== undefined ? ` → \`${result.result}\`` : ''}`;
+      return `${result.index}. ${status} **${result.type}**${target}${outcome}${result.screenshot ? ' 📸' : ''}`;
+    });
+
+    return `
+## ▶️ ${title}
+${steps.join('\n')}
+${results.some(result => result.screenshot) ? '\nSteps marked 📸 have a screenshot, attached in order after the other images.\n' : ''}`;
+  }
+
+  private actionImages(results: PageActionResult[] | undefined) {
+    return (results || []).filter(result => result.screenshot).map(result => ({
+      type: 'image' as const,
+      data: result.screenshot!,
+      mimeType: 'image/png',
+    }));
+  }
+
+  private async handleScreenshotPage(params: any, config: UxplainConfig) {
     console.log(`Taking screenshot of: ${params.url}`);
     
     const simpleParams: UIContextParams = {
       url: params.url,
       viewport: params.viewport,
       fullPage: params.fullPage || false,
+      annotate: params.annotate || false,
+      actions: params.actions,
+      auth: config.auth,
     };
     
     const result = await UIContextTool.captureUIContext(simpleParams);
@@ -312,7 +747,11 @@ class UIContextMCPServer {
 **URL**: ${params.url}
 **Viewport**: ${result.context.viewport.width}x${result.context.viewport.height}
 **Timestamp**: ${result.context.timestamp}
+${result.marks ? `
+## 🔢 Marked Elements (${result.marks.length})
 
+${this.formatMarkLegend(result.marks)}
+` : ''}${this.formatActionResults(result.actions)}
 This is a basic screenshot capture. For detailed analysis, use specialized tools like "analyze_button_elements" or "correlate_visual_to_source".`,
         },
         {
@@ -320,18 +759,22 @@ This is a basic screenshot capture. For detailed analysis, use specialized tools
           data: result.screenshot,
           mimeType: 'image/png',
         },
+        ...this.actionImages(result.actions),
       ],
     };
   }
 
-  private async handleAnalyzeResponsiveDesign(params: any) {
+  private async handleAnalyzeResponsiveDesign(params: any, config: UxplainConfig) {
     console.log(`Analyzing responsive design for: ${params.url}`);
     
     const responsiveParams: UIContextParams = {
       url: params.url,
       selector: params.selector,
       includeResponsive: true,
+      breakpoints: config.breakpoints,
       viewport: { width: 1200, height: 800 },
+      actions: params.actions,
+      auth: config.auth,
     };
     
     const result = await UIContextTool.captureUIContext(responsiveParams);
@@ -344,7 +787,7 @@ This is a basic screenshot capture. For detailed analysis, use specialized tools
 ## Overview
 - **URL**: ${result.context.url}
 - **Analysis Type**: Multi-breakpoint responsive analysis
-- **Breakpoints Tested**: Mobile (375px), Tablet (768px), Desktop (1200px)
+- **Breakpoints Tested**: ${config.breakpoints.map(breakpoint => `${breakpoint.name} (${breakpoint.width}px)`).join(', ')}
 
 ## Responsive Behavior
 ${result.responsive ? result.responsive.map(view => `
@@ -358,10 +801,11 @@ ${Object.entries(view.computedStyles).map(([prop, value]) => `- **${prop}**: ${v
 ${params.selector ? `Focused on element: \`${params.selector}\`` : 'Full page analysis'}
 
 **Recommendations**:
-- Ensure touch targets are at least 44px on mobile
+- Ensure touch targets are at least ${config.thresholds.minTouchTarget}px on mobile
 - Check text readability at smaller sizes
 - Verify navigation is accessible on mobile
-- Test form elements on touch devices`,
+- Test form elements on touch devices
+${this.formatActionResults(result.actions)}`,
       },
       {
         type: 'image' as const,
@@ -380,20 +824,81 @@ ${params.selector ? `Focused on element: \`${params.selector}\`` : 'Full page an
         });
       });
     }
+    content.push(...this.actionImages(result.actions));
 
     return { content };
   }
 
-  private async handleAnalyzeButtonElements(params: any) {
+  private async handleCompareVisualStates(params: VisualComparisonParams, config: UxplainConfig) {
+    console.log(`Comparing visual states: ${params.beforeUrl} -> ${params.afterUrl}`);
+    
+    const result = await VisualComparisonTool.compareVisualStates({ ...params, auth: config.auth });
+    const shownChanges = result.changedElements.slice(0, 30);
+    
+    return {
+      content: [
+        {
+          type: 'text' as const,
+          text: `# Visual Comparison
+
+## Overview
+- **Before**: ${params.beforeUrl}
+- **After**: ${params.afterUrl}
+${params.selector ? `- **Scope**: \`${params.selector}\`` : '- **Scope**: Full page'}
+- **Similarity**: ${(result.similarity * 100).toFixed(2)}%
+- **Changed Regions**: ${result.diffRegions.length}
+- **Element Changes**: ${result.summary.totalChanges} (${result.summary.significantChanges} significant)
+
+## Change Types
+${Object.entries(result.summary.changeTypes).map(([type, count]) => `- **${type}**: ${count}`).join('\n') || 'No element-level changes detected'}
+
+## Changed Elements
+${shownChanges.length === 0 ? '✅ No element-level changes detected' : shownChanges.map((change, index) => `
+### ${index + 1}. ${change.changeType.toUpperCase()} (${change.severity}): \`${change.selector}\`
+- **Before**: ${change.boundsBefore.width}×${change.boundsBefore.height} at (${change.boundsBefore.x}, ${change.boundsBefore.y})
+- **After**: ${change.boundsAfter.width}×${change.boundsAfter.height} at (${change.boundsAfter.x}, ${change.boundsAfter.y})
+${Object.entries(change.styleChanges).map(([prop, diff]) => `- \`${prop}\`: ${diff.old} → ${diff.new}`).join('\n')}`).join('\n')}
+${result.changedElements.length > shownChanges.length ? `\n**Note**: ${result.changedElements.length - shownChanges.length} additional changes not shown.` : ''}
+
+## Diff Regions
+${result.diffRegions.slice(0, 20).map(region => `- ${region.width}×${region.height} at (${region.x}, ${region.y})`).join('\n') || 'No pixel differences found'}
+
+${this.formatActionResults(result.actions?.before, 'Actions (before)')}${this.formatActionResults(result.actions?.after, 'Actions (after)')}
+The images below are the before screenshot, the after screenshot and the diff with changed pixels highlighted in red.`,
+        },
+        {
+          type: 'image' as const,
+          data: result.beforeScreenshot,
+          mimeType: 'image/png',
+        },
+        {
+          type: 'image' as const,
+          data: result.afterScreenshot,
+          mimeType: 'image/png',
+        },
+        {
+          type: 'image' as const,
+          data: result.diffImage,
+          mimeType: 'image/png',
+        },
+        ...this.actionImages(result.actions?.before),
+        ...this.actionImages(result.actions?.after),
+      ],
+    };
+  }
+
+  private async handleAnalyzeButtonElements(params: any, config: UxplainConfig) {
     console.log(`Analyzing button elements for: ${params.url}`);
+    const { minTouchTarget } = config.thresholds;
     
     // Use the visual-code correlator if project path is provided
     if (params.projectPath) {
-      const correlator = new VisualCodeCorrelator();
+      const correlator = new VisualCodeCorrelator(config);
       const correlation = await correlator.analyzeWithCodeCorrelation(
         params.url,
         params.projectPath,
-        'button'
+        'button',
+        { actions: params.actions }
       );
       
       const buttonElements = correlation.correlations.filter((c: any) => 
@@ -419,7 +924,7 @@ ${buttonElements.map((button: any, index: number) => `
 **Visual Properties**:
 - Position: (${button.visualElement.bounds.x}, ${button.visualElement.bounds.y})
 - Size: ${button.visualElement.bounds.width}×${button.visualElement.bounds.height}px
-- Touch Target: ${button.visualElement.bounds.width >= 44 && button.visualElement.bounds.height >= 44 ? '✅ Adequate' : '❌ Too Small'}
+- Touch Target: ${button.visualElement.bounds.width >= minTouchTarget && button.visualElement.bounds.height >= minTouchTarget ? '✅ Adequate' : '❌ Too Small'}
 
 ${button.sourceComponent ? `**Source Component**: \`${button.sourceComponent.name}\`
 **File**: \`${button.sourceComponent.filePath}\`
@@ -433,17 +938,21 @@ ${button.recommendations.map((rec: string) => `- 💡 ${rec}`).join('\n')}` : ''
 `).join('\n---\n')}
 
 ## Button-Specific Recommendations
-1. **Touch Targets**: Ensure all buttons are at least 44×44px for mobile accessibility
+1. **Touch Targets**: Ensure all buttons are at least ${minTouchTarget}×${minTouchTarget}px for mobile accessibility
 2. **Spacing**: Maintain adequate spacing (8px minimum) between buttons
 3. **States**: Implement clear hover, focus, and active states
-4. **Labels**: Provide descriptive text or aria-labels for icon buttons`,
-        }],
+4. **Labels**: Provide descriptive text or aria-labels for icon buttons
+${this.formatActionResults(correlation.actions)}`,
+        },
+        ...this.actionImages(correlation.actions)],
       };
     } else {
       // Fallback to basic visual analysis
       const result = await UIContextTool.captureUIContext({
         url: params.url,
         includeAccessibility: true,
+        actions: params.actions,
+        auth: config.auth,
       });
       
       return {
@@ -461,22 +970,25 @@ This is a basic button analysis. For intelligent code correlation and detailed r
 **Current Analysis**: Basic visual inspection
 **Accessibility Info**: ${result.accessibility ? 'Included' : 'Not available'}
 
-💡 **Tip**: Provide the projectPath parameter to get source code correlation and detailed recommendations.`,
-        }],
+💡 **Tip**: Provide the projectPath parameter to get source code correlation and detailed recommendations.
+${this.formatActionResults(result.actions)}`,
+        },
+        ...this.actionImages(result.actions)],
       };
     }
   }
 
-  private async handleAnalyzeFormElements(params: any) {
+  private async handleAnalyzeFormElements(params: any, config: UxplainConfig) {
     console.log(`Analyzing form elements for: ${params.url}`);
     
     // Similar structure to button analysis but focused on forms
     if (params.projectPath) {
-      const correlator = new VisualCodeCorrelator();
+      const correlator = new VisualCodeCorrelator(config);
       const correlation = await correlator.analyzeWithCodeCorrelation(
         params.url,
         params.projectPath,
-        'input'
+        'input',
+        { actions: params.actions }
       );
       
       const formElements = correlation.correlations.filter((c: any) => 
@@ -507,8 +1019,10 @@ ${element.sourceComponent ? `**Source Component**: \`${element.sourceComponent.n
 
 ${element.responsiveIssues.length > 0 ? `**Issues**:
 ${element.responsiveIssues.map((issue: string) => `- ⚠️ ${issue}`).join('\n')}` : '✅ No issues found'}
-`).join('\n---\n')}`,
-        }],
+`).join('\n---\n')}
+${this.formatActionResults(correlation.actions)}`,
+        },
+        ...this.actionImages(correlation.actions)],
       };
     } else {
       return {
@@ -527,7 +1041,143 @@ This will enable intelligent mapping of form elements to your React/Vue componen
     }
   }
 
-  private async handleCorrelateVisualToSource(params: any) {
+  private async handleIsolateComponent(params: ComponentIsolationParams, config: UxplainConfig) {
+    if (!params.selector) {
+      throw new McpError(ErrorCode.InvalidParams, 'isolate_component needs a selector or an elementRef');
+    }
+    console.log(`Isolating component ${params.selector} at: ${params.url}`);
+    
+    const result = await ComponentIsolationTool.isolateComponent({ ...params, auth: config.auth });
+    const layout = result.layoutAnalysis;
+    
+    const content = [
+      {
+        type: 'text' as const,
+        text: `# Component Isolation
+
+## Element
+- **URL**: ${params.url}
+- **Selector**: \`${params.selector}\`
+- **Display**: ${layout.display}
+- **Position**: ${layout.position}
+- **Content Box**: ${Math.round(layout.boxModel.content.width)}×${Math.round(layout.boxModel.content.height)}px
+- **Padding**: ${layout.boxModel.padding}
+- **Margin**: ${layout.boxModel.margin}
+- **Border**: ${layout.boxModel.border}
+${layout.flexbox ? `- **Flexbox**: ${layout.flexbox.direction}, ${layout.flexbox.wrap}, justify ${layout.flexbox.justifyContent}, align ${layout.flexbox.alignItems}${layout.flexbox.alignContent ? `, align-content ${layout.flexbox.alignContent}` : ''}, gap ${layout.flexbox.gap}` : ''}
+${layout.grid ? `- **Grid**: columns ${layout.grid.templateColumns}, rows ${layout.grid.templateRows}, gap ${layout.grid.gap}${layout.grid.autoFlow ? `, auto-flow ${layout.grid.autoFlow}` : ''}${layout.grid.areas && layout.grid.areas !== 'none' ? `, areas ${layout.grid.areas}` : ''}` : ''}
+${layout.float ? `- **Float**: ${layout.float}` : ''}
+${layout.zIndex !== undefined ? `- **z-index**: ${layout.zIndex}` : ''}
+
+## State Variations
+${result.stateVariations ? result.stateVariations.map(variation => `
+### :${variation.state}
+${variation.description}
+${Object.entries(variation.styleChanges || {}).map(([prop, diff]) => `- \`${prop}\`: ${diff.old} → ${diff.new}`).join('\n')}`).join('\n') : 'State capture disabled'}
+
+## Cascade Origin
+${result.inheritance.cascadeOrigin.length > 0 ? `| Property | Value | Source | Selector | Location | Specificity |
+|----------|-------|--------|----------|----------|-------------|
+${result.inheritance.cascadeOrigin.slice(0, 80).map(origin => `| \`${origin.property}\` | ${origin.value}${origin.important ? ' !important' : ''} | ${origin.source}${origin.inheritedDepth ? ` (inherited, ${origin.inheritedDepth} up)` : ''} | \`${origin.selector || ''}\` | ${origin.authored ? `${origin.authored.filePath}:${origin.authored.line}` : origin.stylesheetUrl ? `${origin.stylesheetUrl}${origin.line ? `:${origin.line}` : ''}` : '-'} | ${origin.specificity} |`).join('\n')}` : 'Cascade information requires a Chromium browser'}
+
+## Inherited Styles
+${Object.entries(result.inheritance.inheritedStyles).map(([prop, value]) => `- **${prop}**: ${value}`).join('\n') || 'None'}
+
+## Style Dependencies (${result.styleDependencies.length} rules)
+\`\`\`css
+${result.styleDependencies.slice(0, 40).join('\n')}
+\`\`\`
+${result.children ? `
+## Children
+${result.children.map(child => `- \`${child.selector}\`${child.locator.startsWith('locator(') ? '' : ` / \`${child.locator}\``} (${Math.round(child.bounds.width)}×${Math.round(child.bounds.height)}px)${child.textContent ? `: "${child.textContent}"` : ''}`).join('\n') || 'None'}` : ''}
+${result.parentContext ? `
+## Parent Context
+\`\`\`html
+${result.parentContext}
+\`\`\`` : ''}
+
+${this.formatActionResults(result.actions)}
+The first image is the default state; the following images are the state variations in the order listed above.`,
+      },
+      {
+        type: 'image' as const,
+        data: result.componentScreenshot,
+        mimeType: 'image/png',
+      },
+    ];
+
+    for (const variation of result.stateVariations || []) {
+      content.push({
+        type: 'image' as const,
+        data: variation.screenshot,
+        mimeType: 'image/png',
+      });
+    }
+    content.push(...this.actionImages(result.actions));
+
+    return { content };
+  }
+
+  private async handleAuditAccessibility(params: AccessibilityAuditParams, config: UxplainConfig) {
+    console.log(`Auditing accessibility at: ${params.url}`);
+    
+    const result = await AccessibilityAuditor.audit({ ...params, auth: config.auth });
+    const screenshots: Array<{ label: string; data: string }> = [];
+    
+    const violations = result.violations.map((violation, index) => `
+### ${index + 1}. ${violation.help} (\`${violation.id}\`, ${violation.impact})
+${violation.description}
+- **WCAG tags**: ${violation.tags.filter(tag => tag.startsWith('wcag')).join(', ') || 'best practice'}
+- **Reference**: ${violation.helpUrl}
+${violation.nodes.slice(0, 10).map(node => {
+  if (node.screenshot) {
+    screenshots.push({ label: `${violation.id}: ${node.selector}`, data: node.screenshot });
+  }
+  return `
+- \`${node.selector}\`${node.screenshot ? ` 📸 image ${screenshots.length}` : ''}
+  - HTML: \`${node.html.replace(/\s+/g, ' ').slice(0, 160)}\`
+  - ${node.failureSummary.replace(/\n\s*/g, ' ')}${node.sourceComponent ? `
+  - Source: **${node.sourceComponent.name}** (\`${node.sourceComponent.filePath}\`, ${Math.round(node.sourceComponent.confidence * 100)}% confidence)` : ''}`;
+}).join('')}${violation.nodes.length > 10 ? `
+- ...and ${violation.nodes.length - 10} more nodes` : ''}`).join('\n');
+    
+    const content: Array<{ type: 'text'; text: string } | { type: 'image'; data: string; mimeType: string }> = [
+      {
+        type: 'text' as const,
+        text: `# Accessibility Audit
+
+## Overview
+- **URL**: ${result.url}
+- **Standard**: ${result.standard}${params.selector ? `
+- **Scope**: \`${params.selector}\`` : ''}
+- **Rule tags**: ${result.tags.join(', ')}
+- **Violations**: ${result.summary.violations} rules, ${result.summary.affectedNodes} nodes
+- **Passed rules**: ${result.summary.passes}
+- **Needs manual review**: ${result.summary.incomplete}
+
+## Violations by Impact
+${Object.entries(result.summary.byImpact).map(([impact, count]) => `- **${impact}**: ${count}`).join('\n') || 'No violations found ✅'}
+
+## Violations
+${violations || 'None'}
+${this.formatActionResults(result.actions)}${screenshots.length > 0 ? `
+The images below show the offending nodes in the order marked above.` : ''}`,
+      },
+    ];
+
+    for (const screenshot of screenshots) {
+      content.push({
+        type: 'image' as const,
+        data: screenshot.data,
+        mimeType: 'image/png',
+      });
+    }
+    content.push(...this.actionImages(result.actions));
+
+    return { content };
+  }
+
+  private async handleCorrelateVisualToSource(params: any, config: UxplainConfig) {
     console.log(`Correlating visual elements to source code for: ${params.url}`);
     
     try {
@@ -550,11 +1200,12 @@ This will enable intelligent mapping of visual elements to your source code comp
         };
       }
       
-      const correlator = new VisualCodeCorrelator();
+      const correlator = new VisualCodeCorrelator(config);
       const correlation = await correlator.analyzeWithCodeCorrelation(
         params.url,
         params.projectPath,
-        params.focusElement
+        params.focusElement,
+        { annotate: params.annotate, actions: params.actions }
       );
       
       return {
@@ -575,11 +1226,12 @@ ${correlation.correlations.filter((c: any) => c.sourceComponent).map((match: any
 ### ${index + 1}. ${match.visualElement.tagName.toUpperCase()}: "${match.visualElement.text || 'Unnamed'}"
 
 **🔗 Source Component**: \`${match.sourceComponent.name}\`
-**📁 File**: \`${match.sourceComponent.filePath}\`
+**📁 File**: \`${match.sourceLocation ? `${match.sourceComponent.filePath}:${match.sourceLocation.line}` : match.sourceComponent.filePath}\`
 **🎯 Confidence**: ${(match.confidence * 100).toFixed(1)}%
 **🔍 Match Reason**: ${match.matchReason}
-
+${match.componentChain ? `**🧬 Component Chain**: ${match.componentChain.join(' › ')}\n` : ''}
 **Visual Position**: (${match.visualElement.bounds.x}, ${match.visualElement.bounds.y})
+**Selector**: \`${match.visualElement.selector}\`${match.visualElement.locator ? ` (locator: \`page.${match.visualElement.locator}\`)` : ''}
 **Size**: ${match.visualElement.bounds.width}×${match.visualElement.bounds.height}px
 
 **Component Details**:
@@ -605,8 +1257,19 @@ This correlation enables you to:
 - **Refactor** with confidence knowing the visual impact
 - **Maintain** design system consistency
 
-**Next Steps**: Use the component file paths to make targeted improvements to your codebase.`,
-        }],
+**Next Steps**: Use the component file paths to make targeted improvements to your codebase.${correlation.annotated ? `
+
+## 🔢 Marked Elements (${correlation.annotated.marks.length})
+
+${this.formatMarkLegend(correlation.annotated.marks)}` : ''}
+${this.formatActionResults(correlation.actions)}`,
+        },
+        ...(correlation.annotated ? [{
+          type: 'image' as const,
+          data: correlation.annotated.screenshot,
+          mimeType: 'image/png',
+        }] : []),
+        ...this.actionImages(correlation.actions)],
       };
     } catch (error) {
       return {
@@ -632,10 +1295,10 @@ This correlation enables you to:
     return await this.handleGetProjectStats(params);
   }
 
-  private async handleCaptureUIContext(params: UIContextParams) {
+  private async handleCaptureUIContext(params: UIContextParams, config: UxplainConfig) {
     console.log(`Capturing UI context for: ${params.url}`);
     
-    const result = await UIContextTool.captureUIContext(params);
+    const result = await UIContextTool.captureUIContext({ breakpoints: config.breakpoints, ...params, auth: config.auth });
     
     const content = [
       {
@@ -668,7 +1331,12 @@ ${result.html}
 ${result.css}
 \`\`\`
 
-## Computed Styles
+${result.styleSources ? `## Style Sources
+${result.styleSources.length > 0 ? `| Property | Value | Selector | Edit In | Components |
+|----------|-------|----------|---------|------------|
+${result.styleSources.slice(0, 80).map(origin => `| \`${origin.property}\` | ${origin.value}${origin.important ? ' !important' : ''} | \`${origin.selector || ''}\` | ${origin.authored ? `\`${origin.authored.filePath}:${origin.authored.line}\`` : `${origin.stylesheetUrl || '-'}${origin.line ? `:${origin.line}` : ''} (no source map)`} | ${origin.components?.join(', ') || '-'} |`).join('\n')}` : 'No author styles apply to this element'}
+
+` : ''}## Computed Styles
 \`\`\`json
 ${JSON.stringify(result.computedStyles, null, 2)}
 \`\`\`
@@ -678,12 +1346,14 @@ ${result.accessibility ? `## Accessibility Information
 - **Label**: ${result.accessibility.label || 'None'}
 - **Focusable**: ${result.accessibility.focusable}
 - **Keyboard Accessible**: ${result.accessibility.keyboardAccessible}
-- **Landmarks**: ${result.accessibility.landmarks.join(', ')}` : ''}
+- **Landmarks**: ${result.accessibility.landmarks.join(', ')}${result.accessibility.colorContrast ? `
+- **Color Contrast**: ${result.accessibility.colorContrast.ratio}:1 (${result.accessibility.colorContrast.foreground} on ${result.accessibility.colorContrast.background}) - ${result.accessibility.colorContrast.level === 'fail' ? '❌ fails WCAG AA' : `✅ WCAG ${result.accessibility.colorContrast.level}`}` : ''}` : ''}
 
 ${result.responsive ? `## Responsive Views
 ${result.responsive.map(view => `### ${view.deviceInfo?.name} (${view.breakpoint}px)
 - **Device Type**: ${view.deviceInfo?.type}
 - **Key Styles**: ${Object.entries(view.computedStyles).map(([prop, value]) => `${prop}: ${value}`).join(', ')}`).join('\n\n')}` : ''}
+${this.formatActionResults(result.actions)}
 
 ---
 
@@ -707,28 +1377,45 @@ This context provides comprehensive information about the UI element or page, in
         });
       });
     }
+    content.push(...this.actionImages(result.actions));
 
     return {
       content,
     };
   }
 
-  private async handleIndexProject(params: any) {
+  private async handleIndexProject(params: any, config: UxplainConfig) {
     console.log(`Indexing project: ${params.projectPath}`);
     
     try {
       const indexer = new ProjectIndexer(params.projectPath);
-      const index = await indexer.indexProject();
       
-      // If visual analysis is requested and dev server URL is provided
-      if (params.includeVisualAnalysis && params.devServerUrl) {
-        console.log(`Performing visual analysis at: ${params.devServerUrl}`);
-        const visualAnalyzer = new VisualAnalyzer();
-        const visualAnalysis = await visualAnalyzer.analyzeFullPage(params.devServerUrl);
-        
-        // Store visual analysis results in the index for future use
-        // This could be extended to store screenshots with the index
+      // A new request replaces any watcher already running for the project
+      await this.watchers.get(params.projectPath)?.close();
+      this.watchers.delete(params.projectPath);
+      
+      // Visual capture runs against the given or configured dev server, started if
+      // needed, and a configured Storybook
+      const incremental = params.incremental || params.watch;
+      const visual = params.includeVisualAnalysis && !incremental;
+      const devServerUrl = visual
+        ? params.devServerUrl || config.devServer.url || (config.storybook?.url ? undefined : 'http://localhost:3000')
+        : undefined;
+      const storybookUrl = visual ? config.storybook?.url : undefined;
+      const devServer = devServerUrl
+        ? await DevServer.ensureRunning(devServerUrl, config.devServer.command, params.projectPath)
+        : null;
+      
+      let index;
+      try {
+        index = await indexer.indexProject({ incremental, devServerUrl, storybookUrl });
+      } finally {
+        await devServer?.stop();
+      }
+      if (params.watch) {
+        this.watchers.set(params.projectPath, indexer.watch());
       }
+      const visualComponents = index.components.filter(component => Object.keys(component.screenshots).length > 0).length;
       
       return {
         content: [{
@@ -741,7 +1428,11 @@ This context provides comprehensive information about the UI element or page, in
 **Components Found**: ${index.metadata.componentsCount}
 **Pages Found**: ${index.metadata.pagesCount}
 **Index Location**: ${params.projectPath}/.ui-context-index.json
-
+**Configuration**: ${config.configPath || 'defaults (no uxplain.config found)'}
+**Mode**: ${params.watch ? 'Watching for changes (incremental updates)' : params.incremental ? 'Incremental' : 'Full'}
+**Visual Capture**: ${visual ? `${visualComponents}/${index.components.length} components captured from ${[devServerUrl, storybookUrl].filter(Boolean).join(' and ')}; screenshots in ${params.projectPath}/${SCREENSHOTS_DIR}/` : 'Skipped'}
+${index.metadata.storybook ? `**Storybook Stories**: ${index.metadata.storybook.linkedCount}/${index.metadata.storybook.storiesCount} linked to components (from ${index.metadata.storybook.source === 'files' ? 'story files' : index.metadata.storybook.source === 'static' ? 'static build' : index.metadata.storybook.url})
+` : ''}
 ## Discovered Components
 
 ${index.components.map(component => `
@@ -811,6 +1502,7 @@ Use the "index_project" tool with projectPath: "${params.projectPath}"
         componentType: params.componentType,
         hasProps: params.hasProps,
         hasSideEffects: params.hasSideEffects,
+        package: params.package,
       };
       
       const results = searchEngine.searchComponents(searchQuery);
@@ -828,7 +1520,8 @@ Use the "index_project" tool with projectPath: "${params.projectPath}"
 ${limitedResults.length === 0 ? '**No matching components found.**' : limitedResults.map((result, index) => `
 ## ${index + 1}. ${result.component.name} (Score: ${result.relevanceScore.toFixed(1)})
 
-**File**: \`${result.component.filePath}\`
+**File**: \`${result.component.filePath}\`${result.component.package ? `
+**Package**: ${result.component.package}` : ''}
 **Description**: ${result.component.description}
 **Tags**: ${result.component.tags.join(', ') || 'None'}
 **Props**: ${result.component.props.length > 0 ? result.component.props.map(p => `${p.name}: ${p.type}`).join(', ') : 'None'}
@@ -943,8 +1636,8 @@ Please ensure the project has been indexed first using the "index_project" tool.
     console.log(`Getting project statistics for: ${params.projectPath}`);
     
     try {
-      const index = await ProjectIndexer.loadIndex(params.projectPath);
-      if (!index) {
+      const fullIndex = await ProjectIndexer.loadIndex(params.projectPath);
+      if (!fullIndex) {
         return {
           content: [{
             type: 'text' as const,
@@ -955,6 +1648,7 @@ The project at \`${params.projectPath}\` has not been indexed yet. Please run th
         };
       }
       
+      const index = params.package ? IndexSearchEngine.filterByPackage(fullIndex, params.package) : fullIndex;
       const searchEngine = new IndexSearchEngine(index);
       
       // Calculate statistics
@@ -990,8 +1684,10 @@ The project at \`${params.projectPath}\` has not been indexed yet. Please run th
           text: `# Project Statistics
 
 ## Overview
-**Framework**: ${index.metadata.framework}
-**Last Indexed**: ${new Date(index.metadata.lastIndexed).toLocaleString()}
+**Framework**: ${index.metadata.framework}${index.metadata.workspace ? `
+**Workspace**: ${index.metadata.workspace.tool} (${index.metadata.workspace.packages.length} packages)${params.package ? `, showing ${params.package}` : ''}` : ''}
+**Last Indexed**: ${new Date(index.metadata.lastIndexed).toLocaleString()}${index.metadata.stale ? `
+**⚠️ Stale**: updating failed at ${new Date(index.metadata.stale.since).toLocaleString()} (${index.metadata.stale.error}); showing the last good index` : ''}
 **Total Components**: ${index.metadata.componentsCount}
 **Total Pages**: ${index.metadata.pagesCount}
 
@@ -1011,7 +1707,8 @@ ${topTags.length > 0 ? topTags.map(([tag, count]) => `- **${tag}**: ${count} com
 ## Component Details
 ${index.components.map(component => `
 ### ${component.name}
-- **File**: ${component.filePath}
+- **File**: ${component.filePath}${component.package ? `
+- **Package**: ${component.package}` : ''}
 - **Props**: ${component.props.length}
 - **Tags**: ${component.tags.join(', ') || 'None'}
 - **Imports**: ${component.imports.length}
@@ -1062,6 +1759,8 @@ Please ensure the project has been indexed first using the "index_project" tool.
 
   private async cleanup(): Promise<void> {
     try {
+      await Promise.all(Array.from(this.watchers.values()).map(watcher => watcher.close()));
+      this.watchers.clear();
       await closeBrowserManager();
       console.log('Browser resources cleaned up');
     } catch (error) {
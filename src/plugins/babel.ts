@@ -0,0 +1,37 @@
+import { SOURCE_ATTRIBUTE, SourceTagger } from '../utils/source-tagger.js';
+
+export interface BabelSourceTagsOptions {
+  root?: string; // project root the paths are relative to, defaults to Babel's cwd
+}
+
+/**
+ * Babel plugin adding data-uxp-src="path:line:col" to host JSX elements, for
+ * builds that do not go through Vite (webpack, Next.js, Metro).
+ *
+ *   // babel.config.js
+ *   plugins: ['@uxplain/ui-context-mcp-server/babel']
+ */
+export default function uxplainBabelSourceTags({ types: t }: { types: any }) {
+  return {
+    name: 'uxplain-source-tags',
+    visitor: {
+      JSXOpeningElement(nodePath: any, state: { filename?: string; cwd?: string; opts: BabelSourceTagsOptions }) {
+        const { node } = nodePath;
+        const isHostTag = (t.isJSXIdentifier(node.name) && /^[a-z]/.test(node.name.name)) || t.isJSXNamespacedName(node.name);
+        if (!isHostTag || !node.loc || !state.filename) return;
+
+        const alreadyTagged = node.attributes.some((attribute: any) =>
+          t.isJSXAttribute(attribute) && t.isJSXIdentifier(attribute.name, { name: SOURCE_ATTRIBUTE })
+        );
+        if (alreadyTagged) return;
+
+        const location = SourceTagger.format({
+          filePath: SourceTagger.relativePath(state.filename, state.opts.root || state.cwd || process.cwd()),
+          line: node.loc.start.line,
+          column: node.loc.start.column + 1,
+        });
+        node.attributes.push(t.jsxAttribute(t.jsxIdentifier(SOURCE_ATTRIBUTE), t.stringLiteral(location)));
+      },
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import { SourceTagger, type TaggedSource } from '../utils/source-tagger.js';
+
+export interface SourceTagsOptions {
+  root?: string; // project root the paths are relative to, defaults to Vite's root
+  include?: RegExp; // modules to tag, defaults to JSX/TSX and Vue files
+}
+
+// The subset of Vite's Plugin interface used here, so Vite is not a dependency
+export interface VitePlugin {
+  name: string;
+  enforce?: 'pre' | 'post';
+  configResolved?: (config: { root: string }) => void;
+  transform?: (code: string, id: string) => TaggedSource | null;
+}
+
+/**
+ * Vite plugin adding data-uxp-src="path:line:col" to host elements in JSX
+ * and Vue templates. Runs before the framework plugins so positions are
+ * those of the authored source.
+ *
+ *   import { uxplainSourceTags } from '@uxplain/ui-context-mcp-server/vite';
+ *   export default defineConfig({ plugins: [uxplainSourceTags(), react()] });
+ */
+export function uxplainSourceTags(options: SourceTagsOptions = {}): VitePlugin {
+  let root = options.root || process.cwd();
+  const include = options.include || /\.(jsx|tsx|vue)$/;
+
+  return {
+    name: 'uxplain-source-tags',
+    enforce: 'pre',
+    configResolved(config) {
+      if (!options.root) root = config.root;
+    },
+    transform(code, id) {
+      const [fileName, query = ''] = id.split('?');
+      if (fileName.includes('/node_modules/') || !include.test(fileName)) return null;
+      // Blocks the Vue plugin splits off (?vue&type=style) are not SFC source
+      if (/(^|&)type=/.test(query)) return null;
+
+      return fileName.endsWith('.vue')
+        ? SourceTagger.tagVueTemplate(code, fileName, root)
+        : SourceTagger.tagJSX(code, fileName, root);
+    },
+  };
+}
+
+export default uxplainSourceTags;
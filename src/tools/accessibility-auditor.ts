@@ -0,0 +1,258 @@
+import type { Page } from 'playwright';
+import axe from 'axe-core';
+import { getBrowserManager } from '../utils/browser.js';
+import { ImageProcessor } from '../utils/image-processor.js';
+import { VisualCodeCorrelator } from './visual-code-correlator.js';
+import { ConfigLoader } from '../utils/config-loader.js';
+import { PageActions } from '../utils/page-actions.js';
+import type { AuthConfig, PageAction, PageActionResult, Viewport } from '../types/index.js';
+
+export type WCAGVersion = '2.0' | '2.1' | '2.2';
+export type WCAGLevel = 'A' | 'AA' | 'AAA';
+
+export interface AccessibilityAuditParams {
+  url: string;
+  selector?: string;
+  viewport?: Viewport;
+  waitFor?: string | number;
+  wcagVersion?: WCAGVersion;
+  wcagLevel?: WCAGLevel;
+  includeBestPractices?: boolean;
+  projectPath?: string;
+  maxScreenshots?: number;
+  actions?: PageAction[];
+  auth?: AuthConfig;
+}
+
+export interface AccessibilityViolationNode {
+  selector: string;
+  html: string;
+  impact: string;
+  failureSummary: string;
+  screenshot?: string; // base64, cropped to the node
+  sourceComponent?: {
+    name: string;
+    filePath: string;
+    confidence: number;
+    matchReason: string;
+  };
+}
+
+export interface AccessibilityViolation {
+  id: string;
+  impact: string;
+  description: string;
+  help: string;
+  helpUrl: string;
+  tags: string[];
+  nodes: AccessibilityViolationNode[];
+}
+
+export interface AccessibilityAuditResult {
+  url: string;
+  standard: string;
+  tags: string[];
+  violations: AccessibilityViolation[];
+  summary: {
+    violations: number;
+    affectedNodes: number;
+    passes: number;
+    incomplete: number;
+    byImpact: Record<string, number>;
+  };
+  actions?: PageActionResult[];
+  timestamp: string;
+}
+
+const WCAG_VERSIONS: Array<{ version: WCAGVersion; tagPrefix: string }> = [
+  { version: '2.0', tagPrefix: 'wcag2' },
+  { version: '2.1', tagPrefix: 'wcag21' },
+  { version: '2.2', tagPrefix: 'wcag22' },
+];
+
+const WCAG_LEVELS: WCAGLevel[] = ['A', 'AA', 'AAA'];
+
+const IMPACT_ORDER = ['critical', 'serious', 'moderate', 'minor', 'unknown'];
+
+export class AccessibilityAuditor {
+  static async audit(params: AccessibilityAuditParams): Promise<AccessibilityAuditResult> {
+    const browserManager = getBrowserManager();
+    await browserManager.initialize();
+
+    const page = await browserManager.createPage(params.auth);
+
+    try {
+      if (params.viewport) {
+        await page.setViewportSize(params.viewport);
+      }
+
+      await page.goto(params.url, {
+        waitUntil: 'networkidle',
+        timeout: 30000,
+      });
+
+      if (params.waitFor) {
+        if (typeof params.waitFor === 'string') {
+          await page.waitForSelector(params.waitFor, { timeout: 10000 });
+        } else {
+          await page.waitForTimeout(params.waitFor);
+        }
+      }
+
+      const actions = params.actions?.length ? await PageActions.run(page, params.actions) : undefined;
+
+      const wcagVersion = params.wcagVersion || '2.1';
+      const wcagLevel = params.wcagLevel || 'AA';
+      const tags = this.getRuleTags(wcagVersion, wcagLevel, params.includeBestPractices);
+
+      const results = await this.runAxe(page, tags, params.selector);
+
+      let violations: AccessibilityViolation[] = results.violations.map(violation => ({
+        id: violation.id,
+        impact: violation.impact || 'unknown',
+        description: violation.description,
+        help: violation.help,
+        helpUrl: violation.helpUrl,
+        tags: violation.tags,
+        nodes: violation.nodes.map(node => ({
+          selector: this.targetToSelector(node.target),
+          html: node.html,
+          impact: node.impact || violation.impact || 'unknown',
+          failureSummary: node.failureSummary || '',
+        })),
+      }));
+
+      violations = violations.sort((a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact));
+
+      await this.captureNodeScreenshots(page, violations, params.maxScreenshots ?? 10);
+
+      if (params.projectPath) {
+        await this.correlateWithSource(page, violations, params.projectPath);
+      }
+
+      const byImpact: Record<string, number> = {};
+      for (const violation of violations) {
+        byImpact[violation.impact] = (byImpact[violation.impact] || 0) + 1;
+      }
+
+      return {
+        url: page.url(),
+        standard: `WCAG ${wcagVersion} ${wcagLevel}`,
+        tags,
+        violations,
+        summary: {
+          violations: violations.length,
+          affectedNodes: violations.reduce((count, v) => count + v.nodes.length, 0),
+          passes: results.passes.length,
+          incomplete: results.incomplete.length,
+          byImpact,
+        },
+        actions,
+        timestamp: new Date().toISOString(),
+      };
+    } finally {
+      await page.close();
+    }
+  }
+
+  /**
+   * axe tags every rule with the lowest WCAG version and level that requires
+   * it, so a WCAG 2.1 AA audit has to include the 2.0 A/AA and 2.1 A/AA tags.
+   */
+  static getRuleTags(version: WCAGVersion, level: WCAGLevel, includeBestPractices: boolean = false): string[] {
+    const maxVersion = WCAG_VERSIONS.findIndex(v => v.version === version);
+    const maxLevel = WCAG_LEVELS.indexOf(level);
+    const tags: string[] = [];
+
+    for (const { tagPrefix } of WCAG_VERSIONS.slice(0, maxVersion + 1)) {
+      for (const wcagLevel of WCAG_LEVELS.slice(0, maxLevel + 1)) {
+        tags.push(`${tagPrefix}${wcagLevel.toLowerCase()}`);
+      }
+    }
+
+    if (includeBestPractices) {
+      tags.push('best-practice');
+    }
+
+    return tags;
+  }
+
+  private static async runAxe(page: Page, tags: string[], selector?: string): Promise<axe.AxeResults> {
+    const alreadyLoaded = await page.evaluate(() => typeof (window as any).axe !== 'undefined');
+    if (!alreadyLoaded) {
+      await page.addScriptTag({ content: axe.source });
+    }
+
+    return await page.evaluate(async ({ tags, selector }) => {
+      const axeInstance = (window as any).axe;
+      const context = selector ? { include: [selector] } : document;
+      return await axeInstance.run(context, {
+        runOnly: { type: 'tag', values: tags },
+        resultTypes: ['violations'],
+      });
+    }, { tags, selector }) as axe.AxeResults;
+  }
+
+  private static targetToSelector(target: axe.UnlabelledFrameSelector): string {
+    // Shadow DOM targets are nested arrays; Playwright CSS selectors pierce
+    // open shadow roots, so joining the parts still locates the node
+    return target
+      .map(part => Array.isArray(part) ? part.join(' ') : part)
+      .join(' ');
+  }
+
+  private static async captureNodeScreenshots(
+    page: Page,
+    violations: AccessibilityViolation[],
+    maxScreenshots: number
+  ): Promise<void> {
+    let captured = 0;
+
+    for (const violation of violations) {
+      for (const node of violation.nodes) {
+        if (captured >= maxScreenshots) return;
+
+        try {
+          const element = page.locator(node.selector).first();
+          if (!(await element.isVisible())) continue;
+
+          const buffer = await element.screenshot({ type: 'png', timeout: 5000 });
+          node.screenshot = await ImageProcessor.optimizeScreenshotToBase64(buffer);
+          captured++;
+        } catch (error) {
+          console.warn(`Could not capture violation node ${node.selector}:`, (error as Error).message);
+        }
+      }
+    }
+  }
+
+  private static async correlateWithSource(
+    page: Page,
+    violations: AccessibilityViolation[],
+    projectPath: string
+  ): Promise<void> {
+    const selectors = Array.from(new Set(violations.flatMap(v => v.nodes.map(node => node.selector))));
+    if (selectors.length === 0) return;
+
+    try {
+      const correlator = new VisualCodeCorrelator(await ConfigLoader.load(projectPath));
+      const correlations = await correlator.correlateSelectors(page, selectors, projectPath);
+
+      for (const violation of violations) {
+        for (const node of violation.nodes) {
+          const correlation = correlations.get(node.selector);
+          if (correlation?.sourceComponent) {
+            node.sourceComponent = {
+              name: correlation.sourceComponent.name,
+              filePath: correlation.sourceComponent.filePath,
+              confidence: correlation.confidence,
+              matchReason: correlation.matchReason,
+            };
+          }
+        }
+      }
+    } catch (error) {
+      console.warn('Source correlation for accessibility violations failed:', error);
+    }
+  }
+}
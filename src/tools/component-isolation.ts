@@ -0,0 +1,495 @@
+import type { CDPSession, Locator, Page } from 'playwright';
+import { getBrowserManager } from '../utils/browser.js';
+import { ImageProcessor } from '../utils/image-processor.js';
+import { DOMAnalyzer } from '../utils/dom-analyzer.js';
+import { CascadeAnalyzer } from '../utils/cascade-analyzer.js';
+import { SELECTOR_ENGINE_GLOBAL, SelectorEngine } from '../utils/selector-engine.js';
+import { PageActions } from '../utils/page-actions.js';
+import type {
+  ComponentIsolationParams,
+  ComponentResult,
+  LayoutAnalysis,
+  StateVariation,
+} from '../types/index.js';
+
+type InteractiveState = 'hover' | 'focus' | 'focus-visible' | 'active';
+
+// Pseudo-classes forced through CDP for each captured state
+const FORCED_PSEUDO_CLASSES: Record<InteractiveState, string[]> = {
+  hover: ['hover'],
+  focus: ['focus'],
+  'focus-visible': ['focus', 'focus-visible'],
+  active: ['hover', 'active'],
+};
+
+const STATE_STYLES = [
+  'color', 'background-color', 'background-image', 'border-top-color',
+  'border-right-color', 'border-bottom-color', 'border-left-color',
+  'border-top-width', 'border-top-style', 'border-radius', 'outline-color',
+  'outline-style', 'outline-width', 'outline-offset', 'box-shadow', 'opacity',
+  'transform', 'filter', 'cursor', 'text-decoration-line', 'text-decoration-color',
+  'font-weight', 'font-size', 'padding-top', 'padding-right', 'padding-bottom',
+  'padding-left', 'width', 'height', 'visibility', 'pointer-events',
+];
+
+const INHERITED_STYLES = [
+  'color', 'font-family', 'font-size', 'font-style', 'font-weight', 'line-height',
+  'letter-spacing', 'text-align', 'text-transform', 'white-space', 'word-spacing',
+  'visibility', 'cursor', 'direction', 'list-style-type',
+];
+
+export class ComponentIsolationTool {
+  static async isolateComponent(params: ComponentIsolationParams): Promise<ComponentResult> {
+    const browserManager = getBrowserManager();
+    await browserManager.initialize();
+
+    const page = await browserManager.createPage(params.auth);
+
+    try {
+      if (params.viewport) {
+        await page.setViewportSize(params.viewport);
+      }
+
+      await page.goto(params.url, {
+        waitUntil: 'networkidle',
+        timeout: 30000,
+      });
+
+      if (params.waitFor) {
+        if (typeof params.waitFor === 'string') {
+          await page.waitForSelector(params.waitFor, { timeout: 10000 });
+        } else {
+          await page.waitForTimeout(params.waitFor);
+        }
+      }
+
+      const actions = params.actions?.length ? await PageActions.run(page, params.actions) : undefined;
+
+      const element = page.locator(params.selector).first();
+      if (!(await element.isVisible())) {
+        throw new Error(`Element ${params.selector} is not visible`);
+      }
+
+      // Transitions would make state captures depend on timing
+      const noTransitions = await page.addStyleTag({
+        content: '*, *::before, *::after { transition: none !important; animation: none !important; }',
+      });
+
+      const defaultStyles = await this.getStateStyles(element);
+      const componentScreenshot = await this.captureElement(element);
+
+      const stateVariations = params.captureStates !== false
+        ? await this.captureStateVariations(page, element, params.selector, defaultStyles)
+        : undefined;
+
+      await noTransitions.evaluate((node) => (node as Element).remove());
+
+      const cascade = await CascadeAnalyzer.analyze(page, element);
+      const layoutAnalysis = cascade?.layoutAnalysis ?? await this.analyzeLayout(element);
+      const styleDependencies = await this.collectStyleDependencies(element, params.selector, params.styleScope || 'component');
+      const inheritedStyles = await this.getInheritedStyles(element);
+
+      const children = params.includeChildren
+        ? await this.getChildren(page, element)
+        : undefined;
+
+      const parentContext = params.includeParents
+        ? await DOMAnalyzer.extractElementHTML(element, true)
+        : undefined;
+
+      return {
+        componentScreenshot,
+        parentContext,
+        styleDependencies,
+        stateVariations,
+        layoutAnalysis,
+        children,
+        inheritance: {
+          inheritedStyles,
+          cascadeOrigin: cascade?.cascadeOrigin ?? [],
+        },
+        actions,
+      };
+    } finally {
+      await page.close();
+    }
+  }
+
+  private static async captureStateVariations(
+    page: Page,
+    element: Locator,
+    selector: string,
+    defaultStyles: Record<string, string>
+  ): Promise<StateVariation[]> {
+    const variations: StateVariation[] = [];
+    const cdp = await this.openCDPSession(page, element);
+
+    for (const state of Object.keys(FORCED_PSEUDO_CLASSES) as InteractiveState[]) {
+      try {
+        await this.enterState(page, element, state, cdp);
+        variations.push(await this.buildVariation(element, state, defaultStyles, cdp !== null));
+      } catch (error) {
+        console.error(`Failed to capture ${state} state for ${selector}:`, error);
+      } finally {
+        await this.resetState(page, cdp);
+      }
+    }
+
+    try {
+      variations.push(await this.captureDisabledState(element, defaultStyles));
+    } catch (error) {
+      console.error(`Failed to capture disabled state for ${selector}:`, error);
+    }
+
+    if (cdp) {
+      await cdp.session.detach().catch(() => undefined);
+    }
+
+    return variations;
+  }
+
+  private static async openCDPSession(
+    page: Page,
+    element: Locator
+  ): Promise<{ session: CDPSession; nodeId: number } | null> {
+    // Forcing pseudo-classes is only available through the Chrome DevTools Protocol
+    if (page.context().browser()?.browserType().name() !== 'chromium') {
+      return null;
+    }
+
+    try {
+      const session = await page.context().newCDPSession(page);
+      await session.send('DOM.enable');
+      await session.send('CSS.enable');
+
+      const nodeId = await CascadeAnalyzer.requestNodeId(session, element);
+      if (!nodeId) {
+        await session.detach();
+        return null;
+      }
+
+      return { session, nodeId };
+    } catch (error) {
+      console.warn('CDP session unavailable, falling back to pointer and keyboard interaction:', error);
+      return null;
+    }
+  }
+
+  private static async enterState(
+    page: Page,
+    element: Locator,
+    state: InteractiveState,
+    cdp: { session: CDPSession; nodeId: number } | null
+  ): Promise<void> {
+    // Real interaction triggers JS-driven state (e.g. onMouseEnter handlers),
+    // forcing the pseudo-class covers styles the interaction alone cannot reach
+    switch (state) {
+      case 'hover':
+        await element.hover();
+        break;
+      case 'focus':
+        await element.focus();
+        break;
+      case 'focus-visible':
+        await element.focus();
+        break;
+      case 'active':
+        await element.hover();
+        // Without CDP the button has to go down for real; resetState moves the
+        // pointer away before releasing it, so no click is completed
+        if (!cdp) await page.mouse.down();
+        break;
+    }
+
+    if (cdp) {
+      await cdp.session.send('CSS.forcePseudoState', {
+        nodeId: cdp.nodeId,
+        forcedPseudoClasses: FORCED_PSEUDO_CLASSES[state],
+      });
+    }
+
+    await page.waitForTimeout(50);
+  }
+
+  private static async resetState(
+    page: Page,
+    cdp: { session: CDPSession; nodeId: number } | null
+  ): Promise<void> {
+    try {
+      if (cdp) {
+        await cdp.session.send('CSS.forcePseudoState', { nodeId: cdp.nodeId, forcedPseudoClasses: [] });
+      }
+      // Off the element first: releasing over it would click it
+      await page.mouse.move(0, 0);
+      await page.mouse.up();
+      await page.evaluate(() => (document.activeElement as HTMLElement | null)?.blur());
+    } catch (error) {
+      console.warn('Failed to reset element state:', error);
+    }
+  }
+
+  private static async buildVariation(
+    element: Locator,
+    state: InteractiveState,
+    defaultStyles: Record<string, string>,
+    forced: boolean
+  ): Promise<StateVariation> {
+    const computedStyles = await this.getStateStyles(element);
+    const styleChanges = this.diffStyles(defaultStyles, computedStyles);
+    const changedCount = Object.keys(styleChanges).length;
+
+    return {
+      state,
+      screenshot: await this.captureElement(element),
+      computedStyles,
+      styleChanges,
+      description: `${forced ? `Forced :${state} via CDP` : `Triggered ${state} via Playwright`}; ` +
+        (changedCount > 0 ? `${changedCount} properties differ from the default state` : 'no visual style changes'),
+    };
+  }
+
+  private static async captureDisabledState(
+    element: Locator,
+    defaultStyles: Record<string, string>
+  ): Promise<StateVariation> {
+    const mode = await element.evaluate((el) => {
+      const withDisabled = el as HTMLElement & { disabled?: boolean };
+      if ('disabled' in withDisabled) {
+        const previous = withDisabled.disabled;
+        withDisabled.disabled = true;
+        el.setAttribute('data-uxp-prev-disabled', String(previous));
+        return 'property';
+      }
+
+      el.setAttribute('data-uxp-prev-aria-disabled', el.getAttribute('aria-disabled') ?? '');
+      el.setAttribute('aria-disabled', 'true');
+      return 'aria';
+    });
+
+    try {
+      const computedStyles = await this.getStateStyles(element);
+      const styleChanges = this.diffStyles(defaultStyles, computedStyles);
+      const changedCount = Object.keys(styleChanges).length;
+
+      return {
+        state: 'disabled',
+        screenshot: await this.captureElement(element),
+        computedStyles,
+        styleChanges,
+        description: `${mode === 'property' ? 'Set the disabled property' : 'Set aria-disabled="true"'}; ` +
+          (changedCount > 0 ? `${changedCount} properties differ from the default state` : 'no visual style changes'),
+      };
+    } finally {
+      await element.evaluate((el) => {
+        const previousDisabled = el.getAttribute('data-uxp-prev-disabled');
+        if (previousDisabled !== null) {
+          (el as HTMLElement & { disabled?: boolean }).disabled = previousDisabled === 'true';
+          el.removeAttribute('data-uxp-prev-disabled');
+        }
+
+        const previousAria = el.getAttribute('data-uxp-prev-aria-disabled');
+        if (previousAria !== null) {
+          if (previousAria) {
+            el.setAttribute('aria-disabled', previousAria);
+          } else {
+            el.removeAttribute('aria-disabled');
+          }
+          el.removeAttribute('data-uxp-prev-aria-disabled');
+        }
+      });
+    }
+  }
+
+  private static async captureElement(element: Locator): Promise<string> {
+    const buffer = await element.screenshot({ type: 'png' });
+    return await ImageProcessor.optimizeScreenshotToBase64(buffer);
+  }
+
+  private static async getStateStyles(element: Locator): Promise<Record<string, string>> {
+    return await element.evaluate((el, props: string[]) => {
+      const computed = window.getComputedStyle(el);
+      const styles: Record<string, string> = {};
+      for (const prop of props) {
+        styles[prop] = computed.getPropertyValue(prop);
+      }
+      return styles;
+    }, STATE_STYLES);
+  }
+
+  private static diffStyles(
+    before: Record<string, string>,
+    after: Record<string, string>
+  ): Record<string, { old: string; new: string }> {
+    const changes: Record<string, { old: string; new: string }> = {};
+    for (const prop of Object.keys(after)) {
+      if (before[prop] !== after[prop]) {
+        changes[prop] = { old: before[prop], new: after[prop] };
+      }
+    }
+    return changes;
+  }
+
+  private static async analyzeLayout(element: Locator): Promise<LayoutAnalysis> {
+    return await element.evaluate((el) => {
+      const styles = window.getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      const px = (value: string) => parseFloat(value) || 0;
+      const sides = (prefix: string, suffix: string = '') =>
+        ['top', 'right', 'bottom', 'left']
+          .map(side => styles.getPropertyValue(`${prefix}-${side}${suffix}`))
+          .join(' ');
+
+      const contentX = rect.x + px(styles.borderLeftWidth) + px(styles.paddingLeft);
+      const contentY = rect.y + px(styles.borderTopWidth) + px(styles.paddingTop);
+
+      const layout: LayoutAnalysis = {
+        position: styles.position,
+        display: styles.display,
+        boxModel: {
+          margin: sides('margin'),
+          border: sides('border', '-width'),
+          padding: sides('padding'),
+          content: {
+            x: contentX,
+            y: contentY,
+            width: Math.max(0, rect.width - px(styles.borderLeftWidth) - px(styles.borderRightWidth) -
+              px(styles.paddingLeft) - px(styles.paddingRight)),
+            height: Math.max(0, rect.height - px(styles.borderTopWidth) - px(styles.borderBottomWidth) -
+              px(styles.paddingTop) - px(styles.paddingBottom)),
+          },
+        },
+      };
+
+      if (styles.display.includes('flex')) {
+        layout.flexbox = {
+          direction: styles.flexDirection,
+          wrap: styles.flexWrap,
+          justifyContent: styles.justifyContent,
+          alignItems: styles.alignItems,
+          gap: styles.gap,
+        };
+      }
+
+      if (styles.display.includes('grid')) {
+        layout.grid = {
+          templateColumns: styles.gridTemplateColumns,
+          templateRows: styles.gridTemplateRows,
+          gap: styles.gap,
+          areas: styles.gridTemplateAreas,
+        };
+      }
+
+      if (styles.float !== 'none') {
+        layout.float = styles.float;
+      }
+
+      const zIndex = parseInt(styles.zIndex, 10);
+      if (!isNaN(zIndex)) {
+        layout.zIndex = zIndex;
+      }
+
+      return layout;
+    });
+  }
+
+  private static async collectStyleDependencies(
+    element: Locator,
+    selector: string,
+    scope: 'component' | 'global' | 'inherited'
+  ): Promise<string[]> {
+    return await element.evaluate((el, { sel, scope }) => {
+      const targets: Element[] = [el];
+      if (scope !== 'component') {
+        let parent = el.parentElement;
+        while (parent) {
+          targets.push(parent);
+          parent = parent.parentElement;
+        }
+      }
+
+      // Strip interactive pseudo-classes so rules for hover/focus/etc. states
+      // count as dependencies even though they do not match right now
+      const statePseudo = /:(hover|focus|focus-visible|focus-within|active|visited|disabled|enabled|checked)\b/g;
+      const matches = (target: Element, selectorText: string): boolean => {
+        try {
+          return target.matches(selectorText) || target.matches(selectorText.replace(statePseudo, '') || '*');
+        } catch {
+          return false;
+        }
+      };
+
+      const rules: string[] = [];
+      const visit = (ruleList: CSSRuleList) => {
+        for (const rule of Array.from(ruleList)) {
+          if (rule instanceof CSSStyleRule) {
+            const isGlobal = /(^|,)\s*(\*|:root|html|body)\s*(,|$)/.test(rule.selectorText);
+            if (targets.some(target => matches(target, rule.selectorText)) || (scope === 'global' && isGlobal)) {
+              rules.push(rule.cssText);
+            }
+          } else if ('cssRules' in rule) {
+            visit((rule as CSSGroupingRule).cssRules);
+          }
+        }
+      };
+
+      for (const sheet of Array.from(document.styleSheets)) {
+        try {
+          visit(sheet.cssRules);
+        } catch {
+          // Cross-origin stylesheets cannot be read
+        }
+      }
+
+      const inline = (el as HTMLElement).style?.cssText;
+      if (inline) {
+        rules.push(`${sel} { ${inline} } /* inline */`);
+      }
+
+      return Array.from(new Set(rules));
+    }, { sel: selector, scope });
+  }
+
+  private static async getInheritedStyles(element: Locator): Promise<Record<string, string>> {
+    return await element.evaluate((el, props: string[]) => {
+      const parent = el.parentElement;
+      if (!parent) return {};
+
+      const own = window.getComputedStyle(el);
+      const parentStyles = window.getComputedStyle(parent);
+      const inherited: Record<string, string> = {};
+
+      // A value equal to the parent's is, for inheritable properties, most
+      // likely inherited rather than set on the element itself
+      for (const prop of props) {
+        const value = own.getPropertyValue(prop);
+        if (value === parentStyles.getPropertyValue(prop)) {
+          inherited[prop] = value;
+        }
+      }
+
+      return inherited;
+    }, INHERITED_STYLES);
+  }
+
+  private static async getChildren(page: Page, element: Locator): Promise<ComponentResult['children']> {
+    await SelectorEngine.install(page);
+    return await element.evaluate((el, selectorEngine) => {
+      return Array.from(el.children).slice(0, 50).map((child) => {
+        const rect = child.getBoundingClientRect();
+        const { selector, locator } = (window as any)[selectorEngine](child);
+        return {
+          selector,
+          locator,
+          tagName: child.tagName.toLowerCase(),
+          textContent: child.textContent?.trim().substring(0, 100) || undefined,
+          bounds: {
+            x: rect.x,
+            y: rect.y,
+            width: rect.width,
+            height: rect.height,
+          },
+        };
+      });
+    }, SELECTOR_ENGINE_GLOBAL);
+  }
+}
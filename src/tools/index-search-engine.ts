@@ -8,6 +8,7 @@ export interface SearchQuery {
   hasProps?: boolean;
   hasSideEffects?: boolean;
   usedIn?: string[];
+  package?: string; // workspace package name
 }
 
 export interface SearchResult {
@@ -34,10 +35,32 @@ export class IndexSearchEngine {
     this.index = index;
   }
 
+  /**
+   * The part of a monorepo index that belongs to one workspace package.
+   */
+  static filterByPackage(index: ProjectIndex, packageName: string): ProjectIndex {
+    const components = index.components.filter(component => component.package === packageName);
+    const pages = index.pages.filter(page => page.package === packageName);
+
+    return {
+      ...index,
+      metadata: {
+        ...index.metadata,
+        framework: index.metadata.workspace?.packages.find(pkg => pkg.name === packageName)?.framework || index.metadata.framework,
+        componentsCount: components.length,
+        pagesCount: pages.length,
+      },
+      components,
+      pages,
+    };
+  }
+
   searchComponents(query: SearchQuery): SearchResult[] {
     const results: SearchResult[] = [];
 
     for (const component of this.index.components) {
+      if (query.package && component.package !== query.package) continue;
+
       const relevanceScore = this.calculateRelevanceScore(component, query);
       
       if (relevanceScore > 0) {
@@ -97,13 +120,15 @@ export class IndexSearchEngine {
 
     // Build usage relationships
     for (const component of this.index.components) {
-      usageGraph.set(component.id, component.usedIn);
+      usageGraph.set(component.id, [...component.usedIn]);
     }
 
-    // Add reverse relationships from pages
+    // Add reverse relationships from pages; indexes saved before the import
+    // graph was resolved list components by name
     for (const page of this.index.pages) {
-      for (const componentName of page.components) {
-        const component = this.index.components.find(c => c.name === componentName);
+      for (const componentRef of page.components) {
+        const component = this.index.components.find(c => c.id === componentRef) ||
+                          this.index.components.find(c => c.name === componentRef);
         if (component) {
           const currentUsage = usageGraph.get(component.id) || [];
           if (!currentUsage.includes(page.id)) {
@@ -117,6 +142,13 @@ export class IndexSearchEngine {
     return usageGraph;
   }
 
+  // Components defined in, or importing, a project-relative file such as a stylesheet
+  getComponentsByFile(filePath: string): ComponentIndex[] {
+    return this.index.components.filter(component =>
+      component.filePath === filePath || component.dependencies.includes(filePath)
+    );
+  }
+
   getComponentsByTag(tag: string): ComponentIndex[] {
     return this.index.components.filter(component => 
       component.tags.includes(tag)
@@ -157,6 +189,11 @@ export class IndexSearchEngine {
           score += 3;
         }
       }
+      
+      // Storybook variants, by name or example args ("Primary", "Submit")
+      if (component.stories?.some(story => this.storyText(story).includes(searchText))) {
+        score += 4;
+      }
     }
 
     // Tag matching
@@ -271,11 +308,23 @@ export class IndexSearchEngine {
 
   private calculateVisualSimilarity(comp1: ComponentIndex, comp2: ComponentIndex): number {
     // This would require actual image comparison
-    // For now, use style-based similarity as a proxy
-    
-    const styles1 = comp1.styles.computedStyles;
-    const styles2 = comp2.styles.computedStyles;
+    // For now, use style-based similarity as a proxy, taking the closest pair
+    // of Storybook variants when the components have stories
+    const variants = (component: ComponentIndex) => [
+      component.styles.computedStyles,
+      ...(component.stories || []).map(story => story.computedStyles).filter((styles): styles is Record<string, string> => !!styles),
+    ];
     
+    let best = 0;
+    for (const styles1 of variants(comp1)) {
+      for (const styles2 of variants(comp2)) {
+        best = Math.max(best, this.calculateStyleSimilarity(styles1, styles2));
+      }
+    }
+    return best;
+  }
+
+  private calculateStyleSimilarity(styles1: Record<string, string>, styles2: Record<string, string>): number {
     const styleKeys = new Set([...Object.keys(styles1), ...Object.keys(styles2)]);
     let similarStyles = 0;
     
@@ -320,6 +369,10 @@ export class IndexSearchEngine {
     return matrix[str2.length][str1.length];
   }
 
+  private storyText(story: NonNullable<ComponentIndex['stories']>[number]): string {
+    return `${story.title} ${story.name} ${JSON.stringify(story.args)}`.toLowerCase();
+  }
+
   private findMatches(component: ComponentIndex, query: SearchQuery): SearchResult['matches'] {
     const matches: SearchResult['matches'] = [];
     
@@ -332,6 +385,7 @@ export class IndexSearchEngine {
       { name: 'name', content: component.name },
       { name: 'description', content: component.description },
       { name: 'sourceCode', content: component.sourceCode },
+      ...(component.stories || []).map(story => ({ name: `story:${story.id}`, content: `${story.name} ${JSON.stringify(story.args)}` })),
     ];
     
     for (const field of fields) {
@@ -1,32 +1,46 @@
 import fs from 'fs/promises';
+import crypto from 'crypto';
 import path from 'path';
 import type { Page } from 'playwright';
 import { BrowserManager } from '../utils/browser.js';
 import { ImageProcessor } from '../utils/image-processor.js';
+import { ComponentParser } from '../utils/component-parser.js';
+import { VueSFCParser } from '../utils/vue-sfc-parser.js';
+import { AngularParser } from '../utils/angular-parser.js';
+import { SvelteParser } from '../utils/svelte-parser.js';
+import { RouteDiscovery, type DiscoveredRoute } from '../utils/route-discovery.js';
+import { ModuleResolver, type ImportBinding } from '../utils/module-resolver.js';
+import { FileWatcher } from '../utils/file-watcher.js';
+import { WorkspaceDetector, type Workspace } from '../utils/workspace-detector.js';
+import { ConfigLoader, type UxplainConfig } from '../utils/config-loader.js';
+import { ComponentLocator, CAPTURE_ATTRIBUTE } from '../utils/component-locator.js';
+import { StorybookReader, type StorybookStories } from '../utils/storybook.js';
+import { DevServer } from '../utils/dev-server.js';
 
 export interface ComponentIndex {
   id: string;
   name: string;
   filePath: string;
   sourceCode: string;
-  
-  // Visual data
-  screenshots: {
-    desktop?: string;
-    tablet?: string;
-    mobile?: string;
+  package?: string; // workspace package name in monorepos
+  exports?: string[]; // export names, 'default' for the default export
+  selectors?: string[]; // element selectors of Angular components, e.g. app-user-card
+  location?: {
+    startLine: number;
+    endLine: number;
   };
   
-  bounds: {
-    desktop?: BoundingBox;
-    tablet?: BoundingBox;
-    mobile?: BoundingBox;
-  };
+  // Visual data, keyed by breakpoint name (desktop, tablet and mobile by default).
+  // Screenshots are PNG paths relative to the project root.
+  screenshots: Record<string, string>;
+  bounds: Record<string, BoundingBox>;
   
   // Code metadata
   props: PropDefinition[];
+  emits?: EventDefinition[];
+  slots?: SlotDefinition[];
   imports: string[];
-  dependencies: string[];
+  dependencies: string[]; // project files imported by the component's module
   
   // Styling
   styles: {
@@ -34,9 +48,11 @@ export interface ComponentIndex {
     computedStyles: Record<string, string>;
   };
   
-  // Relationships
+  // Relationships (component and page ids)
   usedIn: string[];
   children: string[];
+  renders?: string[]; // tags as written in the source, resolved into children
+  stories?: StoryIndex[]; // Storybook stories rendering the component
   
   // Metadata
   description: string;
@@ -47,14 +63,30 @@ export interface ComponentIndex {
 export interface ProjectIndex {
   metadata: {
     projectPath: string;
-    framework: 'react' | 'vue' | 'angular' | 'unknown';
+    framework: 'react' | 'vue' | 'angular' | 'svelte' | 'unknown';
     lastIndexed: Date;
     componentsCount: number;
     pagesCount: number;
+    workspace?: {
+      tool: Workspace['tool'];
+      packages: Array<{
+        name: string;
+        path: string;
+        framework: ProjectIndex['metadata']['framework'];
+      }>;
+    };
+    storybook?: {
+      source: StorybookStories['source'];
+      url?: string;
+      storiesCount: number;
+      linkedCount: number; // stories whose component is in the index
+    };
+    stale?: { since: Date; error: string }; // a later update failed; this is the last good index
   };
   
   components: ComponentIndex[];
   pages: PageIndex[];
+  fileHashes?: Record<string, string>; // component file (relative path) -> content hash
   embeddings?: {
     [componentId: string]: {
       visual: number[];
@@ -66,14 +98,25 @@ export interface ProjectIndex {
 export interface PageIndex {
   id: string;
   name: string;
-  route: string;
+  route: string; // e.g. /users/:id, /docs/*slug
   filePath: string;
-  components: string[];
-  screenshots: {
-    desktop?: string;
-    tablet?: string;
-    mobile?: string;
-  };
+  package?: string;
+  components: string[]; // ids of the components the page renders
+  params?: string[]; // dynamic segments of the route
+  layouts?: string[]; // layout files wrapping the page, outermost first
+  sampleUrl?: string; // route with placeholder params, e.g. /users/1
+  screenshots: Record<string, string>; // full-page PNG paths, keyed by breakpoint name
+}
+
+export interface StoryIndex {
+  id: string; // Storybook story id, e.g. example-button--primary
+  title: string;
+  name: string;
+  filePath: string; // CSF file, relative to the project root
+  args: Record<string, unknown>; // example prop values; non-literal args as source text
+  screenshots: Record<string, string>; // PNG paths, keyed by breakpoint name
+  bounds: Record<string, BoundingBox>;
+  computedStyles?: Record<string, string>;
 }
 
 export interface BoundingBox {
@@ -89,50 +132,100 @@ export interface PropDefinition {
   required: boolean;
   defaultValue?: string;
   description?: string;
+  examples?: unknown[]; // values passed in Storybook story args
+}
+
+export interface EventDefinition {
+  name: string;
+  payload?: string;
+  description?: string;
+}
+
+export interface SlotDefinition {
+  name: string;
+  props?: string[];
+  description?: string;
+}
+
+export interface IndexOptions {
+  incremental?: boolean; // re-analyze only files whose content hash changed
+  devServerUrl?: string; // running dev server to capture screenshots, bounds and styles from
+  storybookUrl?: string; // running Storybook to capture every story from
 }
 
+export const SCREENSHOTS_DIR = '.ui-context-screenshots';
+
+// Computed styles recorded for each located component
+const CAPTURED_STYLES = [
+  'display', 'position', 'width', 'height', 'margin', 'padding',
+  'border', 'border-radius', 'background-color', 'color', 'font-family',
+  'font-size', 'font-weight', 'line-height', 'text-align', 'flex-direction',
+  'justify-content', 'align-items', 'grid-template-columns', 'gap',
+  'box-shadow', 'opacity',
+];
+
+const FRAMEWORKS: ProjectIndex['metadata']['framework'][] = ['react', 'vue', 'angular', 'svelte', 'unknown'];
+
 export class ProjectIndexer {
   private projectPath: string;
   private index: ProjectIndex;
+  private indexed = false; // whether this.index holds a completed run rather than the empty placeholder
   private browserManager: BrowserManager;
+  private workspace: Workspace;
+  private config: UxplainConfig = ConfigLoader.defaults();
 
   constructor(projectPath: string) {
     this.projectPath = projectPath;
     this.browserManager = new BrowserManager();
-    this.index = {
-      metadata: {
-        projectPath,
-        framework: 'unknown',
-        lastIndexed: new Date(),
-        componentsCount: 0,
-        pagesCount: 0,
-      },
-      components: [],
-      pages: [],
+    this.workspace = {
+      tool: 'none',
+      packages: [{ name: path.basename(projectPath), path: projectPath, relativePath: '', packageJson: {} }],
     };
+    this.index = this.createEmptyIndex();
   }
 
-  async indexProject(): Promise<ProjectIndex> {
-    console.log(`🔍 Starting project indexing for: ${this.projectPath}`);
+  async indexProject(options: IndexOptions = {}): Promise<ProjectIndex> {
+    console.log(`🔍 Starting ${options.incremental ? 'incremental ' : ''}project indexing for: ${this.projectPath}`);
+    
+    // Incremental runs start from the index in memory (watch mode) or on disk
+    const previous = options.incremental
+      ? (this.indexed ? this.index : await ProjectIndexer.loadIndex(this.projectPath))
+      : null;
+    this.index = this.createEmptyIndex();
     
     try {
+      this.config = await ConfigLoader.load(this.projectPath);
+      if (this.config.configPath) console.log(`⚙️ Using ${path.basename(this.config.configPath)}`);
+      
       // Step 1: Analyze project structure
       await this.analyzeProjectStructure();
       
       // Step 2: Discover components
-      await this.discoverComponents();
+      await this.discoverComponents(previous);
       
       // Step 3: Discover pages/routes
-      await this.discoverPages();
+      await this.discoverPages(previous);
       
-      // Step 4: Initialize browser for visual analysis
-      await this.browserManager.initialize();
+      // Step 4: Link components and pages through their imports, and stories to components
+      await this.linkComponentGraph();
+      await this.linkStories(previous, options.storybookUrl);
       
-      // Step 5: Capture visual data (if dev server is running)
-      await this.captureVisualData();
+      // Steps 5-6: Visual data; incremental runs keep what unchanged components and pages already have
+      let storybookUrl = options.storybookUrl;
+      if (storybookUrl && !await DevServer.isReachable(storybookUrl)) {
+        console.warn(`⚠️ Storybook is not running at ${storybookUrl}, stories will not be captured`);
+        storybookUrl = undefined;
+      }
+      if (!previous && (options.devServerUrl || storybookUrl)) {
+        await this.browserManager.initialize();
+        await this.captureVisualData({ devServerUrl: options.devServerUrl, storybookUrl });
+      } else if (!previous) {
+        console.log('📸 Visual capture skipped - no dev server or Storybook URL given');
+      }
       
-      // Step 6: Save index
+      // Step 7: Save index
       await this.saveIndex();
+      this.indexed = true;
       
       console.log(`✅ Indexing complete! Found ${this.index.components.length} components and ${this.index.pages.length} pages`);
       
@@ -145,44 +238,202 @@ export class ProjectIndexer {
     }
   }
 
+  /**
+   * Re-indexes incrementally whenever project files change, starting from the
+   * last index. When an update fails, the last good index stays in place,
+   * marked stale. The returned watcher must be closed to stop watching.
+   */
+  watch(onUpdate?: (index: ProjectIndex) => void): FileWatcher {
+    const watcher = new FileWatcher(this.projectPath, async (files: string[]) => {
+      console.log(`👀 ${files.length} file(s) changed, updating index...`);
+      const lastGood = this.indexed ? this.index : null;
+      try {
+        const index = await this.indexProject({ incremental: true });
+        onUpdate?.(index);
+      } catch (error) {
+        // indexProject has reported the error; keep watching, the next change
+        // triggers another attempt
+        if (!lastGood) return;
+        this.index = lastGood;
+        this.index.metadata.stale ??= { since: new Date(), error: (error as Error).message };
+        console.error(`❌ Keeping the index from ${new Date(lastGood.metadata.lastIndexed).toLocaleString()}, marked stale`);
+        try {
+          await this.saveIndex();
+        } catch (saveError) {
+          console.error('❌ Could not save the stale index:', saveError);
+        }
+        onUpdate?.(this.index);
+      }
+    });
+    watcher.start();
+    
+    console.log(`👀 Watching ${this.projectPath} for changes`);
+    return watcher;
+  }
+
+  private createEmptyIndex(): ProjectIndex {
+    return {
+      metadata: {
+        projectPath: this.projectPath,
+        framework: 'unknown',
+        lastIndexed: new Date(),
+        componentsCount: 0,
+        pagesCount: 0,
+      },
+      components: [],
+      pages: [],
+      fileHashes: {},
+    };
+  }
+
   private async analyzeProjectStructure(): Promise<void> {
+    this.workspace = await WorkspaceDetector.detect(this.projectPath);
+    
+    if (this.workspace.tool !== 'none') {
+      this.index.metadata.workspace = {
+        tool: this.workspace.tool,
+        packages: this.workspace.packages.map(pkg => ({
+          name: pkg.name,
+          path: pkg.relativePath,
+          framework: this.detectFramework(pkg.packageJson),
+        })),
+      };
+      console.log(`📚 Detected ${this.workspace.tool} workspace with ${this.workspace.packages.length} packages`);
+    }
+    
     const packageJsonPath = path.join(this.projectPath, 'package.json');
     
     try {
       const packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf8'));
-      
-      // Detect framework
-      if (packageJson.dependencies?.react || packageJson.devDependencies?.react) {
-        this.index.metadata.framework = 'react';
-      } else if (packageJson.dependencies?.vue || packageJson.devDependencies?.vue) {
-        this.index.metadata.framework = 'vue';
-      } else if (packageJson.dependencies?.['@angular/core']) {
-        this.index.metadata.framework = 'angular';
-      }
-      
-      console.log(`📦 Detected framework: ${this.index.metadata.framework}`);
+      this.index.metadata.framework = this.detectFramework(packageJson);
     } catch (error) {
       console.warn('⚠️ Could not analyze package.json, proceeding with unknown framework');
     }
+    
+    // Monorepo roots rarely depend on the UI framework themselves
+    if (this.index.metadata.framework === 'unknown' && this.index.metadata.workspace) {
+      const counts = new Map<ProjectIndex['metadata']['framework'], number>();
+      for (const pkg of this.index.metadata.workspace.packages) {
+        if (pkg.framework !== 'unknown') counts.set(pkg.framework, (counts.get(pkg.framework) || 0) + 1);
+      }
+      const [mostCommon] = Array.from(counts.entries()).sort(([, a], [, b]) => b - a)[0] || [];
+      if (mostCommon) this.index.metadata.framework = mostCommon;
+    }
+    
+    if (this.config.framework) {
+      if (FRAMEWORKS.includes(this.config.framework as any)) {
+        this.index.metadata.framework = this.config.framework as ProjectIndex['metadata']['framework'];
+      } else {
+        console.warn(`⚠️ Unknown framework "${this.config.framework}" in config, keeping ${this.index.metadata.framework}`);
+      }
+    }
+    
+    console.log(`📦 Detected framework: ${this.index.metadata.framework}`);
+  }
+
+  private detectFramework(packageJson: Record<string, any>): ProjectIndex['metadata']['framework'] {
+    if (packageJson.dependencies?.react || packageJson.devDependencies?.react) {
+      return 'react';
+    } else if (packageJson.dependencies?.vue || packageJson.devDependencies?.vue) {
+      return 'vue';
+    } else if (packageJson.dependencies?.['@angular/core']) {
+      return 'angular';
+    } else if (packageJson.dependencies?.svelte || packageJson.devDependencies?.svelte) {
+      return 'svelte';
+    }
+    return 'unknown';
+  }
+
+  // Package name of a file, recorded only for monorepos
+  private getPackageName(filePath: string): string | undefined {
+    if (this.workspace.tool === 'none') return undefined;
+    return WorkspaceDetector.findPackage(this.workspace.packages, filePath)?.name;
   }
 
-  private async discoverComponents(): Promise<void> {
-    const srcPath = path.join(this.projectPath, 'src');
-    const components = await this.findComponentFiles(srcPath);
+  private async discoverComponents(previous: ProjectIndex | null = null): Promise<void> {
+    const found = new Set<string>();
+    for (const pkg of this.workspace.packages) {
+      const roots: string[] = [];
+      for (const sourceRoot of this.config.sourceRoots) {
+        const rootPath = path.join(pkg.path, sourceRoot);
+        if (await fs.stat(rootPath).then(stats => stats.isDirectory(), () => false)) roots.push(rootPath);
+      }
+      // Workspace packages without a source root keep their components at the root
+      if (roots.length === 0 && pkg.relativePath) roots.push(pkg.path);
+      
+      for (const root of roots) {
+        for (const file of await this.findComponentFiles(root)) found.add(file);
+      }
+    }
+    const components = Array.from(found)
+      .filter(file => ConfigLoader.isIncluded(this.config, path.relative(this.projectPath, file)));
+    
+    const changes = { changed: 0, added: 0, unchanged: 0 };
     
     for (const filePath of components) {
       try {
-        const component = await this.analyzeComponent(filePath);
-        this.index.components.push(component);
+        const relativePath = path.relative(this.projectPath, filePath);
+        const hash = await this.hashComponentFile(filePath);
+        this.index.fileHashes![relativePath] = hash;
+        
+        const previousHash = previous?.fileHashes?.[relativePath];
+        if (previous && previousHash === hash) {
+          this.index.components.push(...previous.components.filter(component => component.filePath === relativePath));
+          changes.unchanged++;
+          continue;
+        }
+        
+        if (previous) changes[previousHash ? 'changed' : 'added']++;
+        const fileComponents = await this.analyzeComponent(filePath);
+        const packageName = this.getPackageName(filePath);
+        if (packageName) fileComponents.forEach(component => component.package = packageName);
+        // Incremental runs do not capture, so edited components keep their last visuals
+        if (previous) this.carryOverVisuals(fileComponents, previous);
+        this.index.components.push(...fileComponents);
       } catch (error) {
         console.warn(`⚠️ Failed to analyze component: ${filePath}`, error);
       }
     }
     
+    if (previous) {
+      const deleted = Object.keys(previous.fileHashes || {}).filter(file => !this.index.fileHashes![file]).length;
+      console.log(`♻️ ${changes.changed} changed, ${changes.added} added, ${deleted} deleted, ${changes.unchanged} unchanged files`);
+    }
+    
     this.index.metadata.componentsCount = this.index.components.length;
     console.log(`🧩 Discovered ${this.index.components.length} components`);
   }
 
+  // Content hash of a component file, including the external templates and
+  // stylesheets of Angular components, which are part of the component too
+  private async hashComponentFile(filePath: string): Promise<string> {
+    const content = await fs.readFile(filePath);
+    const hash = crypto.createHash('sha1').update(content);
+    
+    const sourceCode = content.toString('utf8');
+    if (filePath.endsWith('.ts') && /@Component\s*\(/.test(sourceCode) && /\b(templateUrl|styleUrls?)\b/.test(sourceCode)) {
+      for (const component of AngularParser.parse(sourceCode, filePath).components) {
+        for (const relativePath of [component.templateUrl, ...component.styleUrls].filter(Boolean) as string[]) {
+          hash.update(`\0${relativePath}\0`).update(await this.readRelativeFile(filePath, relativePath));
+        }
+      }
+    }
+    
+    return hash.digest('hex');
+  }
+
+  private carryOverVisuals(components: ComponentIndex[], previous: ProjectIndex): void {
+    for (const component of components) {
+      const old = previous.components.find(candidate => candidate.id === component.id);
+      if (!old) continue;
+      component.screenshots = old.screenshots || {};
+      component.bounds = old.bounds || {};
+      if (Object.keys(component.styles.computedStyles).length === 0) {
+        component.styles.computedStyles = old.styles?.computedStyles || {};
+      }
+    }
+  }
+
   private async findComponentFiles(dirPath: string): Promise<string[]> {
     const files: string[] = [];
     
@@ -192,7 +443,7 @@ export class ProjectIndexer {
       for (const entry of entries) {
         const fullPath = path.join(dirPath, entry.name);
         
-        if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+        if (entry.isDirectory() && !entry.name.startsWith('.') && !['node_modules', 'dist', 'build'].includes(entry.name)) {
           files.push(...await this.findComponentFiles(fullPath));
         } else if (entry.isFile() && this.isComponentFile(entry.name)) {
           files.push(fullPath);
@@ -206,36 +457,183 @@ export class ProjectIndexer {
   }
 
   private isComponentFile(fileName: string): boolean {
-    const componentExtensions = ['.tsx', '.jsx', '.vue', '.ts', '.js'];
+    const componentExtensions = ['.tsx', '.jsx', '.vue', '.svelte', '.ts', '.js'];
     const hasValidExtension = componentExtensions.some(ext => fileName.endsWith(ext));
     
-    // Basic heuristic: file name starts with capital letter (React convention)
-    // or contains "component" in the name
-    const isComponentName = /^[A-Z]/.test(fileName) || 
-                           fileName.toLowerCase().includes('component');
+    // Whether a script actually exports components is decided when parsing it.
+    // SvelteKit route files (+page.svelte, +layout.ts, ...) are pages, not components
+    const isExcluded = fileName.endsWith('.d.ts') ||
+                       fileName.startsWith('+') ||
+                       /\.(test|spec|stories|story)\.[jt]sx?$/.test(fileName);
     
-    return hasValidExtension && isComponentName;
+    return hasValidExtension && !isExcluded;
   }
 
-  private async analyzeComponent(filePath: string): Promise<ComponentIndex> {
+  private async analyzeComponent(filePath: string): Promise<ComponentIndex[]> {
     const sourceCode = await fs.readFile(filePath, 'utf8');
     const stats = await fs.stat(filePath);
     const fileName = path.basename(filePath);
-    const componentName = fileName.replace(/\.(tsx?|jsx?|vue)$/, '');
+    const fileId = this.generateComponentId(filePath);
+    
+    if (filePath.endsWith('.vue')) {
+      const sfc = VueSFCParser.parse(sourceCode, filePath);
+      return [{
+        ...this.createComponentEntry(fileId, sfc.name, filePath, sourceCode, stats.mtime),
+        exports: ['default'],
+        props: sfc.props,
+        emits: sfc.emits,
+        slots: sfc.slots,
+        imports: sfc.imports,
+        styles: {
+          css: sfc.css,
+          computedStyles: {},
+        },
+        renders: sfc.usedComponents,
+        description: sfc.description || this.generateDescription(sfc.name, sourceCode),
+      }];
+    }
+    
+    if (filePath.endsWith('.svelte')) {
+      const svelte = SvelteParser.parse(sourceCode, filePath);
+      return [{
+        ...this.createComponentEntry(fileId, svelte.name, filePath, sourceCode, stats.mtime),
+        exports: ['default'],
+        props: svelte.props,
+        emits: svelte.events,
+        slots: svelte.slots,
+        imports: svelte.imports,
+        styles: {
+          css: svelte.css,
+          computedStyles: {},
+        },
+        renders: svelte.usedComponents,
+        description: svelte.description || `${svelte.name} component`,
+      }];
+    }
+    
+    if (filePath.endsWith('.ts') && sourceCode.includes('@Component')) {
+      return this.analyzeAngularComponents(filePath, sourceCode, fileId, stats.mtime);
+    }
+    
+    const parsed = ComponentParser.parse(sourceCode, filePath);
+    const baseName = fileName.replace(/\.(tsx?|jsx?)$/, '');
+    
+    // The component named after the file (or the default export) keeps the
+    // file-based id so existing references stay valid
+    const primary = parsed.components.find(c => c.name === baseName) ||
+                    parsed.components.find(c => c.exportNames.includes('default')) ||
+                    parsed.components[0];
+    
+    return parsed.components.map(component => ({
+      ...this.createComponentEntry(
+        component === primary ? fileId : `${fileId}_${component.name}`,
+        component.name,
+        filePath,
+        sourceCode,
+        stats.mtime
+      ),
+      exports: component.exportNames,
+      location: {
+        startLine: component.startLine,
+        endLine: component.endLine,
+      },
+      props: component.props,
+      imports: parsed.imports,
+      renders: this.extractUsedComponents(component.sourceCode),
+      description: component.description || `${component.name} component`,
+      tags: this.generateTags(component.sourceCode),
+    }));
+  }
+
+  private async analyzeAngularComponents(
+    filePath: string,
+    sourceCode: string,
+    fileId: string,
+    lastModified: Date
+  ): Promise<ComponentIndex[]> {
+    const parsed = AngularParser.parse(sourceCode, filePath);
+    const components: ComponentIndex[] = [];
+    
+    for (const [index, component] of parsed.components.entries()) {
+      const template = component.templateUrl
+        ? await this.readRelativeFile(filePath, component.templateUrl)
+        : component.template || '';
+      const externalStyles = await Promise.all(
+        component.styleUrls.map(styleUrl => this.readRelativeFile(filePath, styleUrl))
+      );
+      
+      components.push({
+        ...this.createComponentEntry(
+          index === 0 ? fileId : `${fileId}_${component.name}`,
+          component.name,
+          filePath,
+          sourceCode,
+          lastModified
+        ),
+        exports: component.exported ? [component.name] : [],
+        selectors: component.elementSelectors,
+        location: {
+          startLine: component.startLine,
+          endLine: component.endLine,
+        },
+        props: component.props,
+        emits: component.outputs,
+        imports: parsed.imports,
+        styles: {
+          css: [...component.styles, ...externalStyles].filter(Boolean).join('\n\n'),
+          computedStyles: {},
+        },
+        // Custom element tags, mapped to components once every selector in
+        // the project is known
+        renders: this.extractCustomElementTags(template),
+        description: component.description || `${component.name} component${component.selector ? ` (<${component.selector}>)` : ''}`,
+        tags: [
+          ...this.generateTags(component.sourceCode + template),
+          ...(component.standalone ? ['standalone'] : []),
+        ],
+      });
+    }
+    
+    return components;
+  }
+
+  private async readRelativeFile(fromFile: string, relativePath: string): Promise<string> {
+    try {
+      return await fs.readFile(path.resolve(path.dirname(fromFile), relativePath), 'utf8');
+    } catch (error) {
+      console.warn(`⚠️ Could not read ${relativePath} referenced by ${path.relative(this.projectPath, fromFile)}`);
+      return '';
+    }
+  }
+
+  private extractCustomElementTags(template: string): string[] {
+    const tags = new Set<string>();
+    const tagRegex = /<([a-z][\w]*-[\w-]*)/g;
+    let match;
     
-    // Basic analysis - this could be enhanced with AST parsing
-    const imports = this.extractImports(sourceCode);
-    const props = this.extractProps(sourceCode);
+    while ((match = tagRegex.exec(template)) !== null) {
+      tags.add(match[1]);
+    }
     
+    return Array.from(tags);
+  }
+
+  private createComponentEntry(
+    id: string,
+    name: string,
+    filePath: string,
+    sourceCode: string,
+    lastModified: Date
+  ): ComponentIndex {
     return {
-      id: this.generateComponentId(filePath),
-      name: componentName,
+      id,
+      name,
       filePath: path.relative(this.projectPath, filePath),
       sourceCode,
       screenshots: {},
       bounds: {},
-      props,
-      imports,
+      props: [],
+      imports: [],
       dependencies: [],
       styles: {
         css: '',
@@ -243,51 +641,12 @@ export class ProjectIndexer {
       },
       usedIn: [],
       children: [],
-      description: this.generateDescription(componentName, sourceCode),
+      description: `${name} component`,
       tags: this.generateTags(sourceCode),
-      lastModified: stats.mtime,
+      lastModified,
     };
   }
 
-  private extractImports(sourceCode: string): string[] {
-    const importRegex = /import\s+.*?from\s+['"`]([^'"`]+)['"`]/g;
-    const imports: string[] = [];
-    let match;
-    
-    while ((match = importRegex.exec(sourceCode)) !== null) {
-      imports.push(match[1]);
-    }
-    
-    return imports;
-  }
-
-  private extractProps(sourceCode: string): PropDefinition[] {
-    // Basic prop extraction - this could be enhanced with TypeScript AST parsing
-    const props: PropDefinition[] = [];
-    
-    // Look for interface/type definitions
-    const interfaceRegex = /interface\s+\w*Props\s*{([^}]+)}/g;
-    const match = interfaceRegex.exec(sourceCode);
-    
-    if (match) {
-      const propsBody = match[1];
-      const propLines = propsBody.split('\n').map(line => line.trim()).filter(Boolean);
-      
-      for (const line of propLines) {
-        const propMatch = line.match(/(\w+)(\?)?:\s*([^;]+)/);
-        if (propMatch) {
-          props.push({
-            name: propMatch[1],
-            type: propMatch[3].trim(),
-            required: !propMatch[2], // No '?' means required
-          });
-        }
-      }
-    }
-    
-    return props;
-  }
-
   private generateComponentId(filePath: string): string {
     return path.relative(this.projectPath, filePath).replace(/[/\\]/g, '_').replace(/\.[^.]+$/, '');
   }
@@ -305,64 +664,83 @@ export class ProjectIndexer {
   private generateTags(sourceCode: string): string[] {
     const tags: string[] = [];
     
-    if (sourceCode.includes('useState')) tags.push('stateful');
+    if (sourceCode.includes('useState') || /\b(ref|reactive)\(/.test(sourceCode)) tags.push('stateful');
     if (sourceCode.includes('useEffect')) tags.push('side-effects');
     if (sourceCode.includes('props.children')) tags.push('container');
-    if (sourceCode.includes('onClick') || sourceCode.includes('onPress')) tags.push('interactive');
+    if (sourceCode.includes('onClick') || sourceCode.includes('onPress') || sourceCode.includes('@click')) tags.push('interactive');
     if (sourceCode.includes('styled') || sourceCode.includes('className')) tags.push('styled');
     
     return tags;
   }
 
-  private async discoverPages(): Promise<void> {
-    // This would be enhanced to discover routes based on the framework
-    const pagesPath = path.join(this.projectPath, 'src', 'pages');
+  private async discoverPages(previous: ProjectIndex | null = null): Promise<void> {
+    const routes: DiscoveredRoute[] = [];
+    for (const pkg of this.workspace.packages) {
+      routes.push(...await RouteDiscovery.discover(pkg.path, this.workspace.packages));
+    }
+    const included = routes.filter(route => ConfigLoader.isIncluded(this.config, path.relative(this.projectPath, route.filePath)));
     
-    try {
-      const pageFiles = await this.findPageFiles(pagesPath);
-      
-      for (const filePath of pageFiles) {
-        try {
-          const page = await this.analyzePage(filePath);
-          this.index.pages.push(page);
-        } catch (error) {
-          console.warn(`⚠️ Failed to analyze page: ${filePath}`, error);
-        }
+    for (const route of included) {
+      try {
+        const page = await this.analyzePage(route);
+        page.screenshots = previous?.pages.find(old => old.id === page.id)?.screenshots || page.screenshots;
+        this.index.pages.push(page);
+      } catch (error) {
+        console.warn(`⚠️ Failed to analyze page: ${route.filePath}`, error);
       }
-    } catch (error) {
-      // Pages directory might not exist
     }
     
     this.index.metadata.pagesCount = this.index.pages.length;
     console.log(`📄 Discovered ${this.index.pages.length} pages`);
   }
 
-  private async findPageFiles(dirPath: string): Promise<string[]> {
-    // Similar to findComponentFiles but for pages
-    return this.findComponentFiles(dirPath);
-  }
-
-  private async analyzePage(filePath: string): Promise<PageIndex> {
-    const fileName = path.basename(filePath);
-    const pageName = fileName.replace(/\.(tsx?|jsx?|vue)$/, '');
+  private async analyzePage(route: DiscoveredRoute): Promise<PageIndex> {
+    const filePath = route.filePath;
     const sourceCode = await fs.readFile(filePath, 'utf8');
     
     // Extract components used in this page
-    const usedComponents = this.extractUsedComponents(sourceCode);
+    const usedComponents = filePath.endsWith('.vue')
+      ? VueSFCParser.parse(sourceCode, filePath).usedComponents
+      : filePath.endsWith('.svelte')
+        ? SvelteParser.parse(sourceCode, filePath).usedComponents
+        : this.extractUsedComponents(sourceCode);
+    
+    // Config-based routers can point several routes at the same module
+    let id = this.generateComponentId(filePath);
+    if (this.index.pages.some(page => page.id === id)) {
+      id = `${id}_${route.route.replace(/[^\w]+/g, '_')}`;
+    }
     
     return {
-      id: this.generateComponentId(filePath),
-      name: pageName,
-      route: this.generateRouteFromFileName(pageName),
+      id,
+      name: this.generatePageName(route),
+      route: route.route,
       filePath: path.relative(this.projectPath, filePath),
+      package: this.getPackageName(filePath),
       components: usedComponents,
+      params: route.params,
+      layouts: route.layouts.map(layout => path.relative(this.projectPath, layout)),
+      sampleUrl: RouteDiscovery.sampleUrl(route.route),
       screenshots: {},
     };
   }
 
+  // page.tsx, +page.svelte, index.vue and users.$id.tsx are named after their route instead
+  private generatePageName(route: DiscoveredRoute): string {
+    const baseName = path.basename(route.filePath).replace(/\.[^.]+$/, '');
+    if (/^[A-Za-z][\w-]*$/.test(baseName) && !['page', 'index', 'route', 'layout'].includes(baseName)) {
+      return baseName;
+    }
+    
+    const lastStatic = route.route.split('/').filter(segment => segment && !/^[:*]/.test(segment)).pop();
+    return lastStatic
+      ? lastStatic.replace(/\?$/, '').replace(/(^|[-_.])(\w)/g, (_, __, char: string) => char.toUpperCase())
+      : 'Home';
+  }
+
   private extractUsedComponents(sourceCode: string): string[] {
-    // Extract JSX component usage
-    const componentRegex = /<([A-Z]\w*)/g;
+    // Extract JSX component usage, keeping namespace members (<UI.Button>)
+    const componentRegex = /<([A-Z]\w*(?:\.\w+)?)/g;
     const components = new Set<string>();
     let match;
     
@@ -373,17 +751,332 @@ export class ProjectIndexer {
     return Array.from(components);
   }
 
-  private generateRouteFromFileName(fileName: string): string {
-    if (fileName.toLowerCase() === 'index' || fileName.toLowerCase() === 'home') {
-      return '/';
+  /**
+   * Resolves the tags each component and page renders through its module's
+   * imports (tsconfig paths, bundler aliases and barrels included), turning
+   * children and page components into ids and filling usedIn.
+   */
+  private async linkComponentGraph(): Promise<void> {
+    const { getResolver, byFile, byName } = this.createLinkContext();
+    
+    // Angular templates reference children by selector (<app-user-card>)
+    const bySelector = new Map<string, string>();
+    for (const component of this.index.components) {
+      for (const selector of component.selectors || []) {
+        bySelector.set(selector, component.id);
+      }
+    }
+    
+    // Components of the same file share its imports
+    const fileImports = new Map<string, { imports: Map<string, ImportBinding>; dependencies: string[] }>();
+    
+    for (const component of this.index.components) {
+      const filePath = path.join(this.projectPath, component.filePath);
+      
+      const resolver = await getResolver(filePath);
+      let file = fileImports.get(filePath);
+      if (!file) {
+        const imports = ModuleResolver.parseImports(component.sourceCode, filePath);
+        const specifiers = new Set([
+          ...Array.from(imports.values()).map(binding => binding.specifier),
+          ...ModuleResolver.parseSideEffectImports(component.sourceCode, filePath),
+        ]);
+        const resolved = await Promise.all(Array.from(specifiers).map(specifier => resolver.resolve(specifier, filePath)));
+        file = {
+          imports,
+          dependencies: Array.from(new Set(resolved
+            .filter((dependency): dependency is string => !!dependency)
+            .map(dependency => path.relative(this.projectPath, dependency)))),
+        };
+        fileImports.set(filePath, file);
+      }
+      component.dependencies = file.dependencies;
+      component.usedIn = [];
+      
+      const renders = component.renders || [];
+      if (component.selectors) {
+        component.children = renders
+          .map(tag => bySelector.get(tag))
+          .filter((id): id is string => !!id);
+        continue;
+      }
+      
+      const imports = file.imports;
+      const children = await Promise.all(renders.map(tag =>
+        this.resolveRenderedComponent(tag, filePath, imports, resolver, byFile, byName)
+      ));
+      component.children = Array.from(new Set(children
+        .filter((child): child is ComponentIndex => !!child && child.id !== component.id)
+        .map(child => child.id)));
+    }
+    
+    for (const page of this.index.pages) {
+      const filePath = path.join(this.projectPath, page.filePath);
+      const resolver = await getResolver(filePath);
+      try {
+        const imports = ModuleResolver.parseImports(await fs.readFile(filePath, 'utf8'), filePath);
+        const components = await Promise.all(page.components.map(tag =>
+          this.resolveRenderedComponent(tag, filePath, imports, resolver, byFile, byName)
+        ));
+        page.components = Array.from(new Set(components
+          .filter((component): component is ComponentIndex => !!component)
+          .map(component => component.id)));
+      } catch (error) {
+        console.warn(`⚠️ Failed to resolve components of page: ${page.filePath}`, error);
+      }
+    }
+    
+    // usedIn is the inverse of children and page components
+    const byId = new Map(this.index.components.map(component => [component.id, component]));
+    for (const parent of [...this.index.components, ...this.index.pages]) {
+      const childIds = 'children' in parent ? parent.children : parent.components;
+      for (const childId of childIds) {
+        const child = byId.get(childId);
+        if (child && !child.usedIn.includes(parent.id)) child.usedIn.push(parent.id);
+      }
+    }
+    
+    const links = this.index.components.reduce((sum, component) => sum + component.children.length, 0);
+    console.log(`🔗 Linked ${links} component usages`);
+  }
+
+  /**
+   * Attaches Storybook stories to the components they render, found through
+   * the `component` of each CSF file's meta, and records their args as
+   * example prop values.
+   */
+  private async linkStories(previous: ProjectIndex | null, storybookUrl?: string): Promise<void> {
+    const previousStories = new Map((previous?.components || []).flatMap(component => component.stories || []).map(story => [story.id, story]));
+    // Entries reused from the previous index still carry their old stories
+    for (const component of this.index.components) {
+      delete component.stories;
+      component.props.forEach(prop => delete prop.examples);
+    }
+    
+    const storybook = await StorybookReader.load(this.projectPath, this.workspace.packages, {
+      url: storybookUrl || this.config.storybook?.url,
+      staticDir: this.config.storybook?.staticDir,
+    });
+    if (!storybook) return;
+    
+    const { getResolver, byFile, byName } = this.createLinkContext();
+    const importsByFile = new Map<string, Map<string, ImportBinding>>();
+    let linkedCount = 0;
+    
+    for (const story of storybook.stories) {
+      let component: ComponentIndex | undefined;
+      try {
+        let imports = importsByFile.get(story.filePath);
+        if (!imports) {
+          imports = ModuleResolver.parseImports(await fs.readFile(story.filePath, 'utf8'), story.filePath);
+          importsByFile.set(story.filePath, imports);
+        }
+        // Without a meta component, the last title segment names it (Example/Button)
+        const tag = story.component || story.title.split('/').pop()!.replace(/\s+/g, '');
+        component = await this.resolveRenderedComponent(tag, story.filePath, imports, await getResolver(story.filePath), byFile, byName);
+      } catch (error) {
+        // Story file missing or unreadable
+      }
+      if (!component) continue;
+      
+      const old = previousStories.get(story.id);
+      component.stories = [...(component.stories || []), {
+        id: story.id,
+        title: story.title,
+        name: story.name,
+        filePath: path.relative(this.projectPath, story.filePath),
+        args: story.args,
+        screenshots: old?.screenshots || {},
+        bounds: old?.bounds || {},
+        computedStyles: old?.computedStyles,
+      }];
+      
+      for (const prop of component.props) {
+        if (!(prop.name in story.args)) continue;
+        const value = story.args[prop.name];
+        const examples = prop.examples || [];
+        if (!examples.some(example => JSON.stringify(example) === JSON.stringify(value))) {
+          prop.examples = [...examples, value];
+        }
+      }
+      linkedCount++;
+    }
+    
+    this.index.metadata.storybook = {
+      source: storybook.source,
+      url: storybook.url,
+      storiesCount: storybook.stories.length,
+      linkedCount,
+    };
+    console.log(`📚 Linked ${linkedCount} of ${storybook.stories.length} Storybook stories (${storybook.source})`);
+  }
+
+  // Resolvers and component lookups shared by the linking steps
+  private createLinkContext() {
+    // Aliases are configured per package; each package gets its own resolver
+    const resolvers = new Map<string, Promise<ModuleResolver>>();
+    const getResolver = (filePath: string): Promise<ModuleResolver> => {
+      const root = WorkspaceDetector.findPackage(this.workspace.packages, filePath)?.path || this.projectPath;
+      if (!resolvers.has(root)) resolvers.set(root, ModuleResolver.load(root, this.workspace.packages));
+      return resolvers.get(root)!;
+    };
+    
+    const byFile = new Map<string, ComponentIndex[]>();
+    const byName = new Map<string, ComponentIndex[]>();
+    
+    for (const component of this.index.components) {
+      const filePath = path.join(this.projectPath, component.filePath);
+      byFile.set(filePath, [...(byFile.get(filePath) || []), component]);
+      byName.set(component.name, [...(byName.get(component.name) || []), component]);
+    }
+    
+    return { getResolver, byFile, byName };
+  }
+
+  private async resolveRenderedComponent(
+    tag: string,
+    filePath: string,
+    imports: Map<string, ImportBinding>,
+    resolver: ModuleResolver,
+    byFile: Map<string, ComponentIndex[]>,
+    byName: Map<string, ComponentIndex[]>
+  ): Promise<ComponentIndex | undefined> {
+    const [base, member] = tag.split('.');
+    const binding = imports.get(base);
+    
+    if (binding) {
+      // import * as UI from './ui' -> <UI.Button> refers to the Button export
+      const exportName = binding.imported === '*' ? member : binding.imported;
+      if (!exportName) return undefined;
+      
+      const resolved = await resolver.resolveExport(binding.specifier, exportName, filePath);
+      if (!resolved) return undefined;
+      
+      const candidates = byFile.get(resolved.filePath) || [];
+      return candidates.find(component => component.exports?.includes(resolved.exportName)) ||
+             candidates.find(component => component.name === (member || base)) ||
+             (candidates.length === 1 ? candidates[0] : undefined);
     }
-    return `/${fileName.toLowerCase()}`;
+    
+    const sameFile = byFile.get(filePath)?.find(component => component.name === base);
+    if (sameFile) return sameFile;
+    
+    // Auto-imported (Nuxt) or globally registered components, when unambiguous
+    const named = byName.get(base);
+    return named?.length === 1 ? named[0] : undefined;
   }
 
-  private async captureVisualData(): Promise<void> {
-    // This would require a running development server
-    // For now, we'll skip visual capture in the basic implementation
-    console.log('📸 Visual capture skipped - requires running dev server');
+  /**
+   * Visits every page at each configured breakpoint, saving a full-page
+   * screenshot and, for every component found on it, an element screenshot,
+   * its bounds and (at the widest breakpoint) its computed styles. The first
+   * page a component is found on wins. Storybook stories are captured the same
+   * way and stand in for components that no page renders.
+   */
+  private async captureVisualData(options: { devServerUrl?: string; storybookUrl?: string }): Promise<void> {
+    const screenshotsDir = path.join(this.projectPath, SCREENSHOTS_DIR);
+    await fs.rm(screenshotsDir, { recursive: true, force: true });
+    for (const dir of ['pages', 'components', 'stories']) {
+      await fs.mkdir(path.join(screenshotsDir, dir), { recursive: true });
+    }
+    
+    const candidates = Object.fromEntries(
+      this.index.components.map(component => [component.id, ComponentLocator.candidateSelectors(component)])
+    );
+    const componentsById = new Map(this.index.components.map(component => [component.id, component]));
+    const breakpoints = [...this.config.breakpoints].sort((a, b) => b.width - a.width);
+    const page = await this.browserManager.createPage(this.config.auth);
+    // Without discovered routes, components are looked for on the start page
+    const targets: Array<PageIndex | null> = this.index.pages.length > 0 ? this.index.pages : [null];
+    const storyComponents = this.index.components.filter(component => component.stories?.length);
+    const fileName = (id: string) => id.replace(/[^\w.-]+/g, '_');
+    
+    const readStyles = (selector: string) => page.locator(selector).evaluate((el, properties) => {
+      const styles = window.getComputedStyle(el);
+      return Object.fromEntries(properties.map(property => [property, styles.getPropertyValue(property)]));
+    }, CAPTURED_STYLES);
+    
+    const visit = async (url: string): Promise<boolean> => {
+      try {
+        await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 });
+        return true;
+      } catch (error) {
+        console.warn(`⚠️ Could not load ${url}: ${(error as Error).message}`);
+        return false;
+      }
+    };
+    
+    for (const [breakpointIndex, breakpoint] of breakpoints.entries()) {
+      await page.setViewportSize({ width: breakpoint.width, height: breakpoint.height });
+      const fileSuffix = `${breakpoint.name.replace(/[^\w-]+/g, '-')}.png`;
+      
+      for (const pageEntry of options.devServerUrl ? targets : []) {
+        const url = new URL(pageEntry?.sampleUrl || pageEntry?.route || '/', options.devServerUrl).toString();
+        if (!await visit(url)) continue;
+        
+        if (pageEntry) {
+          const pageFile = path.join(SCREENSHOTS_DIR, 'pages', `${fileName(pageEntry.id)}.${fileSuffix}`);
+          await page.screenshot({ path: path.join(this.projectPath, pageFile), fullPage: true, type: 'png' });
+          pageEntry.screenshots[breakpoint.name] = pageFile;
+        }
+        
+        const pending = Object.fromEntries(
+          Object.entries(candidates).filter(([id]) => !componentsById.get(id)!.screenshots[breakpoint.name])
+        );
+        if (Object.keys(pending).length === 0) continue;
+        
+        const located = await ComponentLocator.locate(page, pending);
+        for (const [id, element] of Object.entries(located)) {
+          const component = componentsById.get(id)!;
+          const selector = `[${CAPTURE_ATTRIBUTE}="${element.marker}"]`;
+          try {
+            const componentFile = path.join(SCREENSHOTS_DIR, 'components', `${fileName(id)}.${fileSuffix}`);
+            await page.locator(selector).screenshot({ path: path.join(this.projectPath, componentFile), type: 'png' });
+            component.screenshots[breakpoint.name] = componentFile;
+            component.bounds[breakpoint.name] = element.bounds;
+            if (breakpointIndex === 0) component.styles.computedStyles = await readStyles(selector);
+          } catch (error) {
+            console.warn(`⚠️ Could not capture ${component.name} on ${url}: ${(error as Error).message}`);
+          }
+        }
+      }
+      
+      for (const component of options.storybookUrl ? storyComponents : []) {
+        for (const story of component.stories!) {
+          const url = StorybookReader.storyUrl(options.storybookUrl!, story.id);
+          if (!await visit(url)) continue;
+          
+          const element = await ComponentLocator.locateStoryRoot(page);
+          if (!element) continue;
+          
+          const selector = `[${CAPTURE_ATTRIBUTE}="${element.marker}"]`;
+          try {
+            const storyFile = path.join(SCREENSHOTS_DIR, 'stories', `${fileName(story.id)}.${fileSuffix}`);
+            await page.locator(selector).screenshot({ path: path.join(this.projectPath, storyFile), type: 'png' });
+            story.screenshots[breakpoint.name] = storyFile;
+            story.bounds[breakpoint.name] = element.bounds;
+            if (breakpointIndex === 0) story.computedStyles = await readStyles(selector);
+            
+            // Components no page renders are represented by their first story
+            if (!component.screenshots[breakpoint.name]) {
+              component.screenshots[breakpoint.name] = storyFile;
+              component.bounds[breakpoint.name] = element.bounds;
+            }
+            if (Object.keys(component.styles.computedStyles).length === 0 && story.computedStyles) {
+              component.styles.computedStyles = story.computedStyles;
+            }
+          } catch (error) {
+            console.warn(`⚠️ Could not capture story ${story.id}: ${(error as Error).message}`);
+          }
+        }
+      }
+      
+      const captured = this.index.components.filter(component => component.screenshots[breakpoint.name]).length;
+      const stories = storyComponents.reduce((sum, component) => sum + component.stories!.filter(story => story.screenshots[breakpoint.name]).length, 0);
+      console.log(`📸 ${breakpoint.name} (${breakpoint.width}x${breakpoint.height}): ${options.devServerUrl ? this.index.pages.length : 0} pages, ${stories} stories, ${captured}/${this.index.components.length} components`);
+    }
+    
+    await page.close();
   }
 
   private async saveIndex(): Promise<void> {
@@ -3,11 +3,20 @@ import { getBrowserManager } from '../utils/browser.js';
 import { ImageProcessor } from '../utils/image-processor.js';
 import { DOMAnalyzer } from '../utils/dom-analyzer.js';
 import { CSSParser } from '../utils/css-parser.js';
+import { ColorContrast } from '../utils/color-contrast.js';
+import { CascadeAnalyzer } from '../utils/cascade-analyzer.js';
+import { ElementMarks } from '../utils/element-marks.js';
+import { PageActions } from '../utils/page-actions.js';
+import { ProjectIndexer } from './project-indexer.js';
+import { IndexSearchEngine } from './index-search-engine.js';
 import type { 
   UIContextParams, 
   UIContextResult, 
   Viewport,
+  Breakpoint,
   AccessibilityInfo,
+  CascadeOrigin,
+  ElementMark,
   ResponsiveView 
 } from '../types/index.js';
 
@@ -16,7 +25,7 @@ export class UIContextTool {
     const browserManager = getBrowserManager();
     await browserManager.initialize();
     
-    const page = await browserManager.createPage();
+    const page = await browserManager.createPage(params.auth);
     
     try {
       // Set viewport if specified
@@ -39,13 +48,21 @@ export class UIContextTool {
         }
       }
 
+      // Bring the page into the state to capture
+      const actions = params.actions?.length ? await PageActions.run(page, params.actions) : undefined;
+
       const startTime = Date.now();
 
-      // Capture screenshot
-      const screenshot = await this.captureScreenshot(page, params);
+      // Capture screenshot, numbering the elements when annotating
+      const marks = params.annotate && !params.cropToElement
+        ? await ElementMarks.collect(page, !!params.fullPage)
+        : undefined;
+      const screenshot = await this.captureScreenshot(page, params, marks);
+      if (marks) ElementMarks.remember(params.url, marks);
       
       // Extract DOM and CSS context
       const { html, css, computedStyles, elementBounds } = await this.extractContext(page, params);
+      const styleSources = params.selector ? await this.resolveStyleSources(page, params.selector, params.projectPath) : undefined;
       
       // Get accessibility information
       const accessibility = params.includeAccessibility 
@@ -66,10 +83,13 @@ export class UIContextTool {
         screenshot,
         html,
         css,
+        styleSources,
         computedStyles,
         elementBounds,
         accessibility,
         responsive,
+        marks,
+        actions,
         context,
         performance: {
           captureTime: endTime - startTime,
@@ -83,7 +103,7 @@ export class UIContextTool {
     }
   }
 
-  private static async captureScreenshot(page: Page, params: UIContextParams): Promise<string> {
+  private static async captureScreenshot(page: Page, params: UIContextParams, marks?: ElementMark[]): Promise<string> {
     try {
       let screenshotOptions: any = {
         type: 'png',
@@ -104,7 +124,11 @@ export class UIContextTool {
       }
 
       // Otherwise take full page or viewport screenshot
-      const buffer = await page.screenshot(screenshotOptions);
+      let buffer = await page.screenshot(screenshotOptions);
+      if (marks) {
+        const scale = await page.evaluate(() => window.devicePixelRatio);
+        buffer = await ImageProcessor.annotateMarks(buffer, marks, scale);
+      }
       return await ImageProcessor.optimizeScreenshotToBase64(buffer);
     } catch (error) {
       console.error('Screenshot capture failed:', error);
@@ -167,6 +191,28 @@ export class UIContextTool {
     }
   }
 
+  /**
+   * The author declarations that win for the element, with the authored file
+   * and line from the stylesheets' source maps and the indexed components
+   * that import that file.
+   */
+  private static async resolveStyleSources(page: Page, selector: string, projectPath?: string): Promise<CascadeOrigin[] | undefined> {
+    const cascade = await CascadeAnalyzer.analyze(page, page.locator(selector).first(), projectPath);
+    if (!cascade) return undefined;
+
+    const index = projectPath ? await ProjectIndexer.loadIndex(projectPath) : null;
+    const searchEngine = index ? new IndexSearchEngine(index) : null;
+
+    return cascade.cascadeOrigin
+      .filter(origin => origin.source === 'author' && !origin.inheritedDepth)
+      .map(origin => {
+        const components = origin.authored && searchEngine
+          ? searchEngine.getComponentsByFile(origin.authored.filePath).map(component => component.name)
+          : [];
+        return components.length > 0 ? { ...origin, components } : origin;
+      });
+  }
+
   private static async extractCSS(page: Page, selector?: string): Promise<string> {
     try {
       // Get all stylesheets
@@ -238,7 +284,7 @@ export class UIContextTool {
     try {
       if (!selector) {
         // Page-level accessibility info
-        return await page.evaluate(() => {
+        const info: AccessibilityInfo = await page.evaluate(() => {
           const landmarks = Array.from(document.querySelectorAll('[role], nav, main, aside, header, footer'))
             .map(el => (el as HTMLElement).getAttribute('role') || el.tagName.toLowerCase())
             .filter(Boolean);
@@ -252,10 +298,14 @@ export class UIContextTool {
             focusable: true,
           };
         });
+
+        // Default text color against the page background
+        info.colorContrast = await this.getColorContrast(page, 'body');
+        return info;
       }
 
       // Element-specific accessibility info
-      return await page.evaluate((sel) => {
+      const info: AccessibilityInfo = await page.evaluate((sel) => {
         const el = document.querySelector(sel) as HTMLElement;
         if (!el) {
           return {
@@ -287,12 +337,30 @@ export class UIContextTool {
           focusable,
         };
       }, selector);
+
+      if (info.role) {
+        info.colorContrast = await this.getColorContrast(page, selector);
+      }
+
+      return info;
     } catch (error) {
       console.error('Accessibility extraction failed:', error);
       return this.getDefaultAccessibilityInfo();
     }
   }
 
+  private static async getColorContrast(page: Page, selector: string): Promise<AccessibilityInfo['colorContrast']> {
+    const contrast = (await ColorContrast.analyze(page, [selector])).get(selector);
+    if (!contrast) return undefined;
+
+    return {
+      foreground: contrast.foreground,
+      background: contrast.background,
+      ratio: contrast.ratio,
+      level: contrast.level,
+    };
+  }
+
   private static getDefaultAccessibilityInfo(): AccessibilityInfo {
     return {
       role: '',
@@ -303,12 +371,16 @@ export class UIContextTool {
   }
 
   private static async captureResponsiveViews(page: Page, params: UIContextParams): Promise<ResponsiveView[]> {
-    const breakpoints = [320, 768, 1024, 1440]; // Default breakpoints
+    const breakpoints: Breakpoint[] = params.breakpoints || [320, 768, 1024, 1440].map(width => ({
+      name: this.getDeviceName(width),
+      width,
+      height: 720,
+    }));
     const views: ResponsiveView[] = [];
 
-    for (const breakpoint of breakpoints) {
+    for (const { name, width, height } of breakpoints) {
       try {
-        const viewport: Viewport = { width: breakpoint, height: 720 };
+        const viewport: Viewport = { width, height };
         await page.setViewportSize(viewport);
         
         // Wait for layout to settle
@@ -358,18 +430,18 @@ export class UIContextTool {
         }, params.selector) : {};
 
         views.push({
-          breakpoint,
+          breakpoint: width,
           screenshot,
           computedStyles,
           viewport,
           deviceInfo: {
-            name: this.getDeviceName(breakpoint),
-            type: this.getDeviceType(breakpoint),
+            name,
+            type: this.getDeviceType(width),
             userAgent: await page.evaluate(() => navigator.userAgent),
           },
         });
       } catch (error) {
-        console.error(`Failed to capture responsive view for ${breakpoint}px:`, error);
+        console.error(`Failed to capture responsive view for ${name} (${width}px):`, error);
       }
     }
 
@@ -2,6 +2,9 @@ import type { Page } from 'playwright';
 import type { ComponentIndex, ProjectIndex, BoundingBox } from './project-indexer.js';
 import { BrowserManager } from '../utils/browser.js';
 import { ImageProcessor } from '../utils/image-processor.js';
+import { ConfigLoader, type UxplainConfig } from '../utils/config-loader.js';
+import { SELECTOR_ENGINE_GLOBAL, SelectorEngine } from '../utils/selector-engine.js';
+import type { Breakpoint } from '../types/index.js';
 
 export interface VisualAnalysisResult {
   componentBounds: BoundingBox;
@@ -17,20 +20,18 @@ export interface VisualAnalysisResult {
 export class VisualAnalyzer {
   private browserManager: BrowserManager;
   private imageProcessor: ImageProcessor;
+  private config: UxplainConfig;
 
-  constructor() {
-    this.browserManager = new BrowserManager();
+  constructor(config: UxplainConfig = ConfigLoader.defaults()) {
+    this.config = config;
+    this.browserManager = new BrowserManager({ auth: config.auth });
     this.imageProcessor = new ImageProcessor();
   }
 
   async analyzeComponent(
     devServerUrl: string,
     componentSelector: string,
-    breakpoints: { name: string; width: number; height: number }[] = [
-      { name: 'desktop', width: 1920, height: 1080 },
-      { name: 'tablet', width: 768, height: 1024 },
-      { name: 'mobile', width: 375, height: 667 },
-    ]
+    breakpoints: Breakpoint[] = this.config.breakpoints
   ): Promise<Record<string, VisualAnalysisResult>> {
     await this.browserManager.initialize();
     const page = await this.browserManager.createPage();
@@ -119,6 +120,7 @@ export class VisualAnalyzer {
     screenshot: string;
     components: Array<{
       selector: string;
+      locator: string;
       bounds: BoundingBox;
       tagName: string;
       className?: string;
@@ -137,10 +139,12 @@ export class VisualAnalyzer {
       const base64Screenshot = await ImageProcessor.optimizeScreenshotToBase64(screenshot);
       
       // Find all potentially interesting components
-      const components = await page.evaluate(() => {
+      await SelectorEngine.install(page);
+      const components = await page.evaluate((selectorEngine) => {
         const elements = Array.from(document.querySelectorAll('*'));
         const componentData: Array<{
           selector: string;
+          locator: string;
           bounds: BoundingBox;
           tagName: string;
           className?: string;
@@ -169,17 +173,11 @@ export class VisualAnalyzer {
           const hasId = el.id && el.id.length > 0;
           
           if (isSemanticElement || hasImportantClass || hasId) {
-            let selector = el.tagName.toLowerCase();
-            if (el.id) selector += `#${el.id}`;
-            if (el.className && typeof el.className === 'string') {
-              const classes = el.className.split(' ').filter(c => c.length > 0);
-              if (classes.length > 0) {
-                selector += `.${classes.join('.')}`;
-              }
-            }
+            const { selector, locator } = (window as any)[selectorEngine](el);
             
             componentData.push({
               selector,
+              locator,
               bounds: {
                 x: rect.x,
                 y: rect.y,
@@ -194,7 +192,7 @@ export class VisualAnalyzer {
         }
         
         return componentData;
-      });
+      }, SELECTOR_ENGINE_GLOBAL);
       
       return {
         screenshot: base64Screenshot,
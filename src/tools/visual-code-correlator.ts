@@ -1,12 +1,23 @@
+import path from 'path';
 import type { Page } from 'playwright';
 import type { ComponentIndex, ProjectIndex } from './project-indexer.js';
 import { ProjectIndexer } from './project-indexer.js';
 import { IndexSearchEngine } from './index-search-engine.js';
 import { BrowserManager } from '../utils/browser.js';
+import { ColorContrast, type ContrastResult } from '../utils/color-contrast.js';
+import { ConfigLoader, type UxplainConfig } from '../utils/config-loader.js';
+import { StorybookReader } from '../utils/storybook.js';
+import { SOURCE_ATTRIBUTE, SourceTagger, type SourceLocation } from '../utils/source-tagger.js';
+import { SELECTOR_ENGINE_GLOBAL, SelectorEngine } from '../utils/selector-engine.js';
+import { ElementMarks } from '../utils/element-marks.js';
+import { ImageProcessor } from '../utils/image-processor.js';
+import { PageActions } from '../utils/page-actions.js';
+import type { ElementMark, PageAction, PageActionResult } from '../types/index.js';
 
 export interface VisualCodeCorrelation {
   visualElement: {
     selector: string;
+    locator?: string; // Playwright locator for the same element
     text: string;
     bounds: { x: number; y: number; width: number; height: number };
     tagName: string;
@@ -16,21 +27,36 @@ export interface VisualCodeCorrelation {
   sourceComponent: ComponentIndex | null;
   confidence: number; // 0-1 score of how confident we are in the match
   matchReason: string;
+  componentChain?: string[]; // owning components reported by the runtime, outermost first
+  sourceLocation?: SourceLocation; // from the data-uxp-src build tag
   codeSnippet?: string;
   responsiveIssues: string[];
   recommendations: string[];
 }
 
+// A component instance owning a DOM element, read from a framework dev build
+export interface RuntimeComponent {
+  name: string;
+  filePath?: string; // as reported by the build, absolute or relative to the project root
+  line?: number; // where the component renders the element or its inner component
+}
+
+export interface RuntimeInfo {
+  framework: 'react' | 'vue';
+  components: RuntimeComponent[]; // innermost first
+}
+
 export interface VisualAnalysisResult {
   url: string;
   timestamp: string;
   correlations: VisualCodeCorrelation[];
   projectPath?: string;
-  screenshots: {
-    desktop: string;
-    tablet: string;
-    mobile: string;
+  screenshots: Record<string, string>; // base64, keyed by breakpoint name
+  annotated?: {
+    screenshot: string; // base64, full page at the widest breakpoint with numbered marks
+    marks: ElementMark[];
   };
+  actions?: PageActionResult[]; // outcome of the interaction script at the breakpoint elements were read at
   summary: {
     totalElements: number;
     matchedComponents: number;
@@ -43,15 +69,19 @@ export class VisualCodeCorrelator {
   private browserManager: BrowserManager;
   private projectIndex: ProjectIndex | null = null;
   private searchEngine: IndexSearchEngine | null = null;
+  private config: UxplainConfig;
+  private storyMatch: { component: ComponentIndex; title: string; name: string } | null = null;
 
-  constructor() {
-    this.browserManager = new BrowserManager();
+  constructor(config: UxplainConfig = ConfigLoader.defaults()) {
+    this.config = config;
+    this.browserManager = new BrowserManager({ auth: config.auth });
   }
 
   async analyzeWithCodeCorrelation(
     url: string,
     projectPath?: string,
-    elementType?: 'button' | 'input' | 'card' | 'all'
+    elementType?: 'button' | 'input' | 'card' | 'all',
+    options: { annotate?: boolean; actions?: PageAction[] } = {}
   ): Promise<VisualAnalysisResult> {
     // Load project index if path provided
     if (projectPath) {
@@ -64,16 +94,24 @@ export class VisualCodeCorrelator {
       }
     }
 
+    // A Storybook URL names the component being rendered; the manager UI is
+    // swapped for the story's preview iframe so only the story is analyzed
+    this.storyMatch = this.findStoryMatch(url);
+    const targetUrl = this.storyMatch && !url.includes('iframe.html')
+      ? StorybookReader.storyUrl(new URL('.', url).toString(), StorybookReader.storyIdFromUrl(url)!)
+      : url;
+
     await this.browserManager.initialize();
     const page = await this.browserManager.createPage();
 
     try {
       // Capture responsive screenshots and analyze elements
-      const screenshots = await this.captureResponsiveScreenshots(page, url);
+      const { screenshots, actions } = await this.captureResponsiveScreenshots(page, targetUrl, options.actions);
       const visualElements = await this.extractTargetElements(page, elementType);
       
       // Correlate visual elements with source components
       const correlations = await this.correlateElementsWithComponents(visualElements, page);
+      const annotated = options.annotate ? await this.captureAnnotated(page, url) : undefined;
 
       const summary = this.generateSummary(correlations);
 
@@ -83,6 +121,8 @@ export class VisualCodeCorrelator {
         correlations,
         projectPath,
         screenshots,
+        annotated,
+        actions,
         summary,
       };
     } finally {
@@ -90,35 +130,90 @@ export class VisualCodeCorrelator {
     }
   }
 
-  private async captureResponsiveScreenshots(page: Page, url: string): Promise<{
-    desktop: string;
-    tablet: string;
-    mobile: string;
-  }> {
-    const screenshots = { desktop: '', tablet: '', mobile: '' };
+  private async captureResponsiveScreenshots(
+    page: Page,
+    url: string,
+    actions?: PageAction[]
+  ): Promise<{ screenshots: Record<string, string>; actions?: PageActionResult[] }> {
+    const screenshots: Record<string, string> = {};
+    let actionResults: PageActionResult[] | undefined;
     
-    const breakpoints = [
-      { name: 'desktop', width: 1200, height: 800 },
-      { name: 'tablet', width: 768, height: 1024 },
-      { name: 'mobile', width: 375, height: 667 },
-    ];
+    // Widest first, so the page is left at the narrowest breakpoint
+    const breakpoints = [...this.config.breakpoints].sort((a, b) => b.width - a.width);
 
-    for (const breakpoint of breakpoints) {
+    for (const [index, breakpoint] of breakpoints.entries()) {
       await page.setViewportSize({ width: breakpoint.width, height: breakpoint.height });
       await page.goto(url);
       await page.waitForLoadState('networkidle');
+
+      // Every reload starts over, so the script runs at each breakpoint; step
+      // screenshots are only kept for the last one
+      if (actions?.length) {
+        actionResults = await PageActions.run(page, actions, { screenshots: index === breakpoints.length - 1 });
+      }
       
       const screenshot = await page.screenshot({ type: 'png', fullPage: true });
-      screenshots[breakpoint.name as keyof typeof screenshots] = screenshot.toString('base64');
+      screenshots[breakpoint.name] = screenshot.toString('base64');
       
       console.log(`📸 Captured ${breakpoint.name} screenshot (${breakpoint.width}x${breakpoint.height})`);
     }
 
-    return screenshots;
+    return { screenshots, actions: actionResults };
   }
 
-  private async extractTargetElements(page: Page, elementType?: string): Promise<any[]> {
-    return await page.evaluate((type) => {
+  // Set-of-marks screenshot at the widest breakpoint, each mark with its component
+  private async captureAnnotated(page: Page, url: string): Promise<VisualAnalysisResult['annotated']> {
+    const widest = [...this.config.breakpoints].sort((a, b) => b.width - a.width)[0];
+    if (widest) await page.setViewportSize({ width: widest.width, height: widest.height });
+
+    const marks = await ElementMarks.collect(page, true);
+    const markElements = await this.extractTargetElements(page, undefined, marks.map(mark => mark.selector));
+    const correlations = await this.correlateElementsWithComponents(markElements, page);
+    const bySelector = new Map(correlations.map(correlation => [correlation.visualElement.selector, correlation]));
+
+    for (const mark of marks) {
+      const correlation = bySelector.get(mark.selector);
+      if (correlation?.sourceComponent) {
+        mark.component = {
+          name: correlation.sourceComponent.name,
+          filePath: correlation.sourceComponent.filePath,
+          confidence: correlation.confidence,
+        };
+      }
+    }
+
+    const scale = await page.evaluate(() => window.devicePixelRatio);
+    const screenshot = await ImageProcessor.annotateMarks(await page.screenshot({ type: 'png', fullPage: true }), marks, scale);
+    ElementMarks.remember(url, marks);
+    console.log(`🔢 Marked ${marks.length} elements`);
+
+    return { screenshot: screenshot.toString('base64'), marks };
+  }
+
+  /**
+   * Correlates specific elements, identified by CSS selector, on an already
+   * loaded page with the components of an indexed project.
+   */
+  async correlateSelectors(
+    page: Page,
+    selectors: string[],
+    projectPath: string
+  ): Promise<Map<string, VisualCodeCorrelation>> {
+    if (!this.projectIndex || this.projectIndex.metadata.projectPath !== projectPath) {
+      this.projectIndex = await ProjectIndexer.loadIndex(projectPath);
+      this.searchEngine = this.projectIndex ? new IndexSearchEngine(this.projectIndex) : null;
+    }
+    this.storyMatch = this.findStoryMatch(page.url());
+
+    const visualElements = await this.extractTargetElements(page, undefined, selectors);
+    const correlations = await this.correlateElementsWithComponents(visualElements, page);
+
+    return new Map(correlations.map(correlation => [correlation.visualElement.selector, correlation]));
+  }
+
+  private async extractTargetElements(page: Page, elementType?: string, explicitSelectors?: string[]): Promise<any[]> {
+    await SelectorEngine.install(page);
+    return await page.evaluate(({ type, explicit, sourceAttribute, selectorEngine }) => {
       function getSelectorsForType(type: string | undefined): string[] {
         switch (type) {
           case 'button':
@@ -138,32 +233,78 @@ export class VisualCodeCorrelator {
         }
       }
 
-      function generateUniqueSelector(element: Element): string {
-        if (element.id) return `#${element.id}`;
-        
-        let selector = element.tagName.toLowerCase();
-        if (element.className) {
-          const classes = element.className.split(' ').filter(c => c.length > 0);
-          if (classes.length > 0) {
-            selector += '.' + classes.join('.');
+      // React dev builds attach the fiber to each DOM node. The return chain
+      // gives the owning components; each fiber's _debugSource (React < 19)
+      // points into its owner's file, which locates the owner.
+      function getReactComponents(element: Element) {
+        const fiberKey = Object.keys(element).find(key => key.startsWith('__reactFiber$') || key.startsWith('__reactInternalInstance$'));
+        if (!fiberKey) return null;
+
+        const ownerSources = new Map<any, { fileName: string; lineNumber: number }>();
+        const components: Array<{ name: string; filePath?: string; line?: number }> = [];
+
+        for (let fiber = (element as any)[fiberKey]; fiber; fiber = fiber.return) {
+          if (fiber._debugSource && fiber._debugOwner && !ownerSources.has(fiber._debugOwner)) {
+            ownerSources.set(fiber._debugOwner, fiber._debugSource);
+          }
+
+          // Function and class components, forwardRef ({ render }) and memo ({ type })
+          const type = fiber.type;
+          if (!type || typeof type === 'string') continue;
+          const inner = typeof type === 'function' ? type : type.render || type.type;
+          const name = type.displayName || inner?.displayName || inner?.name;
+          if (!name || typeof name !== 'string') continue;
+
+          const source = ownerSources.get(fiber) || (fiber.alternate && ownerSources.get(fiber.alternate));
+          components.push({ name, filePath: source?.fileName, line: source?.lineNumber });
+        }
+
+        return { framework: 'react' as const, components };
+      }
+
+      // Vue 3 dev builds tag every element with the instance that rendered it,
+      // whose type carries the SFC's __file; Vue 2 sets __vue__ on the root
+      // element of each component.
+      function getVueComponents(element: Element) {
+        const describe = (options: any) => {
+          const filePath: string | undefined = options.__file;
+          const name = options.name || options.__name || options._componentTag || filePath?.split('/').pop()?.replace(/\.vue$/, '');
+          return name ? { name, filePath } : null;
+        };
+
+        let instance = (element as any).__vueParentComponent;
+        if (instance) {
+          const components: Array<{ name: string; filePath?: string }> = [];
+          for (; instance; instance = instance.parent) {
+            const component = describe(instance.type || {});
+            if (component) components.push(component);
           }
+          return { framework: 'vue' as const, components };
         }
-        
-        // Add position if needed to make unique
-        const siblings = Array.from(element.parentElement?.children || []);
-        const index = siblings.indexOf(element);
-        if (index > 0) {
-          selector += `:nth-child(${index + 1})`;
+
+        for (let node: Element | null = element; node; node = node.parentElement) {
+          if (!(node as any).__vue__) continue;
+          const components: Array<{ name: string; filePath?: string }> = [];
+          for (let vm = (node as any).__vue__; vm; vm = vm.$parent) {
+            const component = describe(vm.$options || {});
+            if (component) components.push(component);
+          }
+          return { framework: 'vue' as const, components };
         }
-        
-        return selector;
+
+        return null;
       }
 
-      const selectors = getSelectorsForType(type);
+      const selectors = explicit || getSelectorsForType(type);
       const elements: any[] = [];
 
       selectors.forEach(selector => {
-        document.querySelectorAll(selector).forEach((el, index) => {
+        // Explicit selectors identify one element each and keep their selector
+        const matches = explicit
+          ? [document.querySelector(selector)].filter((el): el is Element => el !== null)
+          : Array.from(document.querySelectorAll(selector));
+
+        matches.forEach((el, index) => {
           const rect = el.getBoundingClientRect();
           const styles = window.getComputedStyle(el);
 
@@ -172,8 +313,10 @@ export class VisualCodeCorrelator {
             return;
           }
 
+          const generated = (window as any)[selectorEngine](el);
           elements.push({
-            selector: generateUniqueSelector(el),
+            selector: explicit ? selector : generated.selector,
+            locator: generated.locator,
             text: el.textContent?.trim().substring(0, 100) || '',
             bounds: {
               x: Math.round(rect.x),
@@ -202,17 +345,30 @@ export class VisualCodeCorrelator {
               border: styles.border,
               borderRadius: styles.borderRadius,
             },
+            // Custom element hosts from the element outwards, e.g. Angular <app-user-card>
+            hostTags: (() => {
+              const hosts: string[] = [];
+              for (let node: Element | null = el; node; node = node.parentElement) {
+                if (node.tagName.includes('-')) hosts.push(node.tagName.toLowerCase());
+              }
+              return hosts;
+            })(),
+            // Owning components when the page is a dev build
+            runtime: getReactComponents(el) || getVueComponents(el),
+            // Set by the uxplain build plugins on host elements
+            sourceTag: el.closest(`[${sourceAttribute}]`)?.getAttribute(sourceAttribute) || null,
             elementIndex: index,
           });
         });
       });
 
       return elements;
-    }, elementType);
+    }, { type: elementType, explicit: explicitSelectors, sourceAttribute: SOURCE_ATTRIBUTE, selectorEngine: SELECTOR_ENGINE_GLOBAL });
   }
 
   private async correlateElementsWithComponents(visualElements: any[], page: Page): Promise<VisualCodeCorrelation[]> {
     const correlations: VisualCodeCorrelation[] = [];
+    const contrast = await ColorContrast.analyze(page, visualElements.map(element => element.selector));
 
     for (const element of visualElements) {
       let correlation: VisualCodeCorrelation = {
@@ -229,7 +385,7 @@ export class VisualCodeCorrelator {
       }
 
       // Analyze responsive issues
-      correlation.responsiveIssues = this.analyzeResponsiveIssues(element);
+      correlation.responsiveIssues = this.analyzeResponsiveIssues(element, contrast.get(element.selector));
       correlation.recommendations = this.generateRecommendations(element, correlation.sourceComponent);
 
       correlations.push(correlation);
@@ -250,12 +406,58 @@ export class VisualCodeCorrelator {
       };
     }
 
-    // Strategy 1: Search by element text content
     let bestMatch: ComponentIndex | null = null;
     let confidence = 0;
     let matchReason = '';
 
-    if (visualElement.text && visualElement.text.length > 2) {
+    // Strategy 0: The build plugin tagged the element with its source location
+    const sourceLocation = SourceTagger.parse(visualElement.sourceTag) || undefined;
+    const sourceMatch = sourceLocation ? this.findSourceMatch(sourceLocation) : null;
+    if (sourceMatch) {
+      bestMatch = sourceMatch;
+      confidence = 1;
+      matchReason = `Source location tag (${SourceTagger.format(sourceLocation!)})`;
+    }
+
+    // Strategy 0a: The dev build reports the owning component instance. When it
+    // does, the heuristics below are not needed.
+    const runtime: RuntimeInfo | null = visualElement.runtime || null;
+    const runtimeMatch = runtime ? this.findRuntimeMatch(runtime.components) : null;
+    const componentChain = runtime && runtime.components.length > 0
+      ? runtime.components.map(component => component.name).reverse()
+      : undefined;
+    if (!sourceMatch && runtimeMatch && runtime?.framework === 'vue') {
+      bestMatch = runtimeMatch.component;
+      confidence = 1;
+      matchReason = 'runtime instance';
+    } else if (!sourceMatch && runtimeMatch) {
+      bestMatch = runtimeMatch.component;
+      confidence = runtimeMatch.byFile ? 1 : 0.95;
+      const location = runtimeMatch.runtime.filePath
+        ? ` (${path.basename(runtimeMatch.runtime.filePath)}${runtimeMatch.runtime.line ? `:${runtimeMatch.runtime.line}` : ''})`
+        : '';
+      matchReason = `Owned by <${runtimeMatch.runtime.name}> in the React component tree${location}`;
+    }
+
+    // Strategy 0b: The element is, or is rendered inside, a component host whose
+    // tag name is a known component selector
+    const hostMatch = bestMatch ? null : this.findSelectorMatch(visualElement.hostTags || []);
+    if (hostMatch) {
+      bestMatch = hostMatch.component;
+      confidence = hostMatch.tag === visualElement.tagName ? 0.95 : 0.85;
+      matchReason = `Rendered by <${hostMatch.tag}> (component selector)`;
+    }
+
+    // Strategy 0c: The page is a Storybook story of a known component
+    if (!bestMatch && this.storyMatch) {
+      bestMatch = this.storyMatch.component;
+      confidence = 0.8;
+      matchReason = `Rendered in Storybook story "${this.storyMatch.title} / ${this.storyMatch.name}"`;
+    }
+
+    // Strategy 1: Search by element text content
+    const heuristics = !runtime && !sourceMatch;
+    if (heuristics && !bestMatch && visualElement.text && visualElement.text.length > 2) {
       const textResults = this.searchEngine.searchComponents({
         text: visualElement.text,
         componentType: 'any',
@@ -269,7 +471,7 @@ export class VisualCodeCorrelator {
     }
 
     // Strategy 2: Search by element type and attributes
-    if (!bestMatch || confidence < 0.5) {
+    if (heuristics && (!bestMatch || confidence < 0.5)) {
       const typeQuery = this.buildTypeQuery(visualElement);
       const typeResults = this.searchEngine.searchComponents(typeQuery);
 
@@ -283,7 +485,7 @@ export class VisualCodeCorrelator {
     }
 
     // Strategy 3: Search by CSS classes
-    if ((!bestMatch || confidence < 0.6) && visualElement.className) {
+    if (heuristics && (!bestMatch || confidence < 0.6) && visualElement.className) {
       const classNames = visualElement.className.split(' ').filter((c: string) => c.length > 2);
       for (const className of classNames) {
         const classResults = this.searchEngine.searchComponents({
@@ -304,20 +506,91 @@ export class VisualCodeCorrelator {
     // Extract relevant code snippet
     let codeSnippet = '';
     if (bestMatch) {
-      codeSnippet = this.extractRelevantCodeSnippet(bestMatch, visualElement);
+      const line = sourceMatch ? sourceLocation!.line : runtimeMatch?.component === bestMatch ? runtimeMatch.runtime.line : undefined;
+      codeSnippet = this.extractRelevantCodeSnippet(bestMatch, visualElement, line);
     }
 
     return {
       visualElement,
       sourceComponent: bestMatch,
       confidence,
-      matchReason: bestMatch ? matchReason : 'No matching component found',
+      matchReason: bestMatch
+        ? matchReason
+        : runtime ? `No indexed component in the ${runtime.framework === 'vue' ? 'Vue' : 'React'} component chain` : 'No matching component found',
+      componentChain,
+      sourceLocation,
       codeSnippet,
       responsiveIssues: [],
       recommendations: [],
     };
   }
 
+  private findStoryMatch(url: string): { component: ComponentIndex; title: string; name: string } | null {
+    const storyId = StorybookReader.storyIdFromUrl(url);
+    if (!storyId || !this.projectIndex) return null;
+
+    for (const component of this.projectIndex.components) {
+      const story = component.stories?.find(candidate => candidate.id === storyId);
+      if (story) return { component, title: story.title, name: story.name };
+    }
+    return null;
+  }
+
+  // The component of the tagged file whose declaration spans the tagged line
+  private findSourceMatch(location: SourceLocation): ComponentIndex | null {
+    if (!this.projectIndex) return null;
+    const target = path.resolve(this.projectIndex.metadata.projectPath, location.filePath);
+
+    const inFile = this.projectIndex.components.filter(component =>
+      path.resolve(this.projectIndex!.metadata.projectPath, component.filePath) === target
+    );
+    return inFile.find(component =>
+      component.location && component.location.startLine <= location.line && location.line <= component.location.endLine
+    ) || (inFile.length === 1 ? inFile[0] : null);
+  }
+
+  /**
+   * Resolves the innermost runtime component that is part of the index, by
+   * file (and name, for files with several components) when the build reports
+   * files and by a unique name otherwise. Library components (not indexed) are
+   * skipped.
+   */
+  private findRuntimeMatch(runtimeComponents: RuntimeComponent[]): { component: ComponentIndex; runtime: RuntimeComponent; byFile: boolean } | null {
+    if (!this.projectIndex) return null;
+    const projectPath = this.projectIndex.metadata.projectPath;
+
+    for (const runtime of runtimeComponents) {
+      const named = this.projectIndex.components.filter(component => component.name === runtime.name);
+
+      if (runtime.filePath) {
+        const runtimePath = runtime.filePath.split(path.sep).join('/').replace(/^\.\//, '');
+        const inFile = this.projectIndex.components.filter(component => {
+          const componentPath = path.resolve(projectPath, component.filePath).split(path.sep).join('/');
+          return componentPath === runtimePath || componentPath.endsWith(`/${runtimePath}`);
+        });
+        const byFile = inFile.find(component => component.name === runtime.name) || (inFile.length === 1 ? inFile[0] : undefined);
+        if (byFile) return { component: byFile, runtime, byFile: true };
+      }
+
+      if (named.length === 1) return { component: named[0], runtime, byFile: false };
+    }
+
+    return null;
+  }
+
+  private findSelectorMatch(hostTags: string[]): { component: ComponentIndex; tag: string } | null {
+    if (!this.projectIndex) return null;
+
+    for (const tag of hostTags) {
+      const component = this.projectIndex.components.find(c => c.selectors?.includes(tag));
+      if (component) {
+        return { component, tag };
+      }
+    }
+
+    return null;
+  }
+
   private buildTypeQuery(visualElement: any): { text?: string; tags?: string[] } {
     const query: { text?: string; tags?: string[] } = {};
 
@@ -337,8 +610,13 @@ export class VisualCodeCorrelator {
     return query;
   }
 
-  private extractRelevantCodeSnippet(component: ComponentIndex, visualElement: any): string {
+  private extractRelevantCodeSnippet(component: ComponentIndex, visualElement: any, line?: number): string {
     const sourceLines = component.sourceCode.split('\n');
+
+    // The runtime reported where the element is rendered
+    if (line && line <= sourceLines.length) {
+      return sourceLines.slice(Math.max(0, line - 4), Math.min(sourceLines.length, line + 6)).join('\n');
+    }
     
     // Try to find the JSX return statement
     const returnIndex = sourceLines.findIndex(line => line.trim().includes('return'));
@@ -353,26 +631,26 @@ export class VisualCodeCorrelator {
     return sourceLines.slice(0, 20).join('\n');
   }
 
-  private analyzeResponsiveIssues(element: any): string[] {
+  private analyzeResponsiveIssues(element: any, contrast?: ContrastResult): string[] {
     const issues: string[] = [];
 
+    const { minTouchTarget, minFontSize } = this.config.thresholds;
+
     // Check touch target size
-    if (element.bounds.width < 44 || element.bounds.height < 44) {
-      issues.push(`Touch target too small: ${element.bounds.width}x${element.bounds.height}px (minimum 44x44px)`);
+    if (element.bounds.width < minTouchTarget || element.bounds.height < minTouchTarget) {
+      issues.push(`Touch target too small: ${element.bounds.width}x${element.bounds.height}px (minimum ${minTouchTarget}x${minTouchTarget}px)`);
     }
 
     // Check for very small text
     const fontSize = parseInt(element.styles.fontSize);
-    if (fontSize && fontSize < 14) {
-      issues.push(`Font size too small: ${fontSize}px (minimum 14px for mobile)`);
+    if (fontSize && fontSize < minFontSize) {
+      issues.push(`Font size too small: ${fontSize}px (minimum ${minFontSize}px for mobile)`);
     }
 
-    // Check for insufficient color contrast (basic check)
-    if (element.styles.color && element.styles.backgroundColor) {
-      // This is a simplified check - in practice you'd use a proper contrast ratio calculation
-      if (element.styles.color === element.styles.backgroundColor) {
-        issues.push('Potential color contrast issue');
-      }
+    // Check for insufficient color contrast (WCAG AA)
+    if (contrast && contrast.level === 'fail') {
+      const required = contrast.largeText ? 3 : 4.5;
+      issues.push(`Insufficient color contrast: ${contrast.ratio}:1 (${contrast.foreground} on ${contrast.background}, minimum ${required}:1 for ${contrast.largeText ? 'large' : 'normal'} text)`);
     }
 
     return issues;
@@ -380,16 +658,17 @@ export class VisualCodeCorrelator {
 
   private generateRecommendations(element: any, component: ComponentIndex | null): string[] {
     const recommendations: string[] = [];
+    const { minTouchTarget, maxProps } = this.config.thresholds;
 
-    if (element.bounds.width < 44 || element.bounds.height < 44) {
-      recommendations.push('Increase padding or min-height/min-width to meet 44px touch target minimum');
+    if (element.bounds.width < minTouchTarget || element.bounds.height < minTouchTarget) {
+      recommendations.push(`Increase padding or min-height/min-width to meet ${minTouchTarget}px touch target minimum`);
     }
 
     if (!element.attributes.ariaLabel && !element.text) {
       recommendations.push('Add aria-label for better accessibility');
     }
 
-    if (component && component.props.length > 8) {
+    if (component && component.props.length > maxProps) {
       recommendations.push('Consider breaking down this component - it has many props and might be too complex');
     }
 
@@ -0,0 +1,420 @@
+import type { Page } from 'playwright';
+import { getBrowserManager } from '../utils/browser.js';
+import { ImageProcessor } from '../utils/image-processor.js';
+import { PageActions } from '../utils/page-actions.js';
+import { SELECTOR_ENGINE_GLOBAL, SelectorEngine } from '../utils/selector-engine.js';
+import type {
+  ElementChange,
+  PageActionResult,
+  Rectangle,
+  VisualComparisonParams,
+  VisualComparisonResult,
+} from '../types/index.js';
+
+interface ElementSnapshot {
+  key: string;
+  structural: boolean; // key is a DOM path, not a test id, id or role and name
+  parentKey: string | null;
+  selector: string;
+  tagName: string;
+  text: string; // own text, without that of child elements
+  bounds: Rectangle;
+  styles: Record<string, string>;
+}
+
+interface PageState {
+  screenshot: Buffer;
+  elements: ElementSnapshot[];
+  actions?: PageActionResult[];
+  scale: number; // device pixels per CSS pixel in the screenshot
+}
+
+// Per-pixel color distance (0-1) used when no explicit threshold is given
+const SENSITIVITY_THRESHOLDS: Record<'low' | 'medium' | 'high', number> = {
+  low: 0.2,
+  medium: 0.1,
+  high: 0.05,
+};
+
+const TRACKED_STYLES = [
+  'display', 'visibility', 'opacity', 'color', 'background-color',
+  'background-image', 'font-family', 'font-size', 'font-weight', 'line-height',
+  'text-align', 'text-decoration-line', 'border-top-width', 'border-top-color',
+  'border-radius', 'box-shadow', 'padding-top', 'padding-right', 'padding-bottom',
+  'padding-left', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left',
+  'gap', 'z-index', 'transform',
+];
+
+const HIGH_IMPACT_STYLES = ['display', 'visibility'];
+const MEDIUM_IMPACT_STYLES = ['opacity', 'color', 'background-color', 'background-image', 'font-size', 'font-weight'];
+
+export class VisualComparisonTool {
+  static async compareVisualStates(params: VisualComparisonParams): Promise<VisualComparisonResult> {
+    const browserManager = getBrowserManager();
+    await browserManager.initialize();
+
+    const before = await this.capturePageState(params.beforeUrl, params);
+
+    if (params.delay) {
+      await new Promise(resolve => setTimeout(resolve, params.delay));
+    }
+
+    const after = await this.capturePageState(params.afterUrl, params);
+
+    const pixelThreshold = params.threshold ?? SENSITIVITY_THRESHOLDS[params.diffSensitivity || 'medium'];
+    const pixelDiff = await ImageProcessor.diffImages(
+      before.screenshot,
+      after.screenshot,
+      { threshold: pixelThreshold }
+    );
+
+    const changedElements = this.diffElements(before.elements, after.elements);
+
+    const changeTypes: Record<string, number> = {};
+    for (const change of changedElements) {
+      changeTypes[change.changeType] = (changeTypes[change.changeType] || 0) + 1;
+    }
+
+    return {
+      beforeScreenshot: before.screenshot.toString('base64'),
+      afterScreenshot: after.screenshot.toString('base64'),
+      diffImage: pixelDiff.diffImage,
+      changedElements,
+      // Screenshots are in device pixels, element bounds in CSS pixels
+      diffRegions: pixelDiff.regions.map(region => this.toCSSPixels(region, after.scale)),
+      similarity: 1 - pixelDiff.mismatchPercentage / 100,
+      actions: before.actions && after.actions ? { before: before.actions, after: after.actions } : undefined,
+      summary: {
+        totalChanges: changedElements.length,
+        significantChanges: changedElements.filter(c => c.severity !== 'low').length,
+        changeTypes,
+        affectedSelectors: changedElements.map(c => c.selector),
+      },
+    };
+  }
+
+  private static async capturePageState(url: string, params: VisualComparisonParams): Promise<PageState> {
+    const page = await getBrowserManager().createPage(params.auth);
+
+    try {
+      if (params.viewport) {
+        await page.setViewportSize(params.viewport);
+      }
+
+      await page.goto(url, {
+        waitUntil: 'networkidle',
+        timeout: 30000,
+      });
+
+      if (params.waitFor) {
+        if (typeof params.waitFor === 'string') {
+          await page.waitForSelector(params.waitFor, { timeout: 10000 });
+        } else {
+          await page.waitForTimeout(params.waitFor);
+        }
+      }
+
+      const actions = params.actions?.length ? await PageActions.run(page, params.actions) : undefined;
+
+      const screenshot = await this.captureScreenshot(page, params);
+      const elements = await this.snapshotElements(page, params.selector);
+
+      const scale = await page.evaluate(() => window.devicePixelRatio);
+
+      return { screenshot, elements, actions, scale };
+    } finally {
+      await page.close();
+    }
+  }
+
+  private static toCSSPixels(region: Rectangle, scale: number): Rectangle {
+    if (!scale || scale === 1) return region;
+    const x = Math.floor(region.x / scale);
+    const y = Math.floor(region.y / scale);
+    return {
+      x,
+      y,
+      width: Math.ceil((region.x + region.width) / scale) - x,
+      height: Math.ceil((region.y + region.height) / scale) - y,
+    };
+  }
+
+  private static async captureScreenshot(page: Page, params: VisualComparisonParams): Promise<Buffer> {
+    if (params.selector) {
+      const element = page.locator(params.selector).first();
+      if (await element.isVisible()) {
+        return await element.screenshot({ type: 'png' });
+      }
+      throw new Error(`Element ${params.selector} is not visible at ${page.url()}`);
+    }
+
+    return await page.screenshot({ type: 'png', fullPage: params.fullPage ?? true });
+  }
+
+  private static async snapshotElements(page: Page, selector?: string): Promise<ElementSnapshot[]> {
+    await SelectorEngine.install(page);
+    return await page.evaluate(
+      ({ sel, trackedStyles, selectorEngine }: { sel?: string; trackedStyles: string[]; selectorEngine: string }) => {
+        const root = sel ? document.querySelector(sel) : document.body;
+        if (!root) return [];
+
+        const skippedTags = ['SCRIPT', 'STYLE', 'LINK', 'META', 'NOSCRIPT', 'TEMPLATE', 'BR'];
+
+        // Bounds are reported relative to the captured screenshot: the element
+        // itself when a selector is given, otherwise the full document
+        const rootRect = root.getBoundingClientRect();
+        const originX = sel ? rootRect.x : -window.scrollX;
+        const originY = sel ? rootRect.y : -window.scrollY;
+
+        // Elements keep their key across captures when it comes from the
+        // selector engine; the DOM path shifts when a sibling is inserted
+        const keys = new Map<Element, { key: string; structural: boolean }>();
+        const keyFor = (el: Element): { key: string; structural: boolean } => {
+          const cached = keys.get(el);
+          if (cached) return cached;
+
+          const { locator, strategy } = (window as any)[selectorEngine](el);
+          const key = strategy === 'css'
+            ? { key: pathFor(el), structural: true }
+            : { key: locator as string, structural: false };
+          keys.set(el, key);
+          return key;
+        };
+
+        const pathFor = (el: Element): string => {
+          const segments: string[] = [];
+          let current: Element | null = el;
+          while (current && current !== document.documentElement) {
+            const parent: Element | null = current.parentElement;
+            let segment = current.tagName.toLowerCase();
+            if (parent) {
+              const sameTag = Array.from(parent.children).filter(c => c.tagName === current!.tagName);
+              if (sameTag.length > 1) {
+                segment += `:nth-of-type(${sameTag.indexOf(current) + 1})`;
+              }
+            }
+            segments.unshift(segment);
+            current = parent;
+          }
+          return segments.join(' > ');
+        };
+
+        const ownText = (el: Element): string => Array.from(el.childNodes)
+          .filter(node => node.nodeType === Node.TEXT_NODE)
+          .map(node => node.textContent)
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .trim()
+          .slice(0, 200);
+
+        const snapshots: Array<{
+          key: string;
+          structural: boolean;
+          parentKey: string | null;
+          selector: string;
+          tagName: string;
+          text: string;
+          bounds: { x: number; y: number; width: number; height: number };
+          styles: Record<string, string>;
+        }> = [];
+
+        const elements = [root, ...Array.from(root.querySelectorAll('*'))];
+        for (const el of elements) {
+          if (snapshots.length >= 1500) break;
+          if (skippedTags.includes(el.tagName)) continue;
+
+          const rect = el.getBoundingClientRect();
+          if (rect.width === 0 && rect.height === 0) continue;
+
+          const computed = window.getComputedStyle(el);
+          const styles: Record<string, string> = {};
+          for (const prop of trackedStyles) {
+            styles[prop] = computed.getPropertyValue(prop);
+          }
+
+          const { key, structural } = keyFor(el);
+          snapshots.push({
+            key,
+            structural,
+            parentKey: el !== root && el.parentElement ? keyFor(el.parentElement).key : null,
+            selector: key,
+            tagName: el.tagName.toLowerCase(),
+            text: ownText(el),
+            bounds: {
+              x: Math.round(rect.x - originX),
+              y: Math.round(rect.y - originY),
+              width: Math.round(rect.width),
+              height: Math.round(rect.height),
+            },
+            styles,
+          });
+        }
+
+        return snapshots;
+      },
+      { sel: selector, trackedStyles: TRACKED_STYLES, selectorEngine: SELECTOR_ENGINE_GLOBAL }
+    );
+  }
+
+  private static diffElements(before: ElementSnapshot[], after: ElementSnapshot[]): ElementChange[] {
+    const beforeByKey = new Map(before.map(el => [el.key, el]));
+    const afterByKey = new Map(after.map(el => [el.key, el]));
+    const emptyBounds: Rectangle = { x: 0, y: 0, width: 0, height: 0 };
+    const changes: ElementChange[] = [];
+
+    const { pairs, removed, added } = this.pairElements(before, after, afterByKey);
+    // Keys of elements present in both captures, under either key
+    const kept = new Set(Array.from(pairs).flatMap(([old, current]) => [old.key, current.key]));
+
+    for (const old of removed) {
+      // Only report the outermost removed element, not its whole subtree
+      if (old.parentKey && !kept.has(old.parentKey) && beforeByKey.has(old.parentKey)) continue;
+      changes.push({
+        selector: old.selector,
+        boundsBefore: old.bounds,
+        boundsAfter: emptyBounds,
+        styleChanges: {},
+        changeType: 'removed',
+        severity: this.areaSeverity(old.bounds),
+      });
+    }
+
+    for (const [old, current] of pairs) {
+      const styleChanges: Record<string, { old: string; new: string }> = {};
+      for (const prop of Object.keys(old.styles)) {
+        if (old.styles[prop] !== current.styles[prop]) {
+          styleChanges[prop] = { old: old.styles[prop], new: current.styles[prop] };
+        }
+      }
+
+      const resized = Math.abs(old.bounds.width - current.bounds.width) > 1 ||
+                      Math.abs(old.bounds.height - current.bounds.height) > 1;
+      const moved = this.movedRelativeToParent(old, current, beforeByKey, afterByKey);
+      const styled = Object.keys(styleChanges).length > 0;
+
+      if (!resized && !moved && !styled) continue;
+
+      const changeType: ElementChange['changeType'] = resized ? 'resized' : moved ? 'moved' : 'styled';
+      const severity = changeType === 'styled'
+        ? this.styleSeverity(styleChanges)
+        : this.geometrySeverity(old.bounds, current.bounds);
+
+      changes.push({
+        selector: current.selector,
+        boundsBefore: old.bounds,
+        boundsAfter: current.bounds,
+        styleChanges,
+        changeType,
+        severity,
+      });
+    }
+
+    for (const current of added) {
+      if (current.parentKey && !kept.has(current.parentKey) && afterByKey.has(current.parentKey)) continue;
+
+      changes.push({
+        selector: current.selector,
+        boundsBefore: emptyBounds,
+        boundsAfter: current.bounds,
+        styleChanges: {},
+        changeType: 'added',
+        severity: this.areaSeverity(current.bounds),
+      });
+    }
+
+    const severityRank = { high: 0, medium: 1, low: 2 };
+    return changes.sort((a, b) => severityRank[a.severity] - severityRank[b.severity]);
+  }
+
+  /**
+   * Matches elements of both captures by key. DOM path keys only count when
+   * the text still matches, since an inserted sibling shifts them onto a
+   * different element. What is left is paired up by tag, text and size, so
+   * an element whose key changed is not reported as removed and added.
+   */
+  private static pairElements(
+    before: ElementSnapshot[],
+    after: ElementSnapshot[],
+    afterByKey: Map<string, ElementSnapshot>
+  ): { pairs: Map<ElementSnapshot, ElementSnapshot>; removed: ElementSnapshot[]; added: ElementSnapshot[] } {
+    const pairs = new Map<ElementSnapshot, ElementSnapshot>();
+    const matched = new Set<ElementSnapshot>();
+    const removed: ElementSnapshot[] = [];
+
+    for (const old of before) {
+      const current = afterByKey.get(old.key);
+      if (current && (!old.structural || old.text === current.text)) {
+        pairs.set(old, current);
+        matched.add(current);
+      } else {
+        removed.push(old);
+      }
+    }
+
+    const added = after.filter(current => !matched.has(current));
+    for (const old of removed.slice()) {
+      const index = added.findIndex(current =>
+        current.tagName === old.tagName &&
+        current.text === old.text &&
+        Math.abs(current.bounds.width - old.bounds.width) <= 1 &&
+        Math.abs(current.bounds.height - old.bounds.height) <= 1
+      );
+      if (index === -1) continue;
+
+      pairs.set(old, added[index]);
+      added.splice(index, 1);
+      removed.splice(removed.indexOf(old), 1);
+    }
+
+    return { pairs, removed, added };
+  }
+
+  private static movedRelativeToParent(
+    old: ElementSnapshot,
+    current: ElementSnapshot,
+    beforeByKey: Map<string, ElementSnapshot>,
+    afterByKey: Map<string, ElementSnapshot>
+  ): boolean {
+    const dx = current.bounds.x - old.bounds.x;
+    const dy = current.bounds.y - old.bounds.y;
+    if (Math.abs(dx) <= 1 && Math.abs(dy) <= 1) return false;
+
+    // An element that shifted together with its parent did not move by itself;
+    // reporting it would flood the result with every descendant of one change
+    const parentBefore = old.parentKey ? beforeByKey.get(old.parentKey) : undefined;
+    const parentAfter = current.parentKey ? afterByKey.get(current.parentKey) : undefined;
+    if (parentBefore && parentAfter) {
+      const parentDx = parentAfter.bounds.x - parentBefore.bounds.x;
+      const parentDy = parentAfter.bounds.y - parentBefore.bounds.y;
+      return Math.abs(dx - parentDx) > 1 || Math.abs(dy - parentDy) > 1;
+    }
+
+    return true;
+  }
+
+  private static areaSeverity(bounds: Rectangle): ElementChange['severity'] {
+    const area = bounds.width * bounds.height;
+    if (area >= 10000) return 'high';
+    if (area >= 1000) return 'medium';
+    return 'low';
+  }
+
+  private static geometrySeverity(before: Rectangle, after: Rectangle): ElementChange['severity'] {
+    const delta = Math.max(
+      Math.abs(after.x - before.x),
+      Math.abs(after.y - before.y),
+      Math.abs(after.width - before.width),
+      Math.abs(after.height - before.height)
+    );
+    if (delta > 50) return 'high';
+    if (delta > 10) return 'medium';
+    return 'low';
+  }
+
+  private static styleSeverity(styleChanges: Record<string, { old: string; new: string }>): ElementChange['severity'] {
+    const props = Object.keys(styleChanges);
+    if (props.some(prop => HIGH_IMPACT_STYLES.includes(prop))) return 'high';
+    if (props.some(prop => MEDIUM_IMPACT_STYLES.includes(prop))) return 'medium';
+    return 'low';
+  }
+}
@@ -10,15 +10,76 @@ export interface Viewport {
   height: number;
 }
 
+export interface Breakpoint extends Viewport {
+  name: string;
+}
+
+// Project auth from uxplain.config.*, applied to the browser context a tool captures in
+export interface AuthConfig {
+  storageState?: string; // path to a Playwright storage state file
+  headers?: Record<string, string>;
+  httpCredentials?: { username: string; password: string };
+  cookies?: Array<{ name: string; value: string; url?: string; domain?: string; path?: string }>;
+}
+
 export interface UIContextParams {
   url: string;
   selector?: string;
   viewport?: Viewport;
   includeResponsive?: boolean;
+  breakpoints?: Breakpoint[];
   includeAccessibility?: boolean;
   cropToElement?: boolean;
   waitFor?: string | number;
   fullPage?: boolean;
+  projectPath?: string; // resolves authored style files and the components importing them
+  annotate?: boolean; // overlay numbered marks on interactive and landmark elements
+  actions?: PageAction[]; // run after loading, before anything is captured
+  auth?: AuthConfig;
+}
+
+// One step of an interaction script run against the page before capture
+export interface PageAction {
+  type: 'click' | 'fill' | 'press' | 'hover' | 'select' | 'scroll' | 'waitForSelector' | 'waitForResponse' | 'evaluate';
+  selector?: string; // CSS, Playwright selector or locator expression such as getByRole(...)
+  elementRef?: number; // mark from an annotated screenshot, in place of selector
+  value?: string | string[]; // text to fill, option(s) to select
+  key?: string; // press, e.g. Enter or Control+A; goes to the focused element without a selector
+  url?: string; // waitForResponse: substring of the response URL, or /regex/
+  script?: string; // evaluate: JavaScript expression run in the page
+  x?: number; // scroll position when there is no selector
+  y?: number;
+  state?: 'attached' | 'detached' | 'visible' | 'hidden'; // waitForSelector, default visible
+  timeout?: number; // ms, default 10000
+  screenshot?: boolean; // capture the viewport after this step
+}
+
+export interface PageActionResult {
+  index: number; // 1-based
+  type: PageAction['type'];
+  target?: string; // selector, key or URL the step acted on
+  success: boolean;
+  skipped?: boolean; // not run because an earlier step failed
+  error?: string;
+  result?: string; // evaluate return value, JSON
+  duration: number; // ms
+  screenshot?: string; // base64
+}
+
+// A numbered box drawn on an annotated screenshot; tools accept its ref as elementRef
+export interface ElementMark {
+  ref: number;
+  selector: string;
+  locator: string;
+  tagName: string;
+  role?: string;
+  name?: string;
+  bounds: Rectangle; // in screenshot coordinates
+  component?: {
+    name: string;
+    filePath: string;
+    confidence: number;
+  };
 }
 
 export interface AccessibilityInfo {
@@ -52,10 +113,13 @@ export interface UIContextResult {
   screenshot: string; // base64 image
   html: string; // relevant DOM fragment
   css: string; // applicable CSS rules
+  styleSources?: CascadeOrigin[]; // winning author declarations of the selected element, traced to their source files
   computedStyles: Record<string, any>;
   elementBounds: Rectangle;
   accessibility: AccessibilityInfo;
   responsive?: ResponsiveView[];
+  marks?: ElementMark[]; // legend of the annotated screenshot
+  actions?: PageActionResult[]; // outcome of params.actions
   context: {
     pageTitle: string;
     url: string;
@@ -75,16 +139,21 @@ export interface UIContextResult {
 export interface ComponentIsolationParams {
   url: string;
   selector: string;
+  viewport?: Viewport;
+  waitFor?: string | number;
   includeParents?: boolean;
   includeChildren?: boolean;
   styleScope?: 'component' | 'global' | 'inherited';
   captureStates?: boolean; // hover, focus, active, etc.
+  actions?: PageAction[];
+  auth?: AuthConfig;
 }
 
 export interface StateVariation {
   state: string; // hover, focus, active, disabled, etc.
   screenshot: string;
   computedStyles: Record<string, any>;
+  styleChanges?: Record<string, { old: string; new: string }>; // compared to the default state
   description: string;
 }
 
@@ -102,6 +171,7 @@ export interface LayoutAnalysis {
     wrap: string;
     justifyContent: string;
     alignItems: string;
+    alignContent?: string;
     gap: string;
   };
   grid?: {
@@ -109,11 +179,28 @@ export interface LayoutAnalysis {
     templateRows: string;
     gap: string;
     areas: string;
+    autoFlow?: string;
+    justifyItems?: string;
+    alignItems?: string;
   };
   float?: string;
   zIndex?: number;
 }
 
+export interface CascadeOrigin {
+  property: string;
+  value: string;
+  source: 'user-agent' | 'user' | 'author' | 'inline';
+  specificity: number;
+  selector?: string;
+  stylesheetUrl?: string;
+  line?: number; // 1-based line of the rule in its stylesheet
+  authored?: { filePath: string; line: number; column: number }; // the declaration in the source, through the stylesheet's source map
+  components?: string[]; // indexed components importing the authored file
+  important?: boolean;
+  inheritedDepth?: number; // set when inherited, 1 = parent
+}
+
 export interface ComponentResult {
   componentScreenshot: string; // cropped to element
   parentContext?: string; // surrounding DOM
@@ -122,32 +209,35 @@ export interface ComponentResult {
   layoutAnalysis: LayoutAnalysis;
   children?: Array<{
     selector: string;
+    locator: string;
     tagName: string;
     textContent?: string;
     bounds: Rectangle;
   }>;
   inheritance: {
     inheritedStyles: Record<string, any>;
-    cascadeOrigin: Array<{
-      property: string;
-      value: string;
-      source: 'user-agent' | 'user' | 'author' | 'inline';
-      specificity: number;
-    }>;
+    cascadeOrigin: CascadeOrigin[];
   };
+  actions?: PageActionResult[];
 }
 
 export interface VisualComparisonParams {
   beforeUrl: string;
   afterUrl: string;
   selector?: string;
+  viewport?: Viewport;
+  fullPage?: boolean;
+  waitFor?: string | number;
+  delay?: number; // ms to wait between the before and after captures
   diffSensitivity?: 'low' | 'medium' | 'high';
   threshold?: number; // 0-1, how much difference to consider significant
+  actions?: PageAction[];
+  auth?: AuthConfig;
 }
 
 export interface ElementChange {
   selector: string;
-  boundsBefore: Rectangle;
+  boundsBefore: Rectangle; // CSS pixels relative to the screenshot
   boundsAfter: Rectangle;
   styleChanges: Record<string, { old: string; new: string }>;
   changeType: 'moved' | 'resized' | 'styled' | 'added' | 'removed';
@@ -159,7 +249,7 @@ export interface VisualComparisonResult {
   afterScreenshot: string;
   diffImage: string; // highlighted differences
   changedElements: ElementChange[];
-  diffRegions: Rectangle[];
+  diffRegions: Rectangle[]; // CSS pixels relative to the screenshot, like changedElements bounds
   similarity: number; // 0-1 score
   summary: {
     totalChanges: number;
@@ -167,6 +257,7 @@ export interface VisualComparisonResult {
     changeTypes: Record<string, number>;
     affectedSelectors: string[];
   };
+  actions?: { before: PageActionResult[]; after: PageActionResult[] };
 }
 
 export interface ResponsiveCaptureParams {
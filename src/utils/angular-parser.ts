@@ -0,0 +1,294 @@
+import ts from 'typescript';
+import { ComponentParser } from './component-parser.js';
+import type { EventDefinition, PropDefinition } from '../tools/project-indexer.js';
+
+export interface ParsedAngularComponent {
+  name: string;
+  exported: boolean;
+  selector?: string;
+  elementSelectors: string[]; // tag names the component renders as, e.g. app-user-card
+  template?: string;
+  templateUrl?: string;
+  styles: string[];
+  styleUrls: string[];
+  standalone: boolean;
+  standaloneImports: string[];
+  props: PropDefinition[];
+  outputs: EventDefinition[];
+  description?: string;
+  sourceCode: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface ParsedAngularModule {
+  components: ParsedAngularComponent[];
+  imports: string[];
+}
+
+// Signal-based APIs (Angular 17+) that declare inputs and outputs as fields
+const SIGNAL_INPUTS = new Set(['input', 'model']);
+const SIGNAL_OUTPUTS = new Set(['output', 'outputFromObservable']);
+
+export class AngularParser {
+  /**
+   * Reads every @Component class in a module. External templates and style
+   * sheets are returned as paths relative to the component file.
+   */
+  static parse(sourceCode: string, fileName: string): ParsedAngularModule {
+    const sourceFile = ts.createSourceFile(fileName, sourceCode, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+    const imports: string[] = [];
+    const components: ParsedAngularComponent[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        imports.push(statement.moduleSpecifier.text);
+        continue;
+      }
+
+      if (!ts.isClassDeclaration(statement) || !statement.name) continue;
+
+      const metadata = this.getComponentMetadata(statement);
+      if (!metadata) continue;
+
+      const start = sourceFile.getLineAndCharacterOfPosition(statement.getStart(sourceFile));
+      const end = sourceFile.getLineAndCharacterOfPosition(statement.getEnd());
+      const selector = this.getString(metadata, 'selector');
+      const { props, outputs } = this.parseMembers(statement, metadata, sourceFile);
+
+      components.push({
+        name: statement.name.text,
+        exported: !!ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword),
+        selector,
+        elementSelectors: selector ? this.elementSelectors(selector) : [],
+        template: this.getString(metadata, 'template'),
+        templateUrl: this.getString(metadata, 'templateUrl'),
+        styles: this.getStrings(metadata, 'styles'),
+        // styleUrl (singular) was added in Angular 17
+        styleUrls: [...this.getStrings(metadata, 'styleUrls'), ...this.getStrings(metadata, 'styleUrl')],
+        standalone: this.getBoolean(metadata, 'standalone') ?? false,
+        standaloneImports: this.getIdentifiers(metadata, 'imports'),
+        props,
+        outputs,
+        description: ComponentParser.getJSDocDescription(statement),
+        sourceCode: statement.getText(sourceFile),
+        startLine: start.line + 1,
+        endLine: end.line + 1,
+      });
+    }
+
+    return { components, imports };
+  }
+
+  /**
+   * Tag names in a selector list; attribute and class selectors
+   * ("[appTooltip]", ".btn") cannot be matched against rendered hosts.
+   */
+  static elementSelectors(selector: string): string[] {
+    return selector
+      .split(',')
+      .map(part => part.trim().match(/^([a-zA-Z][\w-]*)/)?.[1]?.toLowerCase())
+      .filter((tag): tag is string => !!tag);
+  }
+
+  private static getComponentMetadata(node: ts.ClassDeclaration): ts.ObjectLiteralExpression | null {
+    for (const decorator of ts.getDecorators(node) || []) {
+      const call = decorator.expression;
+      if (
+        ts.isCallExpression(call) &&
+        ts.isIdentifier(call.expression) &&
+        call.expression.text === 'Component'
+      ) {
+        const [metadata] = call.arguments;
+        return metadata && ts.isObjectLiteralExpression(metadata) ? metadata : null;
+      }
+    }
+    return null;
+  }
+
+  private static parseMembers(
+    node: ts.ClassDeclaration,
+    metadata: ts.ObjectLiteralExpression,
+    sourceFile: ts.SourceFile
+  ): { props: PropDefinition[]; outputs: EventDefinition[] } {
+    const props: PropDefinition[] = [];
+    const outputs: EventDefinition[] = [];
+
+    // inputs: ['label', 'value: initialValue'] in the decorator metadata
+    for (const entry of this.getStrings(metadata, 'inputs')) {
+      const [property, alias] = entry.split(':').map(part => part.trim());
+      props.push({ name: alias || property, type: 'unknown', required: false });
+    }
+    for (const entry of this.getStrings(metadata, 'outputs')) {
+      const [property, alias] = entry.split(':').map(part => part.trim());
+      outputs.push({ name: alias || property });
+    }
+
+    for (const member of node.members) {
+      if (!member.name || !(ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) continue;
+
+      const memberName = member.name.text;
+      const description = ComponentParser.getJSDocDescription(member);
+      const decorator = this.getMemberDecorator(member);
+
+      if (decorator?.name === 'Input') {
+        const options = decorator.args[0];
+        const alias = options && ts.isStringLiteralLike(options)
+          ? options.text
+          : options && ts.isObjectLiteralExpression(options) ? this.getString(options, 'alias') : undefined;
+        const required = options && ts.isObjectLiteralExpression(options)
+          ? this.getBoolean(options, 'required') ?? false
+          : false;
+
+        let type = 'unknown';
+        let defaultValue: string | undefined;
+        if (ts.isPropertyDeclaration(member)) {
+          type = member.type?.getText(sourceFile) || this.inferType(member.initializer);
+          defaultValue = member.initializer?.getText(sourceFile);
+        } else if (ts.isSetAccessorDeclaration(member)) {
+          type = member.parameters[0]?.type?.getText(sourceFile) || 'unknown';
+        }
+
+        props.push(this.compact({ name: alias || memberName, type, required, defaultValue, description }));
+        continue;
+      }
+
+      if (decorator?.name === 'Output' && ts.isPropertyDeclaration(member)) {
+        const alias = decorator.args[0] && ts.isStringLiteralLike(decorator.args[0]) ? decorator.args[0].text : undefined;
+        outputs.push(this.compact({
+          name: alias || memberName,
+          payload: this.emitterPayload(member.initializer, sourceFile),
+          description,
+        }));
+        continue;
+      }
+
+      if (!ts.isPropertyDeclaration(member) || !member.initializer) continue;
+
+      const signal = this.getSignalCall(member.initializer);
+      if (!signal) continue;
+
+      const options = signal.call.arguments.find(ts.isObjectLiteralExpression);
+      const alias = options ? this.getString(options, 'alias') : undefined;
+      const typeArgument = signal.call.typeArguments?.[0]?.getText(sourceFile);
+
+      if (SIGNAL_INPUTS.has(signal.name)) {
+        // input(initial) vs input.required<T>()
+        const initial = signal.required ? undefined : signal.call.arguments[0];
+        const defaultValue = initial && !ts.isObjectLiteralExpression(initial) ? initial.getText(sourceFile) : undefined;
+
+        props.push(this.compact({
+          name: alias || memberName,
+          type: typeArgument || this.inferType(initial),
+          required: signal.required,
+          defaultValue,
+          description,
+        }));
+
+        // model() is two-way bound and emits <name>Change
+        if (signal.name === 'model') {
+          outputs.push({ name: `${alias || memberName}Change`, payload: typeArgument });
+        }
+      } else if (SIGNAL_OUTPUTS.has(signal.name)) {
+        outputs.push(this.compact({ name: alias || memberName, payload: typeArgument, description }));
+      }
+    }
+
+    return { props, outputs };
+  }
+
+  private static getMemberDecorator(member: ts.ClassElement): { name: string; args: ts.NodeArray<ts.Expression> } | null {
+    if (!ts.canHaveDecorators(member)) return null;
+
+    for (const decorator of ts.getDecorators(member) || []) {
+      const call = decorator.expression;
+      if (ts.isCallExpression(call) && ts.isIdentifier(call.expression)) {
+        return { name: call.expression.text, args: call.arguments };
+      }
+    }
+    return null;
+  }
+
+  private static getSignalCall(initializer: ts.Expression): { name: string; required: boolean; call: ts.CallExpression } | null {
+    if (!ts.isCallExpression(initializer)) return null;
+
+    const callee = initializer.expression;
+    if (ts.isIdentifier(callee) && (SIGNAL_INPUTS.has(callee.text) || SIGNAL_OUTPUTS.has(callee.text))) {
+      return { name: callee.text, required: false, call: initializer };
+    }
+
+    if (
+      ts.isPropertyAccessExpression(callee) &&
+      ts.isIdentifier(callee.expression) &&
+      SIGNAL_INPUTS.has(callee.expression.text) &&
+      callee.name.text === 'required'
+    ) {
+      return { name: callee.expression.text, required: true, call: initializer };
+    }
+
+    return null;
+  }
+
+  // new EventEmitter<string>() -> string
+  private static emitterPayload(initializer: ts.Expression | undefined, sourceFile: ts.SourceFile): string | undefined {
+    if (initializer && ts.isNewExpression(initializer) && initializer.typeArguments?.[0]) {
+      return initializer.typeArguments[0].getText(sourceFile);
+    }
+    return undefined;
+  }
+
+  private static inferType(initializer: ts.Expression | undefined): string {
+    if (!initializer) return 'unknown';
+    if (ts.isStringLiteralLike(initializer)) return 'string';
+    if (ts.isNumericLiteral(initializer)) return 'number';
+    if (initializer.kind === ts.SyntaxKind.TrueKeyword || initializer.kind === ts.SyntaxKind.FalseKeyword) return 'boolean';
+    if (ts.isArrayLiteralExpression(initializer)) return 'unknown[]';
+    return 'unknown';
+  }
+
+  private static getProperty(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+    for (const property of object.properties) {
+      if (
+        ts.isPropertyAssignment(property) &&
+        (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name)) &&
+        property.name.text === name
+      ) {
+        return property.initializer;
+      }
+    }
+    return undefined;
+  }
+
+  private static getString(object: ts.ObjectLiteralExpression, name: string): string | undefined {
+    const value = this.getProperty(object, name);
+    return value && ts.isStringLiteralLike(value) ? value.text : undefined;
+  }
+
+  private static getStrings(object: ts.ObjectLiteralExpression, name: string): string[] {
+    const value = this.getProperty(object, name);
+    if (!value) return [];
+    if (ts.isStringLiteralLike(value)) return [value.text];
+    if (ts.isArrayLiteralExpression(value)) {
+      return value.elements.filter(ts.isStringLiteralLike).map(element => element.text);
+    }
+    return [];
+  }
+
+  private static getBoolean(object: ts.ObjectLiteralExpression, name: string): boolean | undefined {
+    const value = this.getProperty(object, name);
+    if (value?.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (value?.kind === ts.SyntaxKind.FalseKeyword) return false;
+    return undefined;
+  }
+
+  private static getIdentifiers(object: ts.ObjectLiteralExpression, name: string): string[] {
+    const value = this.getProperty(object, name);
+    if (!value || !ts.isArrayLiteralExpression(value)) return [];
+    return value.elements.filter(ts.isIdentifier).map(element => element.text);
+  }
+
+  // Drops undefined fields so they do not show up in the saved index
+  private static compact<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+  }
+}
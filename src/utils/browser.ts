@@ -1,6 +1,8 @@
 import type { Browser, BrowserContext, Page, ConsoleMessage } from 'playwright';
 import { chromium, firefox, webkit } from 'playwright';
-import type { Viewport } from '../types/index.js';
+import type { AuthConfig, Viewport } from '../types/index.js';
+
+export type { AuthConfig };
 
 export interface BrowserConfig {
   headless?: boolean;
@@ -9,11 +11,16 @@ export interface BrowserConfig {
   userAgent?: string;
   deviceScaleFactor?: number;
   browserType?: 'chromium' | 'firefox' | 'webkit';
+  auth?: AuthConfig;
 }
 
 export class BrowserManager {
   private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
+  // One context per auth config, so switching projects never closes pages
+  // another tool call is still capturing with
+  private contexts = new Map<string, BrowserContext>();
+  // Pages being opened per context; those contexts are not idle yet
+  private pending = new Map<string, number>();
   private config: BrowserConfig;
 
   constructor(config: BrowserConfig = {}) {
@@ -44,16 +51,60 @@ export class BrowserManager {
       ],
     });
 
-    this.context = await this.browser.newContext({
+    await this.getContext(this.config.auth);
+  }
+
+  // Context for an auth config, created on first use
+  private async getContext(auth: AuthConfig = {}): Promise<BrowserContext> {
+    const key = this.authKey(auth);
+    const existing = this.contexts.get(key);
+    if (existing) return existing;
+
+    const context = await this.browser!.newContext({
       viewport: this.config.viewport,
       userAgent: this.config.userAgent,
       deviceScaleFactor: this.config.deviceScaleFactor,
       ignoreHTTPSErrors: true,
+      storageState: auth.storageState,
+      extraHTTPHeaders: auth.headers,
+      httpCredentials: auth.httpCredentials,
     });
 
+    if (auth.cookies?.length) {
+      await context.addCookies(auth.cookies.map(cookie => ({
+        ...cookie,
+        // Playwright needs either a url or a domain/path pair
+        path: cookie.url ? undefined : cookie.path || '/',
+      })));
+    }
+
     // Set reasonable timeouts
-    this.context.setDefaultTimeout(this.config.timeout!);
-    this.context.setDefaultNavigationTimeout(this.config.timeout!);
+    context.setDefaultTimeout(this.config.timeout!);
+    context.setDefaultNavigationTimeout(this.config.timeout!);
+
+    // Another call may have created one for the same auth meanwhile
+    const raced = this.contexts.get(key);
+    if (raced) {
+      await context.close();
+      return raced;
+    }
+    this.contexts.set(key, context);
+    return context;
+  }
+
+  private authKey(auth: AuthConfig | undefined): string {
+    return JSON.stringify(auth || {});
+  }
+
+  // Contexts of other auth configs than the default one are closed with their last page
+  private async closeIdleContexts(): Promise<void> {
+    const defaultKey = this.authKey(this.config.auth);
+    for (const [key, context] of Array.from(this.contexts)) {
+      if (key !== defaultKey && !this.pending.get(key) && context.pages().length === 0) {
+        this.contexts.delete(key);
+        await context.close();
+      }
+    }
   }
 
   private getBrowserType() {
@@ -68,12 +119,28 @@ export class BrowserManager {
     }
   }
 
-  async createPage(): Promise<Page> {
-    if (!this.context) {
+  /**
+   * Opens a page in the context for the given auth config, the manager's own
+   * when none is given. Calls with different auth can run side by side.
+   */
+  async createPage(auth: AuthConfig | undefined = this.config.auth): Promise<Page> {
+    if (!this.browser) {
       await this.initialize();
     }
 
-    const page = await this.context!.newPage();
+    const key = this.authKey(auth);
+    this.pending.set(key, (this.pending.get(key) || 0) + 1);
+    let page: Page;
+    try {
+      page = await (await this.getContext(auth)).newPage();
+    } finally {
+      const remaining = this.pending.get(key)! - 1;
+      if (remaining) this.pending.set(key, remaining);
+      else this.pending.delete(key);
+    }
+    page.on('close', () => {
+      void this.closeIdleContexts().catch(() => {});
+    });
     
     // Enable console logging for debugging
     page.on('console', (msg: ConsoleMessage) => {
@@ -99,8 +166,8 @@ export class BrowserManager {
   }
 
   async setUserAgent(userAgent: string): Promise<void> {
-    if (this.context) {
-      await this.context.setExtraHTTPHeaders({
+    for (const context of this.contexts.values()) {
+      await context.setExtraHTTPHeaders({
         'User-Agent': userAgent,
       });
     }
@@ -108,10 +175,10 @@ export class BrowserManager {
   }
 
   async close(): Promise<void> {
-    if (this.context) {
-      await this.context.close();
-      this.context = null;
+    for (const context of this.contexts.values()) {
+      await context.close();
     }
+    this.contexts.clear();
     if (this.browser) {
       await this.browser.close();
       this.browser = null;
@@ -123,7 +190,7 @@ export class BrowserManager {
   }
 
   isInitialized(): boolean {
-    return this.browser !== null && this.context !== null;
+    return this.browser !== null && this.contexts.size > 0;
   }
 
   getConfig(): BrowserConfig {
@@ -0,0 +1,379 @@
+import type { CDPSession, Locator, Page } from 'playwright';
+import { CSSParser } from './css-parser.js';
+import { SourceMapResolver, type AuthoredLocation, type ParsedSourceMap } from './source-map-resolver.js';
+import type { CascadeOrigin, LayoutAnalysis } from '../types/index.js';
+
+// Minimal shapes of the Chrome DevTools Protocol CSS domain objects we read
+interface CDPProperty {
+  name: string;
+  value: string;
+  important?: boolean;
+  disabled?: boolean;
+  parsedOk?: boolean;
+  range?: { startLine: number; startColumn: number };
+  longhandProperties?: Array<{ name: string; value: string }>;
+}
+
+interface CDPStyle {
+  styleSheetId?: string;
+  cssProperties: CDPProperty[];
+  range?: { startLine: number; startColumn: number };
+}
+
+interface CDPRuleMatch {
+  rule: {
+    styleSheetId?: string;
+    origin: 'injected' | 'user-agent' | 'inspector' | 'regular';
+    selectorList: {
+      text: string;
+      selectors: Array<{ text: string; specificity?: { a: number; b: number; c: number } }>;
+    };
+    style: CDPStyle;
+  };
+  matchingSelectors: number[];
+}
+
+interface CDPStyleSheetHeader {
+  styleSheetId: string;
+  sourceURL: string;
+  sourceMapURL?: string;
+  isInline: boolean;
+  startLine: number;
+  startColumn: number;
+}
+
+interface CascadeCandidate {
+  property: string;
+  value: string;
+  important: boolean;
+  source: CascadeOrigin['source'];
+  specificity: number;
+  selector?: string;
+  stylesheetUrl?: string;
+  line?: number;
+  authored?: AuthoredLocation;
+}
+
+// Authored location of a declaration of a stylesheet, when it has a source map
+type AuthoredLocator = (styleSheetId: string | undefined, property: CDPProperty) => AuthoredLocation | undefined;
+
+export interface CascadeAnalysis {
+  cascadeOrigin: CascadeOrigin[];
+  layoutAnalysis: LayoutAnalysis;
+}
+
+const INHERITABLE_PROPERTIES = new Set([
+  'color', 'cursor', 'direction', 'font-family', 'font-size', 'font-style',
+  'font-variant', 'font-weight', 'letter-spacing', 'line-height', 'list-style-type',
+  'list-style-position', 'quotes', 'text-align', 'text-indent', 'text-transform',
+  'visibility', 'white-space', 'word-break', 'word-spacing', 'overflow-wrap',
+]);
+
+const ORIGIN_SOURCES: Record<CDPRuleMatch['rule']['origin'], CascadeOrigin['source']> = {
+  'user-agent': 'user-agent',
+  injected: 'user',
+  inspector: 'author',
+  regular: 'author',
+};
+
+export class CascadeAnalyzer {
+  /**
+   * Resolves the winning declaration for every property set on the element and
+   * the box model of the element through the Chrome DevTools Protocol.
+   * Declarations are traced to their authored files through source maps;
+   * paths are made relative to `projectPath` when given.
+   * Returns null for non-Chromium browsers.
+   */
+  static async analyze(page: Page, element: Locator, projectPath?: string): Promise<CascadeAnalysis | null> {
+    if (page.context().browser()?.browserType().name() !== 'chromium') {
+      return null;
+    }
+
+    const session = await page.context().newCDPSession(page);
+
+    try {
+      const headers = new Map<string, CDPStyleSheetHeader>();
+      // Existing stylesheets are announced as soon as the CSS domain is enabled
+      session.on('CSS.styleSheetAdded', ({ header }) => {
+        headers.set(header.styleSheetId, header);
+      });
+
+      await session.send('DOM.enable');
+      await session.send('CSS.enable');
+
+      const nodeId = await this.requestNodeId(session, element);
+      if (!nodeId) {
+        return null;
+      }
+
+      const matched = await session.send('CSS.getMatchedStylesForNode', { nodeId });
+      const locate = await this.createAuthoredLocator(page, matched, headers, projectPath);
+      const cascadeOrigin = this.resolveCascade(matched, headers, locate);
+      const layoutAnalysis = await this.analyzeLayout(session, nodeId);
+
+      return { cascadeOrigin, layoutAnalysis };
+    } catch (error) {
+      console.error('Cascade analysis failed:', error);
+      return null;
+    } finally {
+      await session.detach().catch(() => undefined);
+    }
+  }
+
+  /**
+   * DevTools node id of the element a locator resolves to, so CDP calls act on
+   * the same element as the locator, Playwright-only selectors included.
+   * Needs DOM.enable on the session.
+   */
+  static async requestNodeId(session: CDPSession, element: Locator): Promise<number | null> {
+    const handle = await element.elementHandle({ timeout: 5000 }).catch(() => null);
+    if (!handle) return null;
+
+    // Handles cannot be passed to CDP, so the element is parked on window for
+    // the session's own Runtime.evaluate to pick up
+    const key = `__uxplainNode${Math.random().toString(36).slice(2)}`;
+    try {
+      await handle.evaluate((el, key) => { (window as any)[key] = el; }, key);
+      const { result } = await session.send('Runtime.evaluate', { expression: `window[${JSON.stringify(key)}]` });
+      if (!result.objectId) return null;
+
+      // requestNode only works once the document has been requested
+      await session.send('DOM.getDocument', { depth: 0 });
+      const { nodeId } = await session.send('DOM.requestNode', { objectId: result.objectId });
+      return nodeId || null;
+    } finally {
+      await handle.evaluate((_el, key) => { delete (window as any)[key]; }, key).catch(() => undefined);
+      await handle.dispose();
+    }
+  }
+
+  private static resolveCascade(
+    matched: {
+      inlineStyle?: CDPStyle;
+      attributesStyle?: CDPStyle;
+      matchedCSSRules?: CDPRuleMatch[];
+      inherited?: Array<{ inlineStyle?: CDPStyle; matchedCSSRules: CDPRuleMatch[] }>;
+    },
+    headers: Map<string, CDPStyleSheetHeader>,
+    locate: AuthoredLocator
+  ): CascadeOrigin[] {
+    const own = this.winningDeclarations(
+      this.collectCandidates(matched.attributesStyle, matched.matchedCSSRules || [], matched.inlineStyle, headers, locate)
+    );
+
+    const result: CascadeOrigin[] = Array.from(own.values()).map(candidate => this.toOrigin(candidate));
+
+    // Inherited entries are ordered from the parent upwards, so the first
+    // ancestor that declares an inheritable property is the one that wins
+    (matched.inherited || []).forEach((entry, index) => {
+      const ancestor = this.winningDeclarations(
+        this.collectCandidates(undefined, entry.matchedCSSRules || [], entry.inlineStyle, headers, locate)
+      );
+
+      for (const [property, candidate] of ancestor) {
+        if (!INHERITABLE_PROPERTIES.has(property) || own.has(property)) continue;
+        if (result.some(origin => origin.property === property)) continue;
+
+        result.push({ ...this.toOrigin(candidate), inheritedDepth: index + 1 });
+      }
+    });
+
+    return result.sort((a, b) => a.property.localeCompare(b.property));
+  }
+
+  private static collectCandidates(
+    attributesStyle: CDPStyle | undefined,
+    rules: CDPRuleMatch[],
+    inlineStyle: CDPStyle | undefined,
+    headers: Map<string, CDPStyleSheetHeader>,
+    locate: AuthoredLocator
+  ): CascadeCandidate[] {
+    const candidates: CascadeCandidate[] = [];
+
+    // Presentational attributes (e.g. width="100") rank below every author rule
+    if (attributesStyle) {
+      candidates.push(...this.expandStyle(attributesStyle, { source: 'author', specificity: 0, selector: '[presentational attributes]' }));
+    }
+
+    // Matched rules arrive in ascending cascade order
+    for (const match of rules) {
+      const { rule } = match;
+      const header = rule.styleSheetId ? headers.get(rule.styleSheetId) : undefined;
+      const matchingSelectors = match.matchingSelectors
+        .map(index => rule.selectorList.selectors[index])
+        .filter(Boolean);
+
+      const specificity = Math.max(0, ...matchingSelectors.map(sel => sel.specificity
+        ? sel.specificity.a * 100 + sel.specificity.b * 10 + sel.specificity.c
+        : CSSParser.calculateSpecificity(sel.text)));
+
+      candidates.push(...this.expandStyle(rule.style, {
+        source: ORIGIN_SOURCES[rule.origin],
+        specificity,
+        selector: matchingSelectors.map(sel => sel.text).join(', ') || rule.selectorList.text,
+        stylesheetUrl: header ? header.sourceURL || (header.isInline ? '(inline <style>)' : undefined) : undefined,
+        line: header && rule.style.range ? header.startLine + rule.style.range.startLine + 1 : undefined,
+      }, property => locate(rule.styleSheetId, property)));
+    }
+
+    if (inlineStyle) {
+      candidates.push(...this.expandStyle(inlineStyle, { source: 'inline', specificity: 1000, selector: 'style attribute' }));
+    }
+
+    return candidates;
+  }
+
+  private static expandStyle(
+    style: CDPStyle,
+    origin: Omit<CascadeCandidate, 'property' | 'value' | 'important'>,
+    locate?: (property: CDPProperty) => AuthoredLocation | undefined
+  ): CascadeCandidate[] {
+    const candidates: CascadeCandidate[] = [];
+
+    for (const prop of style.cssProperties) {
+      if (prop.disabled || prop.parsedOk === false) continue;
+
+      // Shorthands are reported per longhand so "padding-top" can be traced
+      // back to a "padding" declaration
+      const entries = prop.longhandProperties?.length ? prop.longhandProperties : [prop];
+      const authored = locate?.(prop);
+      for (const entry of entries) {
+        candidates.push({
+          ...origin,
+          authored,
+          property: entry.name,
+          value: entry.value,
+          important: !!prop.important || /!important\s*$/.test(prop.value),
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  private static winningDeclarations(candidates: CascadeCandidate[]): Map<string, CascadeCandidate> {
+    const winners = new Map<string, CascadeCandidate>();
+
+    for (const candidate of candidates) {
+      const current = winners.get(candidate.property);
+      // Later declarations win unless an earlier one is !important and this one is not
+      if (!current || candidate.important || !current.important) {
+        winners.set(candidate.property, candidate);
+      }
+    }
+
+    return winners;
+  }
+
+  private static toOrigin(candidate: CascadeCandidate): CascadeOrigin {
+    return {
+      property: candidate.property,
+      value: candidate.value.replace(/\s*!important\s*$/, ''),
+      source: candidate.source,
+      specificity: candidate.specificity,
+      selector: candidate.selector,
+      stylesheetUrl: candidate.stylesheetUrl,
+      line: candidate.line,
+      authored: candidate.authored,
+      important: candidate.important || undefined,
+    };
+  }
+
+  // Loads the source maps of the stylesheets whose rules matched
+  private static async createAuthoredLocator(
+    page: Page,
+    matched: { matchedCSSRules?: CDPRuleMatch[]; inherited?: Array<{ matchedCSSRules: CDPRuleMatch[] }> },
+    headers: Map<string, CDPStyleSheetHeader>,
+    projectPath?: string
+  ): Promise<AuthoredLocator> {
+    const rules = [...(matched.matchedCSSRules || []), ...(matched.inherited || []).flatMap(entry => entry.matchedCSSRules || [])];
+    const styleSheetIds = new Set(rules.map(match => match.rule.styleSheetId).filter((id): id is string => !!id));
+    const sourceMaps = new Map<string, ParsedSourceMap>();
+
+    for (const styleSheetId of styleSheetIds) {
+      const header = headers.get(styleSheetId);
+      if (!header?.sourceMapURL) continue;
+      const sourceMap = await SourceMapResolver.load(page, header.sourceMapURL, header.sourceURL);
+      if (sourceMap) sourceMaps.set(styleSheetId, sourceMap);
+    }
+
+    return (styleSheetId, property) => {
+      const sourceMap = styleSheetId ? sourceMaps.get(styleSheetId) : undefined;
+      if (!sourceMap || !property.range) return undefined;
+
+      const position = SourceMapResolver.originalPosition(sourceMap, property.range.startLine, property.range.startColumn);
+      if (!position) return undefined;
+
+      return {
+        filePath: SourceMapResolver.toFilePath(position.source, sourceMap.url, projectPath),
+        line: position.line,
+        column: position.column,
+      };
+    };
+  }
+
+  private static async analyzeLayout(session: CDPSession, nodeId: number): Promise<LayoutAnalysis> {
+    const { computedStyle } = await session.send('CSS.getComputedStyleForNode', { nodeId });
+    const styles = new Map(computedStyle.map(entry => [entry.name, entry.value]));
+    const style = (name: string) => styles.get(name) || '';
+
+    const { model } = await session.send('DOM.getBoxModel', { nodeId });
+    // Quads are [x1, y1, x2, y2, x3, y3, x4, y4] clockwise from the top-left corner
+    const edges = (outer: number[], inner: number[]) =>
+      [inner[1] - outer[1], outer[2] - inner[2], outer[5] - inner[5], inner[0] - outer[0]]
+        .map(value => `${Math.round(value * 100) / 100}px`)
+        .join(' ');
+
+    const display = style('display');
+    const layout: LayoutAnalysis = {
+      position: style('position'),
+      display,
+      boxModel: {
+        margin: edges(model.margin, model.border),
+        border: edges(model.border, model.padding),
+        padding: edges(model.padding, model.content),
+        content: {
+          x: model.content[0],
+          y: model.content[1],
+          width: model.content[2] - model.content[0],
+          height: model.content[5] - model.content[1],
+        },
+      },
+    };
+
+    if (display.includes('flex')) {
+      layout.flexbox = {
+        direction: style('flex-direction'),
+        wrap: style('flex-wrap'),
+        justifyContent: style('justify-content'),
+        alignItems: style('align-items'),
+        alignContent: style('align-content'),
+        gap: `${style('row-gap')} ${style('column-gap')}`,
+      };
+    }
+
+    if (display.includes('grid')) {
+      layout.grid = {
+        templateColumns: style('grid-template-columns'),
+        templateRows: style('grid-template-rows'),
+        gap: `${style('row-gap')} ${style('column-gap')}`,
+        areas: style('grid-template-areas'),
+        autoFlow: style('grid-auto-flow'),
+        justifyItems: style('justify-items'),
+        alignItems: style('align-items'),
+      };
+    }
+
+    const float = style('float');
+    if (float && float !== 'none') {
+      layout.float = float;
+    }
+
+    const zIndex = parseInt(style('z-index'), 10);
+    if (!isNaN(zIndex)) {
+      layout.zIndex = zIndex;
+    }
+
+    return layout;
+  }
+}
@@ -0,0 +1,277 @@
+import type { Page } from 'playwright';
+import sharp from 'sharp';
+
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface ContrastResult {
+  foreground: string;
+  background: string;
+  ratio: number;
+  level: 'AA' | 'AAA' | 'fail';
+  largeText: boolean;
+  backgroundSource: 'computed' | 'screenshot';
+}
+
+interface BackgroundLayer {
+  color: string;
+  hasImage: boolean;
+}
+
+interface TextSample {
+  selector: string;
+  color: string;
+  fontSize: number;
+  fontWeight: number;
+  layers: BackgroundLayer[]; // from the element itself up to <html>
+}
+
+// The canvas behind a page without an opaque background is white
+const CANVAS: RGBA = { r: 255, g: 255, b: 255, a: 1 };
+
+// Screenshots taken per batch when backgrounds have to be sampled
+const MAX_SAMPLED_ELEMENTS = 20;
+
+export class ColorContrast {
+  /**
+   * Computes the WCAG 2 contrast ratio of the text in each element against
+   * its effective background. Selectors that match nothing, or elements
+   * without text, are left out of the result.
+   */
+  static async analyze(page: Page, selectors: string[]): Promise<Map<string, ContrastResult>> {
+    const results = new Map<string, ContrastResult>();
+    const samples = await this.collectTextSamples(page, Array.from(new Set(selectors)));
+    let sampled = 0;
+
+    for (const sample of samples) {
+      const foreground = this.parseColor(sample.color);
+      if (!foreground) continue;
+
+      const largeText = this.isLargeText(sample.fontSize, sample.fontWeight);
+      const resolved = this.resolveBackground(sample.layers);
+
+      if (resolved === 'image') {
+        if (sampled >= MAX_SAMPLED_ELEMENTS) continue;
+        sampled++;
+
+        const result = await this.contrastAgainstScreenshot(page, sample.selector, foreground, largeText);
+        if (result) {
+          results.set(sample.selector, result);
+        }
+        continue;
+      }
+
+      if (!resolved) continue;
+
+      const text = this.composite(foreground, resolved);
+      const ratio = this.contrastRatio(text, resolved);
+      results.set(sample.selector, {
+        foreground: this.formatColor(text),
+        background: this.formatColor(resolved),
+        ratio: Math.round(ratio * 100) / 100,
+        level: this.getLevel(ratio, largeText),
+        largeText,
+        backgroundSource: 'computed',
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Parses computed color values: rgb()/rgba() in both the comma and the
+   * space-separated syntax, plus "transparent".
+   */
+  static parseColor(value: string): RGBA | null {
+    const color = value.trim().toLowerCase();
+    if (color === 'transparent') {
+      return { r: 0, g: 0, b: 0, a: 0 };
+    }
+
+    const match = color.match(/^rgba?\(([^)]+)\)$/);
+    if (!match) return null;
+
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+
+    const channel = (part: string) => part.endsWith('%')
+      ? parseFloat(part) * 2.55
+      : parseFloat(part);
+    const alpha = parts[3] === undefined
+      ? 1
+      : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+
+    const rgba = { r: channel(parts[0]), g: channel(parts[1]), b: channel(parts[2]), a: alpha };
+    return Object.values(rgba).some(isNaN) ? null : rgba;
+  }
+
+  /**
+   * Source-over compositing of a (possibly translucent) color on an opaque one.
+   */
+  static composite(top: RGBA, bottom: RGBA): RGBA {
+    const alpha = Math.max(0, Math.min(1, top.a));
+    return {
+      r: top.r * alpha + bottom.r * (1 - alpha),
+      g: top.g * alpha + bottom.g * (1 - alpha),
+      b: top.b * alpha + bottom.b * (1 - alpha),
+      a: 1,
+    };
+  }
+
+  static relativeLuminance(color: RGBA): number {
+    const linear = (channel: number) => {
+      const c = channel / 255;
+      return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * linear(color.r) + 0.7152 * linear(color.g) + 0.0722 * linear(color.b);
+  }
+
+  static contrastRatio(a: RGBA, b: RGBA): number {
+    const l1 = this.relativeLuminance(a);
+    const l2 = this.relativeLuminance(b);
+    return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+  }
+
+  /**
+   * Large text is at least 18pt, or 14pt when bold (WCAG 2 definition).
+   */
+  static isLargeText(fontSizePx: number, fontWeight: number): boolean {
+    return fontSizePx >= 24 || (fontSizePx >= 18.66 && fontWeight >= 700);
+  }
+
+  static getLevel(ratio: number, largeText: boolean): ContrastResult['level'] {
+    const [aa, aaa] = largeText ? [3, 4.5] : [4.5, 7];
+    if (ratio >= aaa) return 'AAA';
+    if (ratio >= aa) return 'AA';
+    return 'fail';
+  }
+
+  static formatColor(color: RGBA): string {
+    return `rgb(${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)})`;
+  }
+
+  /**
+   * Stacks background colors from the element outwards until an opaque one
+   * is found. Returns 'image' when a background image or gradient shows
+   * through, since the color behind the text can then only be measured.
+   */
+  private static resolveBackground(layers: BackgroundLayer[]): RGBA | 'image' | null {
+    const stack: RGBA[] = [];
+
+    for (const layer of layers) {
+      if (layer.hasImage) return 'image';
+
+      const color = this.parseColor(layer.color);
+      if (!color) return null;
+      if (color.a === 0) continue;
+
+      stack.push(color);
+      if (color.a >= 1) break;
+    }
+
+    return stack.reduceRight((below, layer) => this.composite(layer, below), CANVAS);
+  }
+
+  private static async collectTextSamples(page: Page, selectors: string[]): Promise<TextSample[]> {
+    return await page.evaluate((selectors) => {
+      const samples: TextSample[] = [];
+
+      for (const selector of selectors) {
+        let el: Element | null = null;
+        try {
+          el = document.querySelector(selector);
+        } catch {
+          continue;
+        }
+        if (!el) continue;
+
+        // Form fields render their value rather than text nodes
+        const text = ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName)
+          ? (el as HTMLInputElement).value
+          : el.textContent;
+        if (!text || !text.trim()) continue;
+
+        const styles = window.getComputedStyle(el);
+        const layers: BackgroundLayer[] = [];
+
+        let current: Element | null = el;
+        while (current) {
+          const cs = window.getComputedStyle(current);
+          layers.push({
+            color: cs.backgroundColor,
+            hasImage: cs.backgroundImage !== 'none',
+          });
+          current = current.parentElement;
+        }
+
+        samples.push({
+          selector,
+          color: styles.color,
+          fontSize: parseFloat(styles.fontSize),
+          fontWeight: parseInt(styles.fontWeight, 10) || 400,
+          layers,
+        });
+      }
+
+      return samples;
+    }, selectors);
+  }
+
+  /**
+   * Hides the text, screenshots the element and measures the contrast against
+   * the background pixels. The 5th percentile is reported rather than the
+   * single worst pixel so borders and icons do not decide the result.
+   */
+  private static async contrastAgainstScreenshot(
+    page: Page,
+    selector: string,
+    foreground: RGBA,
+    largeText: boolean
+  ): Promise<ContrastResult | null> {
+    const element = page.locator(selector).first();
+
+    const style = await page.addStyleTag({
+      content: '[data-uxp-contrast], [data-uxp-contrast] * { color: transparent !important; text-shadow: none !important; -webkit-text-stroke: 0 !important; }',
+    });
+
+    try {
+      await element.evaluate(el => el.setAttribute('data-uxp-contrast', ''));
+      const buffer = await element.screenshot({ type: 'png', animations: 'disabled', timeout: 5000 });
+
+      const { data, info } = await sharp(buffer)
+        .flatten({ background: '#ffffff' })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const pixels: Array<{ color: RGBA; ratio: number }> = [];
+      for (let i = 0; i < data.length; i += info.channels) {
+        const background = { r: data[i], g: data[i + 1], b: data[i + 2], a: 1 };
+        pixels.push({ color: background, ratio: this.contrastRatio(this.composite(foreground, background), background) });
+      }
+
+      if (pixels.length === 0) return null;
+
+      pixels.sort((a, b) => a.ratio - b.ratio);
+      const worst = pixels[Math.floor(pixels.length * 0.05)];
+
+      return {
+        foreground: this.formatColor(this.composite(foreground, worst.color)),
+        background: this.formatColor(worst.color),
+        ratio: Math.round(worst.ratio * 100) / 100,
+        level: this.getLevel(worst.ratio, largeText),
+        largeText,
+        backgroundSource: 'screenshot',
+      };
+    } catch (error) {
+      console.warn(`Could not sample background of ${selector}:`, (error as Error).message);
+      return null;
+    } finally {
+      await element.evaluate(el => el.removeAttribute('data-uxp-contrast')).catch(() => undefined);
+      await style.evaluate(node => (node as Element).remove()).catch(() => undefined);
+    }
+  }
+}
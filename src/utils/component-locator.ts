@@ -0,0 +1,136 @@
+import type { Page } from 'playwright';
+import type { BoundingBox, ComponentIndex } from '../tools/project-indexer.js';
+
+export interface LocatedElement {
+  selector: string; // candidate selector that matched
+  marker: string; // value of the data-uxp-capture attribute set on the element
+  bounds: BoundingBox; // document coordinates
+}
+
+export const CAPTURE_ATTRIBUTE = 'data-uxp-capture';
+
+/**
+ * Finds rendered instances of indexed components in a live page. Without
+ * runtime instrumentation this relies on what the markup exposes: element
+ * selectors (Angular), data-component/data-testid attributes, class names
+ * derived from the component name and the class list of its root element.
+ */
+export class ComponentLocator {
+  // Most specific selectors first
+  static candidateSelectors(component: ComponentIndex): string[] {
+    const name = component.name;
+    const kebab = name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+    const candidates = [
+      ...(component.selectors || []),
+      `[data-component="${name}"]`,
+      `[data-testid="${name}"]`,
+      `[data-testid="${kebab}"]`,
+      `.${this.escapeClass(kebab)}`,
+      // CSS modules (Card_root__x1y2) and styled-components (Card__Wrapper-sc-...)
+      `[class^="${name}_"]`,
+      `[class*=" ${name}_"]`,
+    ];
+
+    const rootClasses = this.findRootClasses(component);
+    if (rootClasses.length > 0) {
+      candidates.push(rootClasses.map(className => `.${this.escapeClass(className)}`).join(''));
+    }
+
+    return Array.from(new Set(candidates));
+  }
+
+  /**
+   * Marks the first visible match of each component's candidates with
+   * CAPTURE_ATTRIBUTE so it can be addressed with a locator afterwards.
+   */
+  static async locate(page: Page, candidates: Record<string, string[]>): Promise<Record<string, LocatedElement>> {
+    return page.evaluate(({ candidates, attribute }) => {
+      document.querySelectorAll(`[${attribute}]`).forEach(el => el.removeAttribute(attribute));
+
+      const isVisible = (el: Element) => {
+        const rect = el.getBoundingClientRect();
+        const style = window.getComputedStyle(el);
+        return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+      };
+
+      const located: Record<string, { selector: string; marker: string; bounds: { x: number; y: number; width: number; height: number } }> = {};
+      let counter = 0;
+
+      for (const [id, selectors] of Object.entries(candidates)) {
+        for (const selector of selectors) {
+          let matches: Element[];
+          try {
+            matches = Array.from(document.querySelectorAll(selector));
+          } catch (error) {
+            continue; // Invalid selector
+          }
+
+          const element = matches.find(isVisible);
+          if (!element) continue;
+
+          const rect = element.getBoundingClientRect();
+          const marker = String(counter++);
+          element.setAttribute(attribute, marker);
+          located[id] = {
+            selector,
+            marker,
+            bounds: {
+              x: Math.round(rect.x + window.scrollX),
+              y: Math.round(rect.y + window.scrollY),
+              width: Math.round(rect.width),
+              height: Math.round(rect.height),
+            },
+          };
+          break;
+        }
+      }
+
+      return located;
+    }, { candidates, attribute: CAPTURE_ATTRIBUTE });
+  }
+
+  /**
+   * Marks the element a Storybook story rendered: the single child of the
+   * story root (#storybook-root from Storybook 7, #root before), or the root.
+   */
+  static async locateStoryRoot(page: Page): Promise<LocatedElement | null> {
+    return page.evaluate((attribute) => {
+      const root = document.querySelector('#storybook-root') || document.querySelector('#root');
+      if (!root) return null;
+
+      const element = root.children.length === 1 ? root.children[0] : root;
+      const rect = element.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return null;
+
+      element.setAttribute(attribute, 'story');
+      return {
+        selector: root.id === 'root' ? '#root' : '#storybook-root',
+        marker: 'story',
+        bounds: {
+          x: Math.round(rect.x + window.scrollX),
+          y: Math.round(rect.y + window.scrollY),
+          width: Math.round(rect.width),
+          height: Math.round(rect.height),
+        },
+      };
+    }, CAPTURE_ATTRIBUTE);
+  }
+
+  // Static class list of the first element in the component's markup
+  private static findRootClasses(component: ComponentIndex): string[] {
+    let source = component.sourceCode;
+    if (component.location && /\.[jt]sx?$/.test(component.filePath)) {
+      source = source.split('\n').slice(component.location.startLine - 1, component.location.endLine).join('\n');
+    } else if (/\.vue$/.test(component.filePath)) {
+      source = source.match(/<template[^>]*>([\s\S]*)<\/template>/)?.[1] || '';
+    }
+
+    const match = source.match(/<[a-z][\w-]*\s[^>]*?\b(?:className|class)\s*=\s*(?:"([^"{}$]+)"|'([^'{}$]+)'|\{\s*["'`]([^"'`{}$]+)["'`]\s*\})/);
+    const classList = match?.[1] || match?.[2] || match?.[3] || '';
+    return classList.split(/\s+/).filter(Boolean);
+  }
+
+  private static escapeClass(className: string): string {
+    return className.replace(/^(\d)/, '\\3$1 ').replace(/([^\w-])/g, '\\$1');
+  }
+}
@@ -0,0 +1,554 @@
+import ts from 'typescript';
+import type { PropDefinition } from '../tools/project-indexer.js';
+
+export interface ParsedComponent {
+  name: string;
+  exportNames: string[]; // 'default' for the default export
+  kind: 'function' | 'arrow' | 'class' | 'forwardRef' | 'memo';
+  props: PropDefinition[];
+  description?: string;
+  sourceCode: string;
+  startLine: number;
+  endLine: number;
+}
+
+export interface ParsedModule {
+  components: ParsedComponent[];
+  imports: string[];
+}
+
+interface ComponentCandidate {
+  name: string;
+  kind: ParsedComponent['kind'];
+  node: ts.Node; // the whole declaration, used for line range and JSDoc
+  implementation: ts.FunctionLikeDeclaration | ts.ClassLikeDeclaration;
+  propsType?: ts.TypeNode;
+}
+
+const WRAPPER_FUNCTIONS: Record<string, ParsedComponent['kind']> = {
+  forwardRef: 'forwardRef',
+  memo: 'memo',
+};
+
+const FC_TYPES = new Set(['FC', 'FunctionComponent', 'VFC', 'VoidFunctionComponent']);
+const CLASS_BASES = new Set(['Component', 'PureComponent']);
+
+export class ComponentParser {
+  /**
+   * Finds every exported React component in a TS/JS module along with its
+   * props. Types are resolved syntactically within the file; props typed with
+   * imported types are reported by name only where destructuring reveals them.
+   */
+  static parse(sourceCode: string, fileName: string): ParsedModule {
+    const sourceFile = ts.createSourceFile(
+      fileName,
+      sourceCode,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(fileName)
+    );
+
+    const imports: string[] = [];
+    const candidates = new Map<string, ComponentCandidate>();
+    const exported = new Map<string, Set<string>>(); // local name -> export names
+    const defaultProps = new Map<string, ts.ObjectLiteralExpression>();
+    const components: ParsedComponent[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        imports.push(statement.moduleSpecifier.text);
+        continue;
+      }
+
+      if (ts.isExportDeclaration(statement)) {
+        if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+          imports.push(statement.moduleSpecifier.text);
+        } else if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+          for (const element of statement.exportClause.elements) {
+            this.addExport(exported, (element.propertyName || element.name).text, element.name.text);
+          }
+        }
+        continue;
+      }
+
+      const isExported = this.hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+      const isDefault = this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+      if (ts.isFunctionDeclaration(statement) && statement.body) {
+        const name = statement.name?.text || this.nameFromFile(fileName);
+        if (this.isComponentName(name) && this.returnsJsx(statement)) {
+          candidates.set(name, {
+            name,
+            kind: 'function',
+            node: statement,
+            implementation: statement,
+            propsType: statement.parameters[0]?.type,
+          });
+          if (isExported) this.addExport(exported, name, isDefault ? 'default' : name);
+        }
+        continue;
+      }
+
+      if (ts.isClassDeclaration(statement)) {
+        const name = statement.name?.text || this.nameFromFile(fileName);
+        const propsType = this.getClassPropsType(statement);
+        if (this.isComponentName(name) && propsType !== null) {
+          candidates.set(name, { name, kind: 'class', node: statement, implementation: statement, propsType });
+          const staticDefaults = this.getStaticDefaultProps(statement);
+          if (staticDefaults) defaultProps.set(name, staticDefaults);
+          if (isExported) this.addExport(exported, name, isDefault ? 'default' : name);
+        }
+        continue;
+      }
+
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue;
+
+          const name = declaration.name.text;
+          if (!this.isComponentName(name)) continue;
+
+          const candidate = this.candidateFromExpression(name, declaration.initializer, statement, candidates);
+          if (!candidate) continue;
+
+          // const Button: React.FC<ButtonProps> = ...
+          candidate.propsType = candidate.propsType || this.getFcPropsType(declaration.type);
+          candidates.set(name, candidate);
+          if (isExported) this.addExport(exported, name, name);
+        }
+        continue;
+      }
+
+      if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        const expression = this.unwrapExpression(statement.expression);
+        if (ts.isIdentifier(expression)) {
+          this.addExport(exported, expression.text, 'default');
+        } else {
+          const name = this.nameFromFile(fileName);
+          const candidate = this.candidateFromExpression(name, expression, statement, candidates);
+          if (candidate) {
+            candidates.set(`default:${name}`, candidate);
+            this.addExport(exported, `default:${name}`, 'default');
+          }
+        }
+        continue;
+      }
+
+      // Button.defaultProps = { ... }
+      if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)) {
+        const { left, right, operatorToken } = statement.expression;
+        if (
+          operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+          ts.isPropertyAccessExpression(left) &&
+          ts.isIdentifier(left.expression) &&
+          left.name.text === 'defaultProps' &&
+          ts.isObjectLiteralExpression(right)
+        ) {
+          defaultProps.set(left.expression.text, right);
+        }
+      }
+    }
+
+    for (const [localName, exportNames] of exported) {
+      const candidate = candidates.get(localName);
+      if (!candidate) continue;
+
+      const start = sourceFile.getLineAndCharacterOfPosition(candidate.node.getStart(sourceFile));
+      const end = sourceFile.getLineAndCharacterOfPosition(candidate.node.getEnd());
+
+      // export { Local as Public } is known to consumers by its public name
+      const aliases = Array.from(exportNames).filter(exportName => exportName !== 'default');
+      const name = aliases.length === 0 || aliases.includes(candidate.name) ? candidate.name : aliases[0];
+
+      components.push({
+        name,
+        exportNames: Array.from(exportNames),
+        kind: candidate.kind,
+        props: this.resolveProps(candidate, defaultProps.get(candidate.name), sourceFile),
+        description: this.getJSDocDescription(candidate.node),
+        sourceCode: candidate.node.getText(sourceFile),
+        startLine: start.line + 1,
+        endLine: end.line + 1,
+      });
+    }
+
+    return { components, imports };
+  }
+
+  private static addExport(exported: Map<string, Set<string>>, localName: string, exportName: string): void {
+    const names = exported.get(localName) || new Set<string>();
+    names.add(exportName);
+    exported.set(localName, names);
+  }
+
+  static getScriptKind(fileName: string): ts.ScriptKind {
+    if (fileName.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (fileName.endsWith('.jsx')) return ts.ScriptKind.JSX;
+    if (fileName.endsWith('.ts')) return ts.ScriptKind.TS;
+    // Plain .js files frequently contain JSX as well
+    return ts.ScriptKind.JSX;
+  }
+
+  private static candidateFromExpression(
+    name: string,
+    initializer: ts.Expression,
+    declaration: ts.Node,
+    candidates: Map<string, ComponentCandidate>
+  ): ComponentCandidate | null {
+    const expression = this.unwrapExpression(initializer);
+
+    if ((ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) && this.returnsJsx(expression)) {
+      return {
+        name,
+        kind: ts.isArrowFunction(expression) ? 'arrow' : 'function',
+        node: declaration,
+        implementation: expression,
+        propsType: expression.parameters[0]?.type,
+      };
+    }
+
+    if (ts.isClassExpression(expression)) {
+      const propsType = this.getClassPropsType(expression);
+      if (propsType === null) return null;
+      return { name, kind: 'class', node: declaration, implementation: expression, propsType };
+    }
+
+    if (!ts.isCallExpression(expression)) return null;
+
+    const wrapper = this.getWrapperKind(expression);
+    if (!wrapper || expression.arguments.length === 0) return null;
+
+    // forwardRef<Ref, Props>(...) and memo<Props>(...)
+    const typeArgument = wrapper === 'forwardRef' ? expression.typeArguments?.[1] : expression.typeArguments?.[0];
+    const inner = this.unwrapExpression(expression.arguments[0]);
+
+    let innerCandidate: ComponentCandidate | null | undefined;
+    if (ts.isIdentifier(inner)) {
+      // memo(Button) wraps a component declared earlier in the file
+      innerCandidate = candidates.get(inner.text);
+    } else {
+      innerCandidate = this.candidateFromExpression(name, inner, declaration, candidates);
+      // Callbacks passed to forwardRef need not return JSX themselves to count
+      if (!innerCandidate && (ts.isArrowFunction(inner) || ts.isFunctionExpression(inner))) {
+        innerCandidate = { name, kind: 'arrow', node: declaration, implementation: inner, propsType: inner.parameters[0]?.type };
+      }
+    }
+
+    if (!innerCandidate) return null;
+
+    return {
+      name,
+      // memo(forwardRef(...)) is reported as forwardRef, the more specific kind
+      kind: innerCandidate.kind === 'forwardRef' ? 'forwardRef' : wrapper,
+      node: declaration,
+      implementation: innerCandidate.implementation,
+      propsType: typeArgument || innerCandidate.propsType,
+    };
+  }
+
+  private static getWrapperKind(call: ts.CallExpression): ParsedComponent['kind'] | undefined {
+    const callee = call.expression;
+    const calleeName = ts.isIdentifier(callee)
+      ? callee.text
+      : ts.isPropertyAccessExpression(callee) ? callee.name.text : '';
+    return WRAPPER_FUNCTIONS[calleeName];
+  }
+
+  static unwrapExpression(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isNonNullExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  private static returnsJsx(fn: ts.FunctionLikeDeclaration): boolean {
+    if (!fn.body) return false;
+
+    let found = false;
+    const visit = (node: ts.Node): void => {
+      if (found) return;
+      if (
+        ts.isJsxElement(node) ||
+        ts.isJsxSelfClosingElement(node) ||
+        ts.isJsxFragment(node) ||
+        (ts.isCallExpression(node) && /(^|\.)createElement$/.test(node.expression.getText()))
+      ) {
+        found = true;
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(fn.body);
+    return found;
+  }
+
+  /**
+   * Returns the props type argument of a class extending (React.)Component or
+   * PureComponent, undefined when the class is a component without typed
+   * props, and null when the class is not a component at all.
+   */
+  private static getClassPropsType(node: ts.ClassLikeDeclaration): ts.TypeNode | undefined | null {
+    for (const clause of node.heritageClauses || []) {
+      if (clause.token !== ts.SyntaxKind.ExtendsKeyword) continue;
+
+      for (const type of clause.types) {
+        const base = ts.isPropertyAccessExpression(type.expression)
+          ? type.expression.name.text
+          : ts.isIdentifier(type.expression) ? type.expression.text : '';
+        if (CLASS_BASES.has(base)) {
+          return type.typeArguments?.[0];
+        }
+      }
+    }
+    return null;
+  }
+
+  private static getStaticDefaultProps(node: ts.ClassLikeDeclaration): ts.ObjectLiteralExpression | undefined {
+    for (const member of node.members) {
+      if (
+        ts.isPropertyDeclaration(member) &&
+        this.hasModifier(member, ts.SyntaxKind.StaticKeyword) &&
+        ts.isIdentifier(member.name) &&
+        member.name.text === 'defaultProps' &&
+        member.initializer &&
+        ts.isObjectLiteralExpression(member.initializer)
+      ) {
+        return member.initializer;
+      }
+    }
+    return undefined;
+  }
+
+  private static getFcPropsType(type: ts.TypeNode | undefined): ts.TypeNode | undefined {
+    if (!type || !ts.isTypeReferenceNode(type)) return undefined;
+
+    const typeName = ts.isQualifiedName(type.typeName) ? type.typeName.right.text : type.typeName.text;
+    return FC_TYPES.has(typeName) ? type.typeArguments?.[0] : undefined;
+  }
+
+  private static resolveProps(
+    candidate: ComponentCandidate,
+    defaultPropsLiteral: ts.ObjectLiteralExpression | undefined,
+    sourceFile: ts.SourceFile
+  ): PropDefinition[] {
+    const props = new Map<string, PropDefinition>();
+
+    if (candidate.propsType) {
+      for (const prop of this.resolveTypeMembers(candidate.propsType, sourceFile, new Set())) {
+        props.set(prop.name, prop);
+      }
+    }
+
+    const defaults = new Map<string, string>();
+    for (const property of defaultPropsLiteral?.properties || []) {
+      if (ts.isPropertyAssignment(property) && property.name && !ts.isComputedPropertyName(property.name)) {
+        defaults.set(property.name.text, property.initializer.getText(sourceFile));
+      }
+    }
+
+    // function Button({ size = 'md', ...rest }: ButtonProps)
+    const firstParam = ts.isClassLike(candidate.implementation) ? undefined : candidate.implementation.parameters[0];
+    if (firstParam && ts.isObjectBindingPattern(firstParam.name)) {
+      for (const element of firstParam.name.elements) {
+        if (element.dotDotDotToken) continue;
+
+        const propName = element.propertyName && !ts.isComputedPropertyName(element.propertyName)
+          ? element.propertyName.text
+          : ts.isIdentifier(element.name) ? element.name.text : undefined;
+        if (!propName) continue;
+
+        if (element.initializer) {
+          defaults.set(propName, element.initializer.getText(sourceFile));
+        }
+
+        if (!props.has(propName)) {
+          props.set(propName, { name: propName, type: 'unknown', required: !element.initializer });
+        }
+      }
+    }
+
+    for (const [name, value] of defaults) {
+      const prop = props.get(name);
+      if (prop) {
+        prop.defaultValue = value;
+        prop.required = false;
+      }
+    }
+
+    return Array.from(props.values());
+  }
+
+  /**
+   * Resolves the members of a props type declared in the same file.
+   */
+  static propsFromType(type: ts.TypeNode, sourceFile: ts.SourceFile): PropDefinition[] {
+    return this.resolveTypeMembers(type, sourceFile, new Set());
+  }
+
+  private static resolveTypeMembers(
+    type: ts.TypeNode,
+    sourceFile: ts.SourceFile,
+    seen: Set<string>
+  ): PropDefinition[] {
+    if (ts.isParenthesizedTypeNode(type)) {
+      return this.resolveTypeMembers(type.type, sourceFile, seen);
+    }
+
+    if (ts.isTypeLiteralNode(type)) {
+      return this.membersToProps(type.members, sourceFile);
+    }
+
+    if (ts.isIntersectionTypeNode(type)) {
+      return this.mergeProps(type.types.map(part => this.resolveTypeMembers(part, sourceFile, seen)));
+    }
+
+    if (ts.isUnionTypeNode(type)) {
+      // A prop is only required when every member of the union requires it
+      const variants = type.types.map(part => this.resolveTypeMembers(part, sourceFile, seen));
+      return this.mergeProps(variants).map(prop => ({
+        ...prop,
+        required: variants.every(variant => variant.some(p => p.name === prop.name && p.required)),
+      }));
+    }
+
+    if (ts.isTypeReferenceNode(type)) {
+      const typeName = ts.isQualifiedName(type.typeName) ? type.typeName.right.text : type.typeName.text;
+      const [first, second] = type.typeArguments || [];
+
+      switch (typeName) {
+        case 'Partial':
+          return first ? this.resolveTypeMembers(first, sourceFile, seen).map(prop => ({ ...prop, required: false })) : [];
+        case 'Required':
+          return first ? this.resolveTypeMembers(first, sourceFile, seen).map(prop => ({ ...prop, required: true })) : [];
+        case 'Readonly':
+        case 'PropsWithChildren':
+          return this.mergeProps([
+            first ? this.resolveTypeMembers(first, sourceFile, seen) : [],
+            typeName === 'PropsWithChildren' ? [{ name: 'children', type: 'ReactNode', required: false }] : [],
+          ]);
+        case 'Omit':
+        case 'Pick': {
+          if (!first || !second) return [];
+          const keys = this.literalKeys(second);
+          return this.resolveTypeMembers(first, sourceFile, seen)
+            .filter(prop => (typeName === 'Pick') === keys.has(prop.name));
+        }
+      }
+
+      return this.resolveNamedType(typeName, sourceFile, seen);
+    }
+
+    return [];
+  }
+
+  private static resolveNamedType(name: string, sourceFile: ts.SourceFile, seen: Set<string>): PropDefinition[] {
+    if (seen.has(name)) return [];
+    seen.add(name);
+
+    const merged: PropDefinition[][] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isInterfaceDeclaration(statement) && statement.name.text === name) {
+        // Declaration merging: every interface with the name contributes
+        for (const clause of statement.heritageClauses || []) {
+          for (const base of clause.types) {
+            if (ts.isIdentifier(base.expression)) {
+              merged.push(this.resolveNamedType(base.expression.text, sourceFile, seen));
+            }
+          }
+        }
+        merged.push(this.membersToProps(statement.members, sourceFile));
+      } else if (ts.isTypeAliasDeclaration(statement) && statement.name.text === name) {
+        merged.push(this.resolveTypeMembers(statement.type, sourceFile, seen));
+      }
+    }
+
+    return this.mergeProps(merged);
+  }
+
+  private static membersToProps(members: ts.NodeArray<ts.TypeElement>, sourceFile: ts.SourceFile): PropDefinition[] {
+    const props: PropDefinition[] = [];
+
+    for (const member of members) {
+      if (!member.name || ts.isComputedPropertyName(member.name) || ts.isPrivateIdentifier(member.name)) continue;
+
+      let type = 'unknown';
+      if (ts.isPropertySignature(member) && member.type) {
+        type = member.type.getText(sourceFile);
+      } else if (ts.isMethodSignature(member)) {
+        const params = member.parameters.map(param => param.getText(sourceFile)).join(', ');
+        type = `(${params}) => ${member.type ? member.type.getText(sourceFile) : 'void'}`;
+      } else {
+        continue;
+      }
+
+      const prop: PropDefinition = {
+        name: member.name.text,
+        type: type.replace(/\s+/g, ' '),
+        required: !member.questionToken,
+      };
+
+      const description = this.getJSDocDescription(member);
+      if (description) prop.description = description;
+
+      const defaultTag = ts.getJSDocTags(member).find(tag => ['default', 'defaultValue'].includes(tag.tagName.text));
+      const defaultValue = defaultTag ? ts.getTextOfJSDocComment(defaultTag.comment) : undefined;
+      if (defaultValue) prop.defaultValue = defaultValue.trim();
+
+      props.push(prop);
+    }
+
+    return props;
+  }
+
+  private static mergeProps(groups: PropDefinition[][]): PropDefinition[] {
+    const merged = new Map<string, PropDefinition>();
+    for (const group of groups) {
+      for (const prop of group) {
+        merged.set(prop.name, { ...merged.get(prop.name), ...prop });
+      }
+    }
+    return Array.from(merged.values());
+  }
+
+  private static literalKeys(type: ts.TypeNode): Set<string> {
+    const parts = ts.isUnionTypeNode(type) ? type.types : [type];
+    const keys = new Set<string>();
+    for (const part of parts) {
+      if (ts.isLiteralTypeNode(part) && ts.isStringLiteral(part.literal)) {
+        keys.add(part.literal.text);
+      }
+    }
+    return keys;
+  }
+
+  static getJSDocDescription(node: ts.Node): string | undefined {
+    const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+    const comment = docs.length > 0 ? ts.getTextOfJSDocComment(docs[docs.length - 1].comment) : undefined;
+    return comment?.trim() || undefined;
+  }
+
+  private static hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === kind);
+  }
+
+  private static isComponentName(name: string): boolean {
+    return /^[A-Z]/.test(name);
+  }
+
+  private static nameFromFile(fileName: string): string {
+    const base = fileName.split(/[/\\]/).pop()!.replace(/\.[^.]+$/, '');
+    // components/Button/index.tsx is the Button component
+    const name = base === 'index' ? fileName.split(/[/\\]/).slice(-2, -1)[0] || base : base;
+    return name
+      .replace(/[-_.\s]+(\w)/g, (_, char: string) => char.toUpperCase())
+      .replace(/^\w/, char => char.toUpperCase());
+  }
+}
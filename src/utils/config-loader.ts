@@ -0,0 +1,244 @@
+import fs from 'fs/promises';
+import { createRequire } from 'module';
+import path from 'path';
+import ts from 'typescript';
+import type { Breakpoint } from '../types/index.js';
+import type { AuthConfig } from './browser.js';
+
+export interface RuleThresholds {
+  minTouchTarget: number; // px, both dimensions
+  minFontSize: number; // px
+  maxProps: number; // props before a component is flagged as complex
+}
+
+export interface UxplainConfig {
+  include: string[]; // globs, relative to the project root
+  exclude: string[];
+  sourceRoots: string[]; // directories scanned for components, per package
+  framework?: string; // overrides detection
+  devServer: {
+    url?: string;
+    command?: string;
+  };
+  breakpoints: Breakpoint[];
+  storybook?: {
+    url?: string; // running Storybook, used for its story index and for capture
+    staticDir?: string; // static build, default storybook-static
+  };
+  auth?: AuthConfig;
+  thresholds: RuleThresholds;
+  configPath?: string; // file the config was read from
+}
+
+export const DEFAULT_BREAKPOINTS: Breakpoint[] = [
+  { name: 'mobile', width: 375, height: 667 },
+  { name: 'tablet', width: 768, height: 1024 },
+  { name: 'desktop', width: 1200, height: 800 },
+];
+
+export const DEFAULT_THRESHOLDS: RuleThresholds = {
+  minTouchTarget: 44,
+  minFontSize: 14,
+  maxProps: 8,
+};
+
+const CONFIG_FILES = ['uxplain.config.json', 'uxplain.config.ts', 'uxplain.config.mts', 'uxplain.config.js', 'uxplain.config.mjs', 'uxplain.config.cjs'];
+
+export class ConfigLoader {
+  private static cache = new Map<string, { mtimeMs: number; config: UxplainConfig }>();
+
+  static defaults(): UxplainConfig {
+    return {
+      include: [],
+      exclude: [],
+      sourceRoots: ['src'],
+      devServer: {},
+      breakpoints: DEFAULT_BREAKPOINTS.map(breakpoint => ({ ...breakpoint })),
+      thresholds: { ...DEFAULT_THRESHOLDS },
+    };
+  }
+
+  /**
+   * Reads uxplain.config.{json,ts,js} from the project root and merges it over
+   * the defaults. Results are cached until the file changes. A missing file
+   * gives the defaults; an unreadable one is reported and also gives the defaults.
+   */
+  static async load(projectPath: string): Promise<UxplainConfig> {
+    const root = path.resolve(projectPath);
+
+    for (const fileName of CONFIG_FILES) {
+      const configPath = path.join(root, fileName);
+      let stat;
+      try {
+        stat = await fs.stat(configPath);
+      } catch (error) {
+        continue;
+      }
+
+      const cached = this.cache.get(configPath);
+      if (cached && cached.mtimeMs === stat.mtimeMs) return cached.config;
+
+      try {
+        const raw = fileName.endsWith('.json')
+          ? JSON.parse(await fs.readFile(configPath, 'utf8'))
+          : await this.evaluateModule(configPath);
+        const config = { ...this.normalize(raw, configPath), configPath };
+        this.cache.set(configPath, { mtimeMs: stat.mtimeMs, config });
+        return config;
+      } catch (error) {
+        console.warn(`⚠️ Ignoring ${fileName}: ${error instanceof Error ? error.message : error}`);
+        return this.defaults();
+      }
+    }
+
+    return this.defaults();
+  }
+
+  /**
+   * Matches a project-relative path against a glob. Supports `**`, `*`, `?` and
+   * `{a,b}`; patterns without a slash match the file name anywhere.
+   */
+  static matchesGlob(relativePath: string, pattern: string): boolean {
+    const normalizedPath = relativePath.split(path.sep).join('/');
+    let glob = pattern.replace(/^\.\//, '');
+    if (!glob.includes('/')) glob = `**/${glob}`;
+    if (glob.endsWith('/')) glob += '**';
+
+    let regex = '';
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+      if (char === '*' && glob[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` everything
+        if (glob[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else if (char === '*') {
+        regex += '[^/]*';
+      } else if (char === '?') {
+        regex += '[^/]';
+      } else if (char === '{') {
+        const end = glob.indexOf('}', i);
+        if (end === -1) {
+          regex += '\\{';
+          continue;
+        }
+        const options = glob.slice(i + 1, end).split(',').map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&'));
+        regex += `(?:${options.join('|')})`;
+        i = end;
+      } else {
+        regex += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    // A directory pattern also covers everything below it
+    return new RegExp(`^${regex}(?:/.*)?$`).test(normalizedPath);
+  }
+
+  // A path is kept when it matches an include (or there are none) and no exclude
+  static isIncluded(config: UxplainConfig, relativePath: string): boolean {
+    if (config.include.length > 0 && !config.include.some(pattern => this.matchesGlob(relativePath, pattern))) {
+      return false;
+    }
+    return !config.exclude.some(pattern => this.matchesGlob(relativePath, pattern));
+  }
+
+  // Compiles TS/ESM configs to CommonJS and runs them with the project's require
+  private static async evaluateModule(configPath: string): Promise<any> {
+    const source = await fs.readFile(configPath, 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+      fileName: configPath,
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true,
+      },
+    });
+
+    const module = { exports: {} as any };
+    const projectRequire = createRequire(configPath);
+    const evaluate = new Function('module', 'exports', 'require', '__filename', '__dirname', outputText);
+    evaluate(module, module.exports, projectRequire, configPath, path.dirname(configPath));
+
+    const exported = module.exports.default ?? module.exports;
+    // defineConfig(() => ({ ... })) style
+    return typeof exported === 'function' ? await exported() : await exported;
+  }
+
+  private static normalize(raw: any, configPath: string): UxplainConfig {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error('config must export an object');
+    }
+
+    const defaults = this.defaults();
+    const stringList = (value: any, key: string): string[] | undefined => {
+      if (value === undefined) return undefined;
+      const list = Array.isArray(value) ? value : [value];
+      if (!list.every(item => typeof item === 'string')) throw new Error(`"${key}" must be a string or an array of strings`);
+      return list;
+    };
+
+    const breakpoints = raw.breakpoints === undefined
+      ? defaults.breakpoints
+      : this.normalizeBreakpoints(raw.breakpoints);
+
+    const thresholds = { ...defaults.thresholds };
+    for (const [key, value] of Object.entries(raw.thresholds || {})) {
+      if (!(key in thresholds)) {
+        console.warn(`⚠️ Unknown threshold "${key}" in ${path.basename(configPath)}`);
+      } else if (typeof value !== 'number' || value < 0) {
+        throw new Error(`threshold "${key}" must be a non-negative number`);
+      } else {
+        thresholds[key as keyof RuleThresholds] = value;
+      }
+    }
+
+    const devServer = typeof raw.devServer === 'string'
+      ? { url: raw.devServer }
+      : { ...defaults.devServer, ...(raw.devServer || {}) };
+
+    return {
+      include: stringList(raw.include, 'include') || defaults.include,
+      exclude: stringList(raw.exclude, 'exclude') || defaults.exclude,
+      sourceRoots: stringList(raw.sourceRoots, 'sourceRoots') || defaults.sourceRoots,
+      framework: typeof raw.framework === 'string' ? raw.framework.toLowerCase() : undefined,
+      devServer,
+      breakpoints,
+      storybook: typeof raw.storybook === 'string' ? { url: raw.storybook } : raw.storybook,
+      auth: raw.auth ? this.normalizeAuth(raw.auth, configPath) : undefined,
+      thresholds,
+    };
+  }
+
+  // Accepts [{ name, width, height }], { name: [width, height] } or bare widths
+  private static normalizeBreakpoints(value: any): Breakpoint[] {
+    const entries: any[] = Array.isArray(value)
+      ? value
+      : Object.entries(value || {}).map(([name, size]) => Array.isArray(size)
+        ? { name, width: size[0], height: size[1] }
+        : typeof size === 'number' ? { name, width: size } : { name, ...(size as object) });
+
+    return entries.map((entry, index) => {
+      const breakpoint = typeof entry === 'number' ? { width: entry } : entry;
+      if (typeof breakpoint?.width !== 'number' || breakpoint.width <= 0) {
+        throw new Error(`breakpoint ${index + 1} needs a positive width`);
+      }
+      return {
+        name: breakpoint.name || `${breakpoint.width}px`,
+        width: breakpoint.width,
+        height: typeof breakpoint.height === 'number' ? breakpoint.height : Math.round(breakpoint.width < 768 ? breakpoint.width * 16 / 9 : 800),
+      };
+    });
+  }
+
+  // Relative storage state paths are taken from the project root
+  private static normalizeAuth(auth: any, configPath: string): AuthConfig {
+    return {
+      ...auth,
+      storageState: auth.storageState ? path.resolve(path.dirname(configPath), auth.storageState) : undefined,
+    };
+  }
+}
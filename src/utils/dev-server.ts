@@ -0,0 +1,63 @@
+import { spawn, type ChildProcess } from 'child_process';
+
+/**
+ * A development server started from the configured command. Servers that were
+ * already running are reused and left alone.
+ */
+export class DevServer {
+  private constructor(private process: ChildProcess | null) {}
+
+  /**
+   * Resolves once `url` responds, starting `command` in `cwd` first when the
+   * server is down and a command is configured.
+   */
+  static async ensureRunning(url: string, command: string | undefined, cwd: string, timeoutMs = 60000): Promise<DevServer> {
+    if (await this.isReachable(url)) return new DevServer(null);
+    if (!command) {
+      throw new Error(`Dev server at ${url} is not reachable and no devServer.command is configured`);
+    }
+
+    console.log(`🚀 Starting dev server: ${command}`);
+    const child = spawn(command, { cwd, shell: true, stdio: 'ignore', detached: process.platform !== 'win32' });
+    const server = new DevServer(child);
+
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (child.exitCode !== null) {
+        throw new Error(`Dev server command exited with code ${child.exitCode}`);
+      }
+      if (await this.isReachable(url)) {
+        console.log(`✅ Dev server ready at ${url}`);
+        return server;
+      }
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+
+    await server.stop();
+    throw new Error(`Dev server did not respond at ${url} within ${timeoutMs / 1000}s`);
+  }
+
+  static async isReachable(url: string): Promise<boolean> {
+    try {
+      await fetch(url, { signal: AbortSignal.timeout(2000) });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Stops the server if this process started it
+  async stop(): Promise<void> {
+    const child = this.process;
+    if (!child || child.exitCode !== null || !child.pid) return;
+
+    try {
+      // The shell's children (npm, vite, ...) share its process group
+      if (process.platform === 'win32') child.kill();
+      else process.kill(-child.pid, 'SIGTERM');
+    } catch (error) {
+      // Already gone
+    }
+    this.process = null;
+  }
+}
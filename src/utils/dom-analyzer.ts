@@ -1,9 +1,11 @@
 import { JSDOM } from 'jsdom';
-import type { Page } from 'playwright';
+import type { Locator, Page } from 'playwright';
+import { SELECTOR_ENGINE_GLOBAL, SelectorEngine } from './selector-engine.js';
 
 export interface DOMElement {
   tagName: string;
   selector: string;
+  locator?: string; // Playwright locator for the same element
   textContent?: string;
   attributes: Record<string, string>;
   bounds: {
@@ -115,20 +117,12 @@ export class DOMAnalyzer {
     page: Page,
     selector: string
   ): Promise<DOMElement[]> {
-    return await page.evaluate((sel) => {
+    await SelectorEngine.install(page);
+    return await page.evaluate(({ sel, selectorEngine }) => {
       const el = document.querySelector(sel);
       if (!el) return [];
 
-      const generateSelector = (element: Element): string => {
-        let selector = element.tagName.toLowerCase();
-        if (element.id) {
-          selector += `#${element.id}`;
-        } else if (element.className) {
-          const classes = element.className.trim().split(/\s+/);
-          selector += '.' + classes.join('.');
-        }
-        return selector;
-      };
+      const describe = (element: Element): { selector: string; locator: string } => (window as any)[selectorEngine](element);
 
       const parents: any[] = [];
       let parent = el.parentElement;
@@ -151,7 +145,7 @@ export class DOMAnalyzer {
 
         parents.push({
           tagName: parent.tagName.toLowerCase(),
-          selector: generateSelector(parent),
+          ...describe(parent),
           textContent: parent.textContent?.trim() || '',
           attributes,
           bounds: {
@@ -168,27 +162,19 @@ export class DOMAnalyzer {
       }
 
       return parents;
-    }, selector);
+    }, { sel: selector, selectorEngine: SELECTOR_ENGINE_GLOBAL });
   }
 
   private static async getSiblingElements(
     page: Page,
     selector: string
   ): Promise<DOMElement[]> {
-    return await page.evaluate((sel) => {
+    await SelectorEngine.install(page);
+    return await page.evaluate(({ sel, selectorEngine }) => {
       const el = document.querySelector(sel);
       if (!el || !el.parentElement) return [];
 
-      const generateSelector = (element: Element): string => {
-        let selector = element.tagName.toLowerCase();
-        if (element.id) {
-          selector += `#${element.id}`;
-        } else if (element.className) {
-          const classes = element.className.trim().split(/\s+/);
-          selector += '.' + classes.join('.');
-        }
-        return selector;
-      };
+      const describe = (element: Element): { selector: string; locator: string } => (window as any)[selectorEngine](element);
 
       const siblings: any[] = [];
       const parent = el.parentElement;
@@ -214,7 +200,7 @@ export class DOMAnalyzer {
 
         siblings.push({
           tagName: sibling.tagName.toLowerCase(),
-          selector: generateSelector(sibling),
+          ...describe(sibling),
           textContent: sibling.textContent?.trim() || '',
           attributes,
           bounds: {
@@ -229,7 +215,7 @@ export class DOMAnalyzer {
       }
 
       return siblings;
-    }, selector);
+    }, { sel: selector, selectorEngine: SELECTOR_ENGINE_GLOBAL });
   }
 
   private static async getDescendantElements(
@@ -237,21 +223,13 @@ export class DOMAnalyzer {
     selector: string,
     maxDepth: number = 2
   ): Promise<DOMElement[]> {
+    await SelectorEngine.install(page);
     return await page.evaluate(
-      ({ sel, depth }: { sel: string; depth: number }) => {
+      ({ sel, depth, selectorEngine }: { sel: string; depth: number; selectorEngine: string }) => {
         const el = document.querySelector(sel);
         if (!el) return [];
 
-        const generateSelector = (element: Element): string => {
-          let selector = element.tagName.toLowerCase();
-          if (element.id) {
-            selector += `#${element.id}`;
-          } else if (element.className) {
-            const classes = element.className.trim().split(/\s+/);
-            selector += '.' + classes.join('.');
-          }
-          return selector;
-        };
+        const describe = (element: Element): { selector: string; locator: string } => (window as any)[selectorEngine](element);
 
         const descendants: any[] = [];
         
@@ -277,7 +255,7 @@ export class DOMAnalyzer {
 
             descendants.push({
               tagName: child.tagName.toLowerCase(),
-              selector: generateSelector(child),
+              ...describe(child),
               textContent: child.textContent?.trim() || '',
               attributes,
               bounds: {
@@ -297,52 +275,17 @@ export class DOMAnalyzer {
         traverse(el, 0);
         return descendants;
       },
-      { sel: selector, depth: maxDepth }
+      { sel: selector, depth: maxDepth, selectorEngine: SELECTOR_ENGINE_GLOBAL }
     );
   }
 
+  // Segments of the element's selector from the selector engine, outermost first
   private static async generateCSSPath(
     page: Page,
     selector: string
   ): Promise<string[]> {
-    return await page.evaluate((sel) => {
-      const el = document.querySelector(sel);
-      if (!el) return [];
-
-      const path: string[] = [];
-      let element: Element | null = el;
-
-      while (element && element !== document.documentElement) {
-        let selector = element.tagName.toLowerCase();
-        
-        if (element.id) {
-          selector += `#${element.id}`;
-          path.unshift(selector);
-          break; // ID is unique, stop here
-        }
-        
-        if (element.className) {
-          const classes = element.className.trim().split(/\s+/);
-          selector += '.' + classes.join('.');
-        }
-
-        // Add nth-child if needed for uniqueness
-        if (element.parentElement) {
-          const siblings = Array.from(element.parentElement.children)
-            .filter(child => child.tagName === element!.tagName);
-          
-          if (siblings.length > 1) {
-            const index = siblings.indexOf(element) + 1;
-            selector += `:nth-child(${index})`;
-          }
-        }
-
-        path.unshift(selector);
-        element = element.parentElement;
-      }
-
-      return path;
-    }, selector);
+    const described = await SelectorEngine.describe(page, selector);
+    return described ? described.selector.split(' > ') : [];
   }
 
   static async extractHTML(
@@ -382,6 +325,27 @@ export class DOMAnalyzer {
     }
   }
 
+  /**
+   * Same as extractHTML, for an element already resolved through a locator.
+   */
+  static async extractElementHTML(element: Locator, includeContext: boolean = true): Promise<string> {
+    try {
+      return await element.evaluate((el, includeContext) => {
+        if (!includeContext) return el.outerHTML;
+
+        let parent = el.parentElement;
+        while (parent && parent.children.length === 1 && parent !== document.body) {
+          parent = parent.parentElement;
+        }
+
+        return parent ? parent.outerHTML : el.outerHTML;
+      }, includeContext);
+    } catch (error) {
+      console.error('HTML extraction failed:', error);
+      return '';
+    }
+  }
+
   static parseHTMLWithJSDOM(htmlString: string): Document | null {
     try {
       const dom = new JSDOM(htmlString);
@@ -0,0 +1,94 @@
+import type { Page } from 'playwright';
+import type { ElementMark } from '../types/index.js';
+import { SELECTOR_ENGINE_GLOBAL, SelectorEngine } from './selector-engine.js';
+
+// Elements worth pointing at: controls and page landmarks
+const MARKED_ELEMENTS = [
+  'a[href]', 'button', 'input:not([type="hidden"])', 'select', 'textarea', 'summary', '[contenteditable="true"]',
+  '[role="button"]', '[role="link"]', '[role="checkbox"]', '[role="radio"]', '[role="switch"]', '[role="tab"]',
+  '[role="menuitem"]', '[role="option"]', '[role="combobox"]', '[role="textbox"]', '[role="slider"]', '[tabindex]:not([tabindex="-1"])',
+  'header', 'nav', 'main', 'aside', 'footer', 'form', 'dialog',
+  '[role="banner"]', '[role="navigation"]', '[role="main"]', '[role="complementary"]', '[role="contentinfo"]',
+  '[role="search"]', '[role="region"][aria-label]', '[role="dialog"]',
+].join(', ');
+
+/**
+ * Set-of-marks support: numbers the visible interactive and landmark elements
+ * of a page and remembers the last legend per URL, so a later tool call can
+ * say `elementRef: 12` instead of a selector.
+ */
+export class ElementMarks {
+  private static legends = new Map<string, ElementMark[]>();
+  private static lastUrl: string | null = null;
+
+  /**
+   * Visible marked elements in document order. Bounds are in document
+   * coordinates for full-page screenshots and viewport coordinates otherwise,
+   * where off-screen elements are left out.
+   */
+  static async collect(page: Page, fullPage: boolean, limit = 150): Promise<ElementMark[]> {
+    await SelectorEngine.install(page);
+    return page.evaluate(({ query, fullPage, limit, selectorEngine }) => {
+      const marks: any[] = [];
+
+      for (const element of Array.from(document.querySelectorAll(query))) {
+        if (marks.length >= limit) break;
+
+        const rect = element.getBoundingClientRect();
+        const style = window.getComputedStyle(element);
+        if (rect.width < 4 || rect.height < 4 || style.visibility === 'hidden' || style.display === 'none') continue;
+        if (!fullPage && (rect.bottom <= 0 || rect.right <= 0 || rect.top >= window.innerHeight || rect.left >= window.innerWidth)) continue;
+
+        const { selector, locator, role, name } = (window as any)[selectorEngine](element);
+        marks.push({
+          ref: marks.length + 1,
+          selector,
+          locator,
+          tagName: element.tagName.toLowerCase(),
+          role,
+          name: name ? name.slice(0, 80) : undefined,
+          bounds: {
+            x: Math.round(rect.x + (fullPage ? window.scrollX : 0)),
+            y: Math.round(rect.y + (fullPage ? window.scrollY : 0)),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height),
+          },
+        });
+      }
+
+      return marks;
+    }, { query: MARKED_ELEMENTS, fullPage, limit, selectorEngine: SELECTOR_ENGINE_GLOBAL });
+  }
+
+  static remember(url: string, marks: ElementMark[]): void {
+    const key = this.normalizeUrl(url);
+    this.legends.set(key, marks);
+    this.lastUrl = key;
+  }
+
+  /**
+   * The mark from the legend of `url`, or of the last annotated page when no
+   * URL is given. Refs are only meaningful on the page they were drawn on, so
+   * a URL without a legend is an error rather than a guess.
+   */
+  static resolve(ref: number, url?: string): ElementMark | undefined {
+    const key = url ? this.normalizeUrl(url) : this.lastUrl;
+    const legend = key ? this.legends.get(key) : undefined;
+    if (!legend) {
+      throw new Error(`No set-of-marks legend for ${url || 'any page'}; take an annotated screenshot of it first (annotate: true)`);
+    }
+    return legend.find(mark => mark.ref === ref);
+  }
+
+  // Ignores the hash and a trailing slash, so /page and /page/#top share a legend
+  private static normalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      parsed.hash = '';
+      if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+      return parsed.toString();
+    } catch (error) {
+      return url.replace(/#.*$/, '').replace(/\/+$/, '');
+    }
+  }
+}
@@ -0,0 +1,185 @@
+import { readdirSync, statSync, watch, type FSWatcher } from 'fs';
+import path from 'path';
+
+export interface FileWatcherOptions {
+  debounceMs?: number;
+  extensions?: string[];
+}
+
+const DEFAULT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.vue', '.svelte', '.html', '.css', '.scss', '.sass', '.less', '.json'];
+
+// Dependencies, VCS data, build output and the index itself
+const IGNORED_SEGMENTS = new Set(['node_modules', '.git', 'dist', 'build', 'out', 'coverage', '.next', '.nuxt', '.output', '.svelte-kit', '.angular']);
+const IGNORED_FILES = new Set(['.ui-context-index.json']);
+
+/**
+ * Recursively watches a project and reports changed files in batches. Changes
+ * arriving while the handler runs are collected into the next batch, so the
+ * handler never runs concurrently with itself.
+ */
+export class FileWatcher {
+  // One recursive watcher, or one per directory on Linux, keyed by directory
+  private watchers = new Map<string, FSWatcher>();
+  private outOfWatchers = false;
+  private pending = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private debounceMs: number;
+  private extensions: Set<string>;
+
+  constructor(
+    private rootPath: string,
+    private onChange: (files: string[]) => Promise<void> | void,
+    options: FileWatcherOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? 300;
+    this.extensions = new Set(options.extensions || DEFAULT_EXTENSIONS);
+  }
+
+  start(): void {
+    if (this.watchers.size > 0) return;
+
+    // Recursive watching on Linux (Node 20+) puts an inotify watch on every
+    // directory, node_modules and .git included; walking the tree ourselves
+    // skips the ignored ones
+    if (process.platform === 'linux') {
+      this.watchTree(this.rootPath);
+      return;
+    }
+
+    try {
+      this.addWatcher(this.rootPath, true);
+    } catch (error) {
+      if (this.isWatchLimit(error)) {
+        this.reportWatchLimit();
+      } else if ((error as NodeJS.ErrnoException).code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        this.watchTree(this.rootPath);
+      } else {
+        throw error;
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+    this.pending.clear();
+    this.outOfWatchers = false;
+    await this.running;
+  }
+
+  private addWatcher(dirPath: string, recursive: boolean): void {
+    const watcher = watch(dirPath, { recursive }, (_event, fileName) => {
+      if (!fileName) return;
+      const filePath = path.join(dirPath, fileName.toString());
+      const relativePath = path.relative(this.rootPath, filePath);
+
+      // Directories created after start need their own watcher
+      if (!recursive && !this.watchers.has(filePath) && this.isWatchedDirectory(relativePath)) {
+        this.watchTree(filePath);
+      }
+
+      if (!this.isRelevant(relativePath)) return;
+      this.pending.add(filePath);
+      this.schedule();
+    });
+
+    watcher.on('error', (error) => {
+      if (this.isWatchLimit(error)) {
+        this.reportWatchLimit();
+      } else {
+        console.warn(`⚠️ File watcher error: ${error.message}`);
+      }
+      if (!recursive) {
+        // Usually the directory was removed
+        watcher.close();
+        this.watchers.delete(dirPath);
+      }
+    });
+
+    this.watchers.set(dirPath, watcher);
+  }
+
+  // Watches a directory and every directory below it, one watcher each
+  private watchTree(dirPath: string): void {
+    if (this.outOfWatchers) return;
+    try {
+      this.addWatcher(dirPath, false);
+      for (const entry of readdirSync(dirPath, { withFileTypes: true })) {
+        if (entry.isDirectory() && !IGNORED_SEGMENTS.has(entry.name)) {
+          this.watchTree(path.join(dirPath, entry.name));
+        }
+      }
+    } catch (error) {
+      if (this.isWatchLimit(error)) {
+        this.reportWatchLimit();
+      } else if (dirPath === this.rootPath) {
+        throw error;
+      }
+      // Otherwise removed or unreadable while walking
+    }
+  }
+
+  // ENOSPC: inotify watch limit, EMFILE: open file limit
+  private isWatchLimit(error: unknown): boolean {
+    const code = (error as NodeJS.ErrnoException).code;
+    return code === 'ENOSPC' || code === 'EMFILE';
+  }
+
+  // Watching goes on with the directories covered so far
+  private reportWatchLimit(): void {
+    if (this.outOfWatchers) return;
+    this.outOfWatchers = true;
+    console.error(
+      `❌ Ran out of file watchers after ${this.watchers.size} directories; changes elsewhere in ${this.rootPath} are not picked up. ` +
+      'On Linux, raise fs.inotify.max_user_watches (sysctl fs.inotify.max_user_watches=524288); otherwise raise the open file limit (ulimit -n).'
+    );
+  }
+
+  private isWatchedDirectory(relativePath: string): boolean {
+    if (relativePath.split(/[/\\]/).some(segment => IGNORED_SEGMENTS.has(segment))) return false;
+    try {
+      return statSync(path.join(this.rootPath, relativePath)).isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private isRelevant(fileName: string): boolean {
+    const segments = fileName.split(/[/\\]/);
+    if (segments.some(segment => IGNORED_SEGMENTS.has(segment))) return false;
+    if (IGNORED_FILES.has(segments[segments.length - 1])) return false;
+    return this.extensions.has(path.extname(fileName));
+  }
+
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.debounceMs);
+  }
+
+  private async flush(): Promise<void> {
+    // Wait for the current batch; its completion reschedules the rest
+    if (this.running || this.pending.size === 0 || this.watchers.size === 0) return;
+
+    const files = Array.from(this.pending);
+    this.pending.clear();
+
+    this.running = (async () => {
+      try {
+        await this.onChange(files);
+      } catch (error) {
+        console.warn('⚠️ File change handler failed:', error);
+      }
+    })();
+
+    await this.running;
+    this.running = null;
+
+    if (this.pending.size > 0) this.schedule();
+  }
+}
@@ -1,4 +1,5 @@
 import sharp from 'sharp';
+import type { Rectangle } from '../types/index.js';
 
 export interface ImageOptimizationOptions {
   quality?: number;
@@ -8,6 +9,28 @@ export interface ImageOptimizationOptions {
   background?: string;
 }
 
+export interface PixelDiffOptions {
+  threshold?: number; // 0-1 color distance above which a pixel counts as changed
+  includeAntiAliasing?: boolean; // count anti-aliased pixels as changes
+  regionPadding?: number; // merge changed regions closer than this many pixels
+}
+
+export interface PixelDiffResult {
+  diffImage: string; // base64 PNG, changed pixels in red over a faded copy of the before image
+  width: number;
+  height: number;
+  mismatchedPixels: number;
+  totalPixels: number;
+  mismatchPercentage: number; // 0-100
+  regions: Rectangle[];
+}
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
 export class ImageProcessor {
   static async optimizeScreenshot(
     buffer: Buffer,
@@ -110,54 +133,353 @@ export class ImageProcessor {
     }
   }
 
+  /**
+   * Draws a numbered box over each mark (set-of-marks). Bounds are in CSS
+   * pixels; `scale` is the device pixel ratio of the screenshot.
+   */
+  static async annotateMarks(
+    buffer: Buffer,
+    marks: Array<{ ref: number; bounds: Rectangle }>,
+    scale: number = 1
+  ): Promise<Buffer> {
+    try {
+      const { width, height } = await sharp(buffer).metadata();
+      if (!width || !height || marks.length === 0) return buffer;
+
+      const colors = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#008080', '#9a6324', '#800000'];
+      const labelHeight = Math.round(16 * scale);
+
+      const shapes = marks.map(mark => {
+        const color = colors[mark.ref % colors.length];
+        const x = Math.round(mark.bounds.x * scale);
+        const y = Math.round(mark.bounds.y * scale);
+        const label = String(mark.ref);
+        const labelWidth = Math.round((8 + label.length * 8) * scale);
+        // Label above the box when there is room, inside its corner otherwise
+        const labelY = y >= labelHeight ? y - labelHeight : y;
+
+        return `<rect x="${x}" y="${y}" width="${Math.round(mark.bounds.width * scale)}" height="${Math.round(mark.bounds.height * scale)}" fill="none" stroke="${color}" stroke-width="${2 * scale}"/>` +
+          `<rect x="${x}" y="${labelY}" width="${labelWidth}" height="${labelHeight}" fill="${color}"/>` +
+          `<text x="${x + labelWidth / 2}" y="${labelY + labelHeight * 0.78}" font-family="Arial, Helvetica, sans-serif" font-size="${12 * scale}" font-weight="bold" fill="#ffffff" text-anchor="middle">${label}</text>`;
+      });
+
+      const overlay = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`;
+      return await sharp(buffer)
+        .composite([{ input: Buffer.from(overlay), top: 0, left: 0 }])
+        .png()
+        .toBuffer();
+    } catch (error) {
+      console.error('Mark annotation failed:', error);
+      return buffer;
+    }
+  }
+
   static async createDiffImage(
     beforeBuffer: Buffer,
     afterBuffer: Buffer,
     threshold: number = 0.1
   ): Promise<string> {
     try {
-      // Use sharp to create a visual diff
-      // This is a simplified version - for production, consider using a specialized diff library
-      const beforeImage = sharp(beforeBuffer);
-      const afterImage = sharp(afterBuffer);
-
-      // Get metadata to ensure images are same size
-      const beforeMeta = await beforeImage.metadata();
-      const afterMeta = await afterImage.metadata();
-
-      if (beforeMeta.width !== afterMeta.width || beforeMeta.height !== afterMeta.height) {
-        // Resize to match
-        const targetWidth = Math.min(beforeMeta.width || 0, afterMeta.width || 0);
-        const targetHeight = Math.min(beforeMeta.height || 0, afterMeta.height || 0);
-        
-        await beforeImage.resize(targetWidth, targetHeight);
-        await afterImage.resize(targetWidth, targetHeight);
+      const result = await this.diffImages(beforeBuffer, afterBuffer, { threshold });
+      return `data:image/png;base64,${result.diffImage}`;
+    } catch (error) {
+      console.error('Diff image creation failed:', error);
+      return `data:image/png;base64,${beforeBuffer.toString('base64')}`;
+    }
+  }
+
+  /**
+   * Per-pixel comparison in YIQ color space. Pixels whose difference is
+   * explained by anti-aliasing are tolerated, the rest are painted red on a
+   * faded grayscale copy of the before image and clustered into regions.
+   */
+  static async diffImages(
+    beforeBuffer: Buffer,
+    afterBuffer: Buffer,
+    options: PixelDiffOptions = {}
+  ): Promise<PixelDiffResult> {
+    const {
+      threshold = 0.1,
+      includeAntiAliasing = false,
+      regionPadding = 8,
+    } = options;
+
+    const beforeMeta = await sharp(beforeBuffer).metadata();
+    const afterMeta = await sharp(afterBuffer).metadata();
+    const width = Math.max(beforeMeta.width || 0, afterMeta.width || 0);
+    const height = Math.max(beforeMeta.height || 0, afterMeta.height || 0);
+
+    // Pad both images onto a canvas of the same size so content that only
+    // exists in one of them counts as changed instead of being scaled away
+    const before = await this.toRawRGBA(beforeBuffer, width, height);
+    const after = await this.toRawRGBA(afterBuffer, width, height);
+
+    const output = Buffer.alloc(width * height * 4);
+    const mask = new Uint8Array(width * height);
+    // 35215 is the maximum possible value of the YIQ difference metric
+    const maxDelta = 35215 * threshold * threshold;
+    let mismatchedPixels = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pos = (y * width + x) * 4;
+        const delta = this.colorDelta(before.data, after.data, pos, pos, false);
+
+        if (Math.abs(delta) > maxDelta) {
+          const antiAliased = !includeAntiAliasing && (
+            this.isAntiAliased(before, x, y, after) ||
+            this.isAntiAliased(after, x, y, before)
+          );
+
+          if (antiAliased) {
+            this.drawPixel(output, pos, 255, 255, 0);
+          } else {
+            this.drawPixel(output, pos, 255, 0, 0);
+            mask[y * width + x] = 1;
+            mismatchedPixels++;
+          }
+        } else {
+          const gray = this.blend(
+            this.rgb2y(before.data[pos], before.data[pos + 1], before.data[pos + 2]),
+            0.1 * before.data[pos + 3] / 255
+          );
+          this.drawPixel(output, pos, gray, gray, gray);
+        }
       }
+    }
 
-      // For now, return a composite image showing before and after side by side
-      const beforeProcessed = await beforeImage.toBuffer();
-      const afterProcessed = await afterImage.toBuffer();
-
-      const composite = await sharp({
-        create: {
-          width: (beforeMeta.width || 0) * 2,
-          height: beforeMeta.height || 0,
-          channels: 3,
-          background: { r: 255, g: 255, b: 255 },
-        },
+    const diffBuffer = await sharp(output, { raw: { width, height, channels: 4 } })
+      .png()
+      .toBuffer();
+
+    const totalPixels = width * height;
+    return {
+      diffImage: diffBuffer.toString('base64'),
+      width,
+      height,
+      mismatchedPixels,
+      totalPixels,
+      mismatchPercentage: totalPixels > 0 ? (mismatchedPixels / totalPixels) * 100 : 0,
+      regions: this.clusterRegions(mask, width, height, regionPadding),
+    };
+  }
+
+  private static async toRawRGBA(buffer: Buffer, width: number, height: number): Promise<RawImage> {
+    const meta = await sharp(buffer).metadata();
+    const { data, info } = await sharp(buffer)
+      .ensureAlpha()
+      .extend({
+        right: width - (meta.width || 0),
+        bottom: height - (meta.height || 0),
+        background: { r: 255, g: 255, b: 255, alpha: 0 },
       })
-        .composite([
-          { input: beforeProcessed, left: 0, top: 0 },
-          { input: afterProcessed, left: beforeMeta.width || 0, top: 0 },
-        ])
-        .png()
-        .toBuffer();
+      .raw()
+      .toBuffer({ resolveWithObject: true });
 
-      return `data:image/png;base64,${composite.toString('base64')}`;
-    } catch (error) {
-      console.error('Diff image creation failed:', error);
-      return `data:image/png;base64,${beforeBuffer.toString('base64')}`;
+    return { data, width: info.width, height: info.height };
+  }
+
+  private static colorDelta(img1: Buffer, img2: Buffer, k: number, m: number, yOnly: boolean): number {
+    let r1 = img1[k], g1 = img1[k + 1], b1 = img1[k + 2];
+    const a1 = img1[k + 3];
+    let r2 = img2[m], g2 = img2[m + 1], b2 = img2[m + 2];
+    const a2 = img2[m + 3];
+
+    if (a1 === a2 && r1 === r2 && g1 === g2 && b1 === b2) return 0;
+
+    // Composite translucent pixels onto white before comparing
+    if (a1 < 255) {
+      r1 = this.blend(r1, a1 / 255);
+      g1 = this.blend(g1, a1 / 255);
+      b1 = this.blend(b1, a1 / 255);
     }
+    if (a2 < 255) {
+      r2 = this.blend(r2, a2 / 255);
+      g2 = this.blend(g2, a2 / 255);
+      b2 = this.blend(b2, a2 / 255);
+    }
+
+    const y1 = this.rgb2y(r1, g1, b1);
+    const y2 = this.rgb2y(r2, g2, b2);
+    const y = y1 - y2;
+    if (yOnly) return y;
+
+    const i = this.rgb2i(r1, g1, b1) - this.rgb2i(r2, g2, b2);
+    const q = this.rgb2q(r1, g1, b1) - this.rgb2q(r2, g2, b2);
+    const delta = 0.5053 * y * y + 0.299 * i * i + 0.1957 * q * q;
+
+    // Sign encodes whether the pixel got darker or lighter
+    return y1 > y2 ? -delta : delta;
+  }
+
+  /**
+   * A pixel is considered anti-aliased when it sits on a brightness gradient
+   * between its darkest and brightest neighbours, and at least one of those
+   * neighbours is part of a flat area in both images.
+   */
+  private static isAntiAliased(image: RawImage, x1: number, y1: number, other: RawImage): boolean {
+    const { width, height } = image;
+    const x0 = Math.max(x1 - 1, 0);
+    const y0 = Math.max(y1 - 1, 0);
+    const x2 = Math.min(x1 + 1, width - 1);
+    const y2 = Math.min(y1 + 1, height - 1);
+    const pos = (y1 * width + x1) * 4;
+    let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+    let min = 0;
+    let max = 0;
+    let minX = 0, minY = 0, maxX = 0, maxY = 0;
+
+    for (let x = x0; x <= x2; x++) {
+      for (let y = y0; y <= y2; y++) {
+        if (x === x1 && y === y1) continue;
+
+        const delta = this.colorDelta(image.data, image.data, pos, (y * width + x) * 4, true);
+        if (delta === 0) {
+          zeroes++;
+          if (zeroes > 2) return false;
+        } else if (delta < min) {
+          min = delta;
+          minX = x;
+          minY = y;
+        } else if (delta > max) {
+          max = delta;
+          maxX = x;
+          maxY = y;
+        }
+      }
+    }
+
+    if (min === 0 || max === 0) return false;
+
+    return (this.hasManySiblings(image, minX, minY) && this.hasManySiblings(other, minX, minY)) ||
+           (this.hasManySiblings(image, maxX, maxY) && this.hasManySiblings(other, maxX, maxY));
+  }
+
+  private static hasManySiblings(image: RawImage, x1: number, y1: number): boolean {
+    const { data, width, height } = image;
+    const x0 = Math.max(x1 - 1, 0);
+    const y0 = Math.max(y1 - 1, 0);
+    const x2 = Math.min(x1 + 1, width - 1);
+    const y2 = Math.min(y1 + 1, height - 1);
+    const pos = (y1 * width + x1) * 4;
+    let zeroes = x1 === x0 || x1 === x2 || y1 === y0 || y1 === y2 ? 1 : 0;
+
+    for (let x = x0; x <= x2; x++) {
+      for (let y = y0; y <= y2; y++) {
+        if (x === x1 && y === y1) continue;
+
+        const other = (y * width + x) * 4;
+        if (data[pos] === data[other] &&
+            data[pos + 1] === data[other + 1] &&
+            data[pos + 2] === data[other + 2] &&
+            data[pos + 3] === data[other + 3]) {
+          zeroes++;
+        }
+        if (zeroes > 2) return true;
+      }
+    }
+
+    return false;
+  }
+
+  private static rgb2y(r: number, g: number, b: number): number {
+    return r * 0.29889531 + g * 0.58662247 + b * 0.11448223;
+  }
+
+  private static rgb2i(r: number, g: number, b: number): number {
+    return r * 0.59597799 - g * 0.2741761 - b * 0.32180189;
+  }
+
+  private static rgb2q(r: number, g: number, b: number): number {
+    return r * 0.21147017 - g * 0.52261711 + b * 0.31114694;
+  }
+
+  private static blend(channel: number, alpha: number): number {
+    return 255 + (channel - 255) * alpha;
+  }
+
+  private static drawPixel(output: Buffer, pos: number, r: number, g: number, b: number): void {
+    output[pos] = r;
+    output[pos + 1] = g;
+    output[pos + 2] = b;
+    output[pos + 3] = 255;
+  }
+
+  /**
+   * Groups changed pixels into 8-connected components and merges components
+   * whose bounding boxes lie within `padding` pixels of each other, so a
+   * changed line of text becomes one region rather than one per glyph.
+   */
+  private static clusterRegions(mask: Uint8Array, width: number, height: number, padding: number): Rectangle[] {
+    const labels = new Int32Array(width * height);
+    const queue = new Int32Array(width * height);
+    let regions: Rectangle[] = [];
+    let label = 0;
+
+    for (let start = 0; start < mask.length; start++) {
+      if (!mask[start] || labels[start]) continue;
+
+      label++;
+      let head = 0;
+      let tail = 0;
+      queue[tail++] = start;
+      labels[start] = label;
+      let minX = width, minY = height, maxX = 0, maxY = 0;
+
+      while (head < tail) {
+        const index = queue[head++];
+        const x = index % width;
+        const y = (index - x) / width;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+
+        for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+          for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+            const neighbour = ny * width + nx;
+            if (mask[neighbour] && !labels[neighbour]) {
+              labels[neighbour] = label;
+              queue[tail++] = neighbour;
+            }
+          }
+        }
+      }
+
+      regions.push({ x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 });
+    }
+
+    // Merge nearby components until no two regions are within the padding
+    let merged = true;
+    while (merged) {
+      merged = false;
+      const next: Rectangle[] = [];
+
+      for (const region of regions) {
+        const target = next.find(other =>
+          region.x <= other.x + other.width + padding &&
+          other.x <= region.x + region.width + padding &&
+          region.y <= other.y + other.height + padding &&
+          other.y <= region.y + region.height + padding
+        );
+
+        if (target) {
+          const right = Math.max(target.x + target.width, region.x + region.width);
+          const bottom = Math.max(target.y + target.height, region.y + region.height);
+          target.x = Math.min(target.x, region.x);
+          target.y = Math.min(target.y, region.y);
+          target.width = right - target.x;
+          target.height = bottom - target.y;
+          merged = true;
+        } else {
+          next.push({ ...region });
+        }
+      }
+
+      regions = next;
+    }
+
+    return regions.sort((a, b) => a.y - b.y || a.x - b.x);
   }
 
   static calculateImageSize(base64Image: string): number {
@@ -0,0 +1,548 @@
+import fs from 'fs/promises';
+import path from 'path';
+import ts from 'typescript';
+import { ComponentParser } from './component-parser.js';
+import type { WorkspacePackage } from './workspace-detector.js';
+
+export interface ImportBinding {
+  specifier: string;
+  imported: string; // export name, 'default', or '*' for namespace imports
+}
+
+export interface ResolvedExport {
+  filePath: string;
+  exportName: string;
+}
+
+interface PathAlias {
+  pattern: string; // '@/*', '@app' (exact) or 'vue$'-style exact match without the '$'
+  targets: string[]; // absolute paths, '*' substituted with the matched part
+}
+
+interface ExportTable {
+  local: Set<string>;
+  reexports: Map<string, ImportBinding>;
+  starExports: string[];
+}
+
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.vue', '.svelte'];
+const ALIAS_CONFIG_FILES = ['vite.config', 'webpack.config', 'craco.config', 'nuxt.config', 'svelte.config'];
+const CONFIG_EXTENSIONS = ['.ts', '.mts', '.js', '.mjs', '.cjs'];
+
+// Conditions tried in package.json `exports`, source-oriented ones first
+const EXPORT_CONDITIONS = ['source', 'development', 'import', 'module', 'browser', 'default', 'require', 'types'];
+
+// Build output folders mapped back to src/ for workspace packages
+const BUILD_DIRS = /^(dist|build|lib|esm|cjs|out)[/\\]/;
+
+// Aliases the frameworks provide without configuration; every target is
+// checked on disk so they only apply where the folders exist
+const CONVENTIONAL_ALIASES: PathAlias[] = [
+  { pattern: '@/*', targets: ['src/*', 'app/*', '*'] },
+  { pattern: '~/*', targets: ['src/*', 'app/*', '*'] },
+  { pattern: '$lib/*', targets: ['src/lib/*'] },
+  { pattern: '$lib', targets: ['src/lib'] },
+];
+
+/**
+ * Resolves import specifiers to project files the way the bundler would:
+ * relative paths, tsconfig/jsconfig `paths` and `baseUrl`, and aliases from
+ * Vite, webpack, CRACO, Nuxt and SvelteKit configs. Imports of workspace
+ * packages resolve to their source; other package imports resolve to undefined.
+ */
+export class ModuleResolver {
+  private aliases: PathAlias[] = [];
+  private baseUrl?: string;
+  private exportTables = new Map<string, Promise<ExportTable>>();
+
+  private constructor(private projectPath: string, private workspacePackages: WorkspacePackage[]) {}
+
+  static async load(projectPath: string, workspacePackages: WorkspacePackage[] = []): Promise<ModuleResolver> {
+    const resolver = new ModuleResolver(projectPath, workspacePackages);
+    resolver.loadTsConfig();
+    await resolver.loadBundlerAliases();
+    resolver.aliases.push(...CONVENTIONAL_ALIASES.map(alias => ({
+      pattern: alias.pattern,
+      targets: alias.targets.map(target => path.join(projectPath, target)),
+    })));
+    return resolver;
+  }
+
+  /**
+   * Local name -> imported binding for every import of a module. Script
+   * blocks are extracted first for .vue and .svelte files.
+   */
+  static parseImports(sourceCode: string, fileName: string): Map<string, ImportBinding> {
+    const bindings = new Map<string, ImportBinding>();
+    const sourceFile = this.createSourceFile(sourceCode, fileName);
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+
+      const specifier = statement.moduleSpecifier.text;
+      const clause = statement.importClause;
+      if (!clause) continue;
+
+      if (clause.name) {
+        bindings.set(clause.name.text, { specifier, imported: 'default' });
+      }
+      if (clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+        bindings.set(clause.namedBindings.name.text, { specifier, imported: '*' });
+      } else if (clause.namedBindings) {
+        for (const element of clause.namedBindings.elements) {
+          bindings.set(element.name.text, { specifier, imported: (element.propertyName || element.name).text });
+        }
+      }
+    }
+
+    return bindings;
+  }
+
+  // Imports kept only for their side effects, e.g. import './Button.css'
+  static parseSideEffectImports(sourceCode: string, fileName: string): string[] {
+    return this.createSourceFile(sourceCode, fileName).statements
+      .filter((statement): statement is ts.ImportDeclaration =>
+        ts.isImportDeclaration(statement) && !statement.importClause && ts.isStringLiteral(statement.moduleSpecifier)
+      )
+      .map(statement => (statement.moduleSpecifier as ts.StringLiteral).text);
+  }
+
+  async resolve(specifier: string, fromFile: string): Promise<string | undefined> {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return this.resolveFile(path.resolve(path.dirname(fromFile), specifier));
+    }
+
+    for (const candidate of this.aliasCandidates(specifier)) {
+      const resolved = await this.resolveFile(candidate);
+      if (resolved) return resolved;
+    }
+
+    const workspaceImport = await this.resolveWorkspaceImport(specifier);
+    if (workspaceImport) return workspaceImport;
+
+    if (this.baseUrl) {
+      return this.resolveFile(path.join(this.baseUrl, specifier));
+    }
+
+    return undefined;
+  }
+
+  // @acme/ui and @acme/ui/button -> packages/ui/src/...
+  private async resolveWorkspaceImport(specifier: string): Promise<string | undefined> {
+    const pkg = this.workspacePackages.find(candidate =>
+      candidate.relativePath && (specifier === candidate.name || specifier.startsWith(`${candidate.name}/`))
+    );
+    if (!pkg) return undefined;
+
+    const subpath = specifier === pkg.name ? '.' : `./${specifier.slice(pkg.name.length + 1)}`;
+    const { packageJson } = pkg;
+    const exported = this.exportsTarget(packageJson.exports, subpath);
+
+    const entries = subpath === '.'
+      ? [packageJson.source, exported, packageJson.module, packageJson.main, packageJson.types, 'src/index', 'index']
+      : [exported, path.join('src', subpath), subpath];
+
+    for (const entry of entries) {
+      if (typeof entry !== 'string') continue;
+
+      // Prefer the source a build entry was compiled from: dist/index.js -> src/index.ts
+      const normalized = path.normalize(entry);
+      if (BUILD_DIRS.test(normalized)) {
+        const source = normalized.replace(BUILD_DIRS, 'src/').replace(/(\.d)?\.(m?js|cjs|ts)$/, '');
+        const resolved = await this.resolveFile(path.join(pkg.path, source));
+        if (resolved) return resolved;
+      }
+
+      const resolved = await this.resolveFile(path.join(pkg.path, normalized));
+      if (resolved) return resolved;
+    }
+
+    return undefined;
+  }
+
+  private exportsTarget(exports: unknown, subpath: string): string | undefined {
+    if (typeof exports === 'string') return subpath === '.' ? exports : undefined;
+    if (!exports || typeof exports !== 'object' || Array.isArray(exports)) return undefined;
+
+    const entries = exports as Record<string, unknown>;
+    const isSubpathMap = Object.keys(entries).some(key => key.startsWith('.'));
+    if (!isSubpathMap) return subpath === '.' ? this.pickCondition(entries) : undefined;
+
+    if (subpath in entries) return this.pickCondition(entries[subpath]);
+
+    // "./*": "./src/*.ts"
+    for (const [key, value] of Object.entries(entries)) {
+      const star = key.indexOf('*');
+      if (star === -1) continue;
+      const prefix = key.slice(0, star);
+      const suffix = key.slice(star + 1);
+      if (subpath.startsWith(prefix) && subpath.endsWith(suffix)) {
+        const target = this.pickCondition(value);
+        return target?.replace('*', subpath.slice(prefix.length, subpath.length - suffix.length));
+      }
+    }
+
+    return undefined;
+  }
+
+  private pickCondition(value: unknown): string | undefined {
+    if (typeof value === 'string') return value;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+
+    const conditions = value as Record<string, unknown>;
+    for (const condition of EXPORT_CONDITIONS) {
+      const target = this.pickCondition(conditions[condition]);
+      if (target) return target;
+    }
+    return undefined;
+  }
+
+  /**
+   * Follows an imported binding through barrel re-exports (`export { X } from`,
+   * `export * from`, `import X ...; export { X }`) to the module declaring it.
+   */
+  async resolveExport(specifier: string, exportName: string, fromFile: string): Promise<ResolvedExport | undefined> {
+    const filePath = await this.resolve(specifier, fromFile);
+    if (!filePath) return undefined;
+    if (exportName === '*') return { filePath, exportName };
+    return this.findExport(filePath, exportName, new Set());
+  }
+
+  private async findExport(filePath: string, exportName: string, seen: Set<string>): Promise<ResolvedExport | undefined> {
+    const key = `${filePath}#${exportName}`;
+    if (seen.has(key)) return undefined;
+    seen.add(key);
+
+    const table = await this.getExportTable(filePath);
+    if (table.local.has(exportName)) return { filePath, exportName };
+
+    const reexport = table.reexports.get(exportName);
+    if (reexport) {
+      const target = await this.resolve(reexport.specifier, filePath);
+      if (!target) return undefined;
+      if (reexport.imported === '*') return { filePath: target, exportName: '*' };
+      return this.findExport(target, reexport.imported, seen);
+    }
+
+    // export * never forwards the default export
+    if (exportName !== 'default') {
+      for (const specifier of table.starExports) {
+        const target = await this.resolve(specifier, filePath);
+        const found = target ? await this.findExport(target, exportName, seen) : undefined;
+        if (found) return found;
+      }
+    }
+
+    return undefined;
+  }
+
+  private getExportTable(filePath: string): Promise<ExportTable> {
+    let table = this.exportTables.get(filePath);
+    if (!table) {
+      table = this.readExportTable(filePath);
+      this.exportTables.set(filePath, table);
+    }
+    return table;
+  }
+
+  private async readExportTable(filePath: string): Promise<ExportTable> {
+    const table: ExportTable = { local: new Set(), reexports: new Map(), starExports: [] };
+
+    // A single-file component is its module's default export
+    if (filePath.endsWith('.vue') || filePath.endsWith('.svelte')) {
+      table.local.add('default');
+      return table;
+    }
+
+    let sourceCode: string;
+    try {
+      sourceCode = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      return table;
+    }
+
+    const sourceFile = ModuleResolver.createSourceFile(sourceCode, filePath);
+    const imports = ModuleResolver.parseImports(sourceCode, filePath);
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportDeclaration(statement)) {
+        const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+          ? statement.moduleSpecifier.text
+          : undefined;
+
+        if (!statement.exportClause) {
+          if (specifier) table.starExports.push(specifier);
+        } else if (ts.isNamespaceExport(statement.exportClause)) {
+          if (specifier) table.reexports.set(statement.exportClause.name.text, { specifier, imported: '*' });
+        } else {
+          for (const element of statement.exportClause.elements) {
+            const exported = element.name.text;
+            const local = (element.propertyName || element.name).text;
+
+            if (specifier) {
+              table.reexports.set(exported, { specifier, imported: local });
+            } else if (imports.has(local)) {
+              table.reexports.set(exported, imports.get(local)!);
+            } else {
+              table.local.add(exported);
+            }
+          }
+        }
+        continue;
+      }
+
+      if (ts.isExportAssignment(statement)) {
+        const expression = statement.expression;
+        if (ts.isIdentifier(expression) && imports.has(expression.text)) {
+          table.reexports.set('default', imports.get(expression.text)!);
+        } else {
+          table.local.add('default');
+        }
+        continue;
+      }
+
+      const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+      if (!modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) continue;
+
+      if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword)) {
+        table.local.add('default');
+      } else if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name)) table.local.add(declaration.name.text);
+        }
+      } else if (
+        (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isEnumDeclaration(statement)) &&
+        statement.name
+      ) {
+        table.local.add(statement.name.text);
+      }
+    }
+
+    return table;
+  }
+
+  private aliasCandidates(specifier: string): string[] {
+    const candidates: string[] = [];
+
+    // Exact patterns first, then wildcards with the longest prefix, like TypeScript
+    const matches = this.aliases
+      .map(alias => {
+        const star = alias.pattern.indexOf('*');
+        if (star === -1) {
+          return alias.pattern === specifier ? { alias, rest: '', weight: Infinity } : undefined;
+        }
+        const prefix = alias.pattern.slice(0, star);
+        const suffix = alias.pattern.slice(star + 1);
+        if (specifier.length < prefix.length + suffix.length || !specifier.startsWith(prefix) || !specifier.endsWith(suffix)) {
+          return undefined;
+        }
+        return { alias, rest: specifier.slice(prefix.length, specifier.length - suffix.length), weight: prefix.length };
+      })
+      .filter((match): match is { alias: PathAlias; rest: string; weight: number } => !!match)
+      .sort((a, b) => b.weight - a.weight);
+
+    for (const { alias, rest } of matches) {
+      for (const target of alias.targets) {
+        candidates.push(target.replace('*', rest));
+      }
+    }
+
+    return candidates;
+  }
+
+  private async resolveFile(basePath: string): Promise<string | undefined> {
+    const candidates = [basePath];
+
+    // TypeScript ESM imports name the emitted file: './Button.js' -> Button.tsx
+    const jsExtension = basePath.match(/\.(m?js|jsx)$/);
+    if (jsExtension) {
+      const stem = basePath.slice(0, -jsExtension[0].length);
+      candidates.push(`${stem}.ts`, `${stem}.tsx`, `${stem}.mts`);
+    }
+
+    candidates.push(
+      ...RESOLVE_EXTENSIONS.map(extension => basePath + extension),
+      ...RESOLVE_EXTENSIONS.map(extension => path.join(basePath, `index${extension}`))
+    );
+
+    for (const candidate of candidates) {
+      if (await this.isFile(candidate)) return candidate;
+    }
+    return undefined;
+  }
+
+  private loadTsConfig(): void {
+    for (const name of ['tsconfig.json', 'jsconfig.json']) {
+      const configPath = path.join(this.projectPath, name);
+      if (ts.sys.fileExists(configPath)) {
+        this.loadCompilerPaths(configPath, new Set());
+        return;
+      }
+    }
+  }
+
+  // Follows `extends` (via the compiler API) and project references, which
+  // Vite templates use to keep `paths` in tsconfig.app.json
+  private loadCompilerPaths(configPath: string, seen: Set<string>): void {
+    if (seen.has(configPath)) return;
+    seen.add(configPath);
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error || !config) return;
+
+    const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath), undefined, configPath);
+    const { baseUrl, paths } = parsed.options;
+    const pathsBase = baseUrl || (parsed.options.pathsBasePath as string | undefined) || path.dirname(configPath);
+
+    if (baseUrl && !this.baseUrl) this.baseUrl = baseUrl;
+    for (const [pattern, targets] of Object.entries(paths || {})) {
+      this.aliases.push({ pattern, targets: targets.map(target => path.resolve(pathsBase, target)) });
+    }
+
+    for (const reference of parsed.projectReferences || []) {
+      const referencePath = ts.sys.directoryExists(reference.path)
+        ? path.join(reference.path, 'tsconfig.json')
+        : reference.path;
+      if (ts.sys.fileExists(referencePath)) this.loadCompilerPaths(referencePath, seen);
+    }
+  }
+
+  /**
+   * Reads `alias` entries from bundler configs without executing them:
+   * `{ '@': path.resolve(__dirname, 'src') }` objects and Vite's
+   * `[{ find, replacement }]` arrays.
+   */
+  private async loadBundlerAliases(): Promise<void> {
+    for (const baseName of ALIAS_CONFIG_FILES) {
+      for (const extension of CONFIG_EXTENSIONS) {
+        const configPath = path.join(this.projectPath, baseName + extension);
+        let sourceCode: string;
+        try {
+          sourceCode = await fs.readFile(configPath, 'utf8');
+        } catch (error) {
+          continue;
+        }
+
+        const sourceFile = ModuleResolver.createSourceFile(sourceCode, configPath);
+        const visit = (node: ts.Node): void => {
+          if (
+            ts.isPropertyAssignment(node) &&
+            (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name)) &&
+            node.name.text === 'alias'
+          ) {
+            this.addBundlerAliases(node.initializer, path.dirname(configPath));
+          }
+          ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+      }
+    }
+  }
+
+  private addBundlerAliases(initializer: ts.Expression, configDir: string): void {
+    const entries: Array<{ find: string; replacement?: string }> = [];
+
+    if (ts.isObjectLiteralExpression(initializer)) {
+      for (const property of initializer.properties) {
+        if (!ts.isPropertyAssignment(property)) continue;
+        if (!(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) continue;
+        entries.push({ find: property.name.text, replacement: this.evaluatePath(property.initializer, configDir) });
+      }
+    } else if (ts.isArrayLiteralExpression(initializer)) {
+      for (const element of initializer.elements) {
+        if (!ts.isObjectLiteralExpression(element)) continue;
+        let find: string | undefined;
+        let replacement: string | undefined;
+        for (const property of element.properties) {
+          if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name)) continue;
+          // Regex `find` values cannot be expressed as path patterns
+          if (property.name.text === 'find' && ts.isStringLiteralLike(property.initializer)) find = property.initializer.text;
+          if (property.name.text === 'replacement') replacement = this.evaluatePath(property.initializer, configDir);
+        }
+        if (find) entries.push({ find, replacement });
+      }
+    }
+
+    for (const { find, replacement } of entries) {
+      if (!replacement) continue;
+
+      // webpack: 'vue$' only matches the bare specifier
+      if (find.endsWith('$')) {
+        this.aliases.push({ pattern: find.slice(0, -1), targets: [replacement] });
+        continue;
+      }
+      this.aliases.push({ pattern: find, targets: [replacement] });
+      this.aliases.push({ pattern: `${find.replace(/\/$/, '')}/*`, targets: [path.join(replacement, '*')] });
+    }
+  }
+
+  // path.resolve(__dirname, 'src'), fileURLToPath(new URL('./src', import.meta.url)), './src'
+  private evaluatePath(expression: ts.Expression, configDir: string): string | undefined {
+    if (ts.isStringLiteralLike(expression)) {
+      return path.isAbsolute(expression.text) ? expression.text : path.resolve(configDir, expression.text);
+    }
+
+    if (ts.isIdentifier(expression) && ['__dirname', 'dirname'].includes(expression.text)) {
+      return configDir;
+    }
+
+    if (ts.isTemplateExpression(expression)) {
+      let result = expression.head.text;
+      for (const span of expression.templateSpans) {
+        const value = this.evaluatePath(span.expression, configDir);
+        if (value === undefined) return undefined;
+        result += value + span.literal.text;
+      }
+      return path.resolve(configDir, result);
+    }
+
+    if (ts.isPropertyAccessExpression(expression) && expression.name.text === 'pathname') {
+      return this.evaluatePath(expression.expression, configDir);
+    }
+
+    if (ts.isNewExpression(expression) && ts.isIdentifier(expression.expression) && expression.expression.text === 'URL') {
+      const [url] = expression.arguments || [];
+      return url && ts.isStringLiteralLike(url) ? path.resolve(configDir, url.text) : undefined;
+    }
+
+    if (ts.isCallExpression(expression)) {
+      const callee = expression.expression.getText();
+      if (callee === 'process.cwd') return this.projectPath;
+      if (callee === 'fileURLToPath' && expression.arguments[0]) {
+        return this.evaluatePath(expression.arguments[0], configDir);
+      }
+      if (/^(path\.)?(resolve|join)$/.test(callee)) {
+        const parts = expression.arguments.map(argument =>
+          ts.isStringLiteralLike(argument) ? argument.text : this.evaluatePath(argument, configDir)
+        );
+        if (parts.some(part => part === undefined)) return undefined;
+        return path.resolve(configDir, ...(parts as string[]));
+      }
+    }
+
+    return undefined;
+  }
+
+  private static createSourceFile(sourceCode: string, fileName: string): ts.SourceFile {
+    const isSingleFileComponent = fileName.endsWith('.vue') || fileName.endsWith('.svelte');
+    const script = isSingleFileComponent
+      ? Array.from(sourceCode.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script>/g)).map(match => match[1]).join('\n')
+      : sourceCode;
+
+    return ts.createSourceFile(
+      fileName,
+      script,
+      ts.ScriptTarget.Latest,
+      true,
+      isSingleFileComponent ? ts.ScriptKind.TS : ComponentParser.getScriptKind(fileName)
+    );
+  }
+
+  private async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import type { Page, Response } from 'playwright';
+import type { PageAction, PageActionResult } from '../types/index.js';
+import { ElementMarks } from './element-marks.js';
+import { ImageProcessor } from './image-processor.js';
+import { SelectorEngine } from './selector-engine.js';
+
+const DEFAULT_TIMEOUT = 10000;
+
+/**
+ * Runs interaction scripts (open a dropdown, submit a form, step through a
+ * wizard) so tools capture the page in the state that matters. Steps run in
+ * order; after a failure the rest are reported as skipped and capture goes on
+ * with the page as it is.
+ */
+export class PageActions {
+  static async run(
+    page: Page,
+    actions: PageAction[],
+    options: { screenshots?: boolean } = {}
+  ): Promise<PageActionResult[]> {
+    const results: PageActionResult[] = [];
+
+    // Responses are recorded from the start, so waitForResponse also sees
+    // one triggered by the step before it
+    const responses: Response[] = [];
+    const onResponse = (response: Response) => { responses.push(response); };
+    page.on('response', onResponse);
+
+    try {
+      let failed = false;
+      let stepResponses = 0;
+
+      for (const [index, action] of actions.entries()) {
+        const result: PageActionResult = {
+          index: index + 1,
+          type: action.type,
+          target: this.describeTarget(action),
+          success: false,
+          duration: 0,
+        };
+        results.push(result);
+
+        if (failed) {
+          result.skipped = true;
+          continue;
+        }
+
+        const startTime = Date.now();
+        const seenResponses = stepResponses;
+        stepResponses = responses.length;
+
+        try {
+          const value = await this.runAction(page, action, responses.slice(seenResponses));
+          if (value !== undefined) result.result = this.serialize(value);
+          result.success = true;
+        } catch (error) {
+          result.error = (error as Error).message.split('\n')[0];
+          failed = true;
+          console.warn(`⚠️ Action ${index + 1} (${action.type}) failed: ${result.error}`);
+        }
+        result.duration = Date.now() - startTime;
+
+        if (action.screenshot && options.screenshots !== false) {
+          try {
+            result.screenshot = await ImageProcessor.optimizeScreenshotToBase64(await page.screenshot({ type: 'png' }));
+          } catch (error) {
+            console.warn(`⚠️ Could not capture action ${index + 1}:`, (error as Error).message);
+          }
+        }
+      }
+    } finally {
+      page.off('response', onResponse);
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    console.log(`▶️ Ran ${succeeded}/${actions.length} actions`);
+    return results;
+  }
+
+  private static async runAction(page: Page, action: PageAction, recentResponses: Response[]): Promise<unknown> {
+    const timeout = action.timeout ?? DEFAULT_TIMEOUT;
+
+    switch (action.type) {
+      case 'click':
+        await this.locate(page, action).click({ timeout });
+        return this.settle(page);
+
+      case 'fill':
+        await this.locate(page, action).fill(this.values(action)[0] ?? '', { timeout });
+        return;
+
+      case 'press':
+        if (!action.key) throw new Error('press needs a key');
+        if (action.selector || action.elementRef !== undefined) {
+          await this.locate(page, action).press(action.key, { timeout });
+        } else {
+          await page.keyboard.press(action.key);
+        }
+        return this.settle(page);
+
+      case 'hover':
+        await this.locate(page, action).hover({ timeout });
+        // Menus opened on hover often animate in
+        await page.waitForTimeout(300);
+        return;
+
+      case 'select':
+        await this.locate(page, action).selectOption(this.values(action), { timeout });
+        return this.settle(page);
+
+      case 'scroll':
+        if (action.selector || action.elementRef !== undefined) {
+          await this.locate(page, action).scrollIntoViewIfNeeded({ timeout });
+        } else {
+          await page.evaluate(({ x, y }) => window.scrollTo(x, y), { x: action.x ?? 0, y: action.y ?? 0 });
+        }
+        // Lazy-loaded content and scroll-triggered animations
+        await page.waitForTimeout(300);
+        return;
+
+      case 'waitForSelector':
+        await this.locate(page, action).waitFor({ state: action.state || 'visible', timeout });
+        return;
+
+      case 'waitForResponse': {
+        if (!action.url) throw new Error('waitForResponse needs a url');
+        const matches = this.urlMatcher(action.url);
+        const seen = recentResponses.find(response => matches(response.url()));
+        const response = seen || await page.waitForResponse(response => matches(response.url()), { timeout });
+        await this.settle(page);
+        return { url: response.url(), status: response.status() };
+      }
+
+      case 'evaluate':
+        if (!action.script) throw new Error('evaluate needs a script');
+        return await page.evaluate(action.script);
+
+      default:
+        throw new Error(`Unknown action type "${(action as PageAction).type}"`);
+    }
+  }
+
+  private static locate(page: Page, action: PageAction) {
+    let selector = action.selector;
+    if (action.elementRef !== undefined) {
+      const mark = ElementMarks.resolve(action.elementRef, page.url());
+      if (!mark) throw new Error(`Unknown elementRef ${action.elementRef}`);
+      selector = mark.selector;
+    }
+    if (!selector) throw new Error(`${action.type} needs a selector or an elementRef`);
+
+    return SelectorEngine.toLocator(page, selector).first();
+  }
+
+  // Lets navigation and requests triggered by the step finish
+  private static async settle(page: Page): Promise<void> {
+    try {
+      await page.waitForLoadState('networkidle', { timeout: 5000 });
+    } catch (error) {
+      // Long polling or streaming keeps the network busy; capture anyway
+    }
+  }
+
+  private static values(action: PageAction): string[] {
+    if (action.value === undefined) return [];
+    return Array.isArray(action.value) ? action.value : [action.value];
+  }
+
+  // "/api/items" matches as a substring, "/\/api\/items\/\d+/" as a regex
+  private static urlMatcher(pattern: string): (url: string) => boolean {
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    if (regex) {
+      const compiled = new RegExp(regex[1], regex[2]);
+      return url => compiled.test(url);
+    }
+    return url => url.includes(pattern);
+  }
+
+  private static describeTarget(action: PageAction): string | undefined {
+    if (action.elementRef !== undefined) return `#${action.elementRef}`;
+    if (action.type === 'waitForResponse') return action.url;
+    if (action.type === 'evaluate') return action.script?.slice(0, 80);
+    if (action.type === 'scroll' && !action.selector) return `${action.x ?? 0}, ${action.y ?? 0}`;
+    return [action.selector, action.key].filter(Boolean).join(' ') || undefined;
+  }
+
+  private static serialize(value: unknown): string {
+    try {
+      const json = JSON.stringify(value);
+      if (json === undefined) return String(value);
+      return json.length > 500 ? `${json.slice(0, 500)}…` : json;
+    } catch (error) {
+      return String(value);
+    }
+  }
+}
@@ -0,0 +1,688 @@
+import fs from 'fs/promises';
+import path from 'path';
+import ts from 'typescript';
+import { ComponentParser } from './component-parser.js';
+import { ModuleResolver, type ImportBinding } from './module-resolver.js';
+import type { WorkspacePackage } from './workspace-detector.js';
+
+export type RouteSource =
+  | 'next-pages'
+  | 'next-app'
+  | 'remix'
+  | 'react-router'
+  | 'vue-router'
+  | 'nuxt'
+  | 'sveltekit'
+  | 'pages-directory';
+
+export interface DiscoveredRoute {
+  route: string; // normalized: /users/:id, /docs/*slug, /docs/*slug? for optional catch-alls
+  filePath: string; // absolute path of the module rendering the page
+  params: string[];
+  layouts: string[]; // absolute paths of wrapping layouts, outermost first
+  source: RouteSource;
+}
+
+interface RouteFileContext {
+  filePath: string;
+  sourceFile: ts.SourceFile;
+  imports: Map<string, ImportBinding>;
+  resolver: ModuleResolver;
+}
+
+const SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mdx'];
+const ROUTER_CALLS = new Set([
+  'createBrowserRouter', 'createHashRouter', 'createMemoryRouter', 'createStaticRouter',
+  'useRoutes', 'createRouter',
+]);
+
+export class RouteDiscovery {
+  /**
+   * Discovers the routes of a project from every router convention found in
+   * it. File-system routers are detected by their directories, config-based
+   * routers (React Router, Vue Router) by scanning modules that import them.
+   */
+  static async discover(projectPath: string, workspacePackages: WorkspacePackage[] = []): Promise<DiscoveredRoute[]> {
+    const dependencies = await this.readDependencies(projectPath);
+    const routes: DiscoveredRoute[] = [];
+
+    if (dependencies.has('next')) {
+      routes.push(...await this.discoverNextPages(projectPath));
+      routes.push(...await this.discoverNextApp(projectPath));
+    }
+
+    if (dependencies.has('@remix-run/react') || dependencies.has('@react-router/dev')) {
+      routes.push(...await this.discoverRemix(projectPath));
+    }
+
+    if (dependencies.has('nuxt')) {
+      routes.push(...await this.discoverNuxt(projectPath));
+    }
+
+    // +page.svelte files are unambiguous, no dependency check needed
+    routes.push(...await this.discoverSvelteKit(projectPath));
+
+    // Config-based routers; skipped when a file-system router already
+    // produced the routes since those frameworks bundle their own router
+    if (routes.length === 0 && (dependencies.has('react-router') || dependencies.has('react-router-dom') || dependencies.has('vue-router'))) {
+      routes.push(...await this.discoverRouterConfig(projectPath, workspacePackages));
+    }
+
+    if (routes.length === 0) {
+      routes.push(...await this.discoverPagesDirectory(projectPath));
+    }
+
+    // The same module can be reached through several conventions
+    const seen = new Set<string>();
+    return routes.filter(route => {
+      const key = `${route.route}|${route.filePath}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Fills dynamic segments with placeholder values so the page can be
+   * visited: /users/:id -> /users/1. Optional segments are dropped.
+   */
+  static sampleUrl(route: string): string {
+    const segments = route.split('/').filter(Boolean).flatMap(segment => {
+      if (segment.endsWith('?')) return [];
+      if (segment.startsWith(':') || segment.startsWith('*')) {
+        const name = segment.slice(1);
+        return [/(^id$|Id$|_id$)/.test(name) ? '1' : 'example'];
+      }
+      return [segment];
+    });
+    return '/' + segments.join('/');
+  }
+
+  static extractParams(route: string): string[] {
+    return route
+      .split('/')
+      .filter(segment => segment.startsWith(':') || segment.startsWith('*'))
+      .map(segment => segment.slice(1).replace(/\?$/, ''));
+  }
+
+  // === Next.js ===
+
+  private static async discoverNextPages(projectPath: string): Promise<DiscoveredRoute[]> {
+    const pagesDir = await this.firstExistingDir(projectPath, ['pages', 'src/pages']);
+    if (!pagesDir) return [];
+
+    const app = await this.findWithExtensions(path.join(pagesDir, '_app'), SCRIPT_EXTENSIONS);
+    const files = await this.walk(pagesDir, file => SCRIPT_EXTENSIONS.includes(path.extname(file)));
+
+    return files
+      .filter(file => {
+        const relative = path.relative(pagesDir, file);
+        return !relative.startsWith(`api${path.sep}`) && !path.basename(file).startsWith('_');
+      })
+      .map(file => {
+        const segments = path.relative(pagesDir, file).replace(/\.[^.]+$/, '').split(path.sep);
+        if (segments[segments.length - 1] === 'index') segments.pop();
+        return this.createRoute(segments.map(segment => this.convertBracketSegment(segment)), file, app ? [app] : [], 'next-pages');
+      });
+  }
+
+  private static async discoverNextApp(projectPath: string): Promise<DiscoveredRoute[]> {
+    const appDir = await this.firstExistingDir(projectPath, ['app', 'src/app']);
+    if (!appDir) return [];
+
+    const pageFiles = await this.walk(appDir, file => /^page\.(tsx|ts|jsx|js|mdx)$/.test(path.basename(file)));
+    const routes: DiscoveredRoute[] = [];
+
+    for (const file of pageFiles) {
+      const dirs = path.relative(appDir, path.dirname(file)).split(path.sep).filter(Boolean);
+
+      // Parallel route slots (@modal), intercepting routes ((.)photo) and private folders (_lib)
+      if (dirs.some(dir => dir.startsWith('@') || dir.startsWith('(.') || dir.startsWith('_'))) continue;
+
+      const layouts: string[] = [];
+      for (let depth = 0; depth <= dirs.length; depth++) {
+        const layout = await this.findWithExtensions(path.join(appDir, ...dirs.slice(0, depth), 'layout'), SCRIPT_EXTENSIONS);
+        if (layout) layouts.push(layout);
+      }
+
+      const segments = dirs
+        .filter(dir => !/^\(.*\)$/.test(dir)) // route groups
+        .map(dir => this.convertBracketSegment(dir));
+
+      routes.push(this.createRoute(segments, file, layouts, 'next-app'));
+    }
+
+    return routes;
+  }
+
+  // [id] -> :id, [...slug] -> *slug, [[...slug]] -> *slug?, [[id]] -> :id?
+  private static convertBracketSegment(segment: string): string {
+    return segment
+      .replace(/^\[\[\.\.\.(\w+)\]\]$/, '*$1?')
+      .replace(/^\[\.\.\.(\w+)\]$/, '*$1')
+      .replace(/^\[\[(\w+)\]\]$/, ':$1?')
+      .replace(/^\[(\w+)(=\w+)?\]$/, ':$1');
+  }
+
+  // === Remix / React Router framework mode ===
+
+  private static async discoverRemix(projectPath: string): Promise<DiscoveredRoute[]> {
+    const appDir = path.join(projectPath, 'app');
+    const routesDir = path.join(appDir, 'routes');
+    if (!(await this.isDirectory(routesDir))) return [];
+
+    const root = await this.findWithExtensions(path.join(appDir, 'root'), SCRIPT_EXTENSIONS);
+    const entries = await fs.readdir(routesDir, { withFileTypes: true });
+
+    // Route id (file name without extension, or folder name) -> module
+    const modules = new Map<string, string>();
+    for (const entry of entries) {
+      if (entry.isFile() && SCRIPT_EXTENSIONS.includes(path.extname(entry.name))) {
+        modules.set(entry.name.replace(/\.[^.]+$/, ''), path.join(routesDir, entry.name));
+      } else if (entry.isDirectory()) {
+        const routeModule = await this.findWithExtensions(path.join(routesDir, entry.name, 'route'), SCRIPT_EXTENSIONS);
+        if (routeModule) modules.set(entry.name, routeModule);
+      }
+    }
+
+    const routes: DiscoveredRoute[] = [];
+    for (const [id, file] of modules) {
+      const parts = id.split('.');
+
+      // Pathless layouts (_auth) and parents with an index route only wrap other pages
+      const isLayoutOnly = parts[parts.length - 1].startsWith('_') && parts[parts.length - 1] !== '_index';
+      if (isLayoutOnly || modules.has(`${id}._index`)) continue;
+
+      const layouts = root ? [root] : [];
+      for (let length = 1; length < parts.length; length++) {
+        const parent = modules.get(parts.slice(0, length).join('.'));
+        if (parent) layouts.push(parent);
+      }
+
+      const segments = parts.flatMap(part => {
+        if (part === '_index' || part.startsWith('_')) return []; // index and pathless layout segments
+        const segment = part.replace(/_$/, ''); // users_.$id opts out of the users layout
+        if (segment === '$') return ['*splat'];
+        if (/^\(\$\w+\)$/.test(segment)) return [`:${segment.slice(2, -1)}?`];
+        if (/^\(\w+\)$/.test(segment)) return [`${segment.slice(1, -1)}?`];
+        if (segment.startsWith('$')) return [`:${segment.slice(1)}`];
+        return [segment.replace(/\[(.*?)\]/g, '$1')]; // [.]well-known escapes a dot
+      });
+
+      routes.push(this.createRoute(segments, file, layouts, 'remix'));
+    }
+
+    return routes;
+  }
+
+  // === Nuxt ===
+
+  private static async discoverNuxt(projectPath: string): Promise<DiscoveredRoute[]> {
+    const srcDir = await this.firstExistingDir(projectPath, ['app', '.']) || projectPath;
+    const pagesDir = await this.firstExistingDir(projectPath, ['app/pages', 'pages']);
+    if (!pagesDir) return [];
+
+    const appVue = await this.findWithExtensions(path.join(srcDir, 'app'), ['.vue']);
+    const files = await this.walk(pagesDir, file => file.endsWith('.vue'));
+    const routes: DiscoveredRoute[] = [];
+
+    for (const file of files) {
+      const parts = path.relative(pagesDir, file).replace(/\.vue$/, '').split(path.sep);
+      const layouts: string[] = appVue ? [appVue] : [];
+
+      // definePageMeta({ layout: 'admin' }) picks layouts/admin.vue, otherwise layouts/default.vue
+      const source = await fs.readFile(file, 'utf8');
+      const layoutName = source.match(/definePageMeta\(\s*\{[\s\S]*?layout:\s*['"]([\w-]+)['"]/)?.[1] || 'default';
+      const layout = await this.findWithExtensions(path.join(srcDir, 'layouts', layoutName), ['.vue']);
+      if (layout) layouts.push(layout);
+
+      // pages/users.vue wraps pages/users/*.vue through <NuxtPage>
+      for (let length = 1; length < parts.length; length++) {
+        const parent = await this.findWithExtensions(path.join(pagesDir, ...parts.slice(0, length)), ['.vue']);
+        if (parent) layouts.push(parent);
+      }
+
+      const segments = parts
+        .filter(part => !/^\(.*\)$/.test(part))
+        .map(part => this.convertBracketSegment(part));
+      if (segments[segments.length - 1] === 'index') segments.pop();
+
+      routes.push(this.createRoute(segments, file, layouts, 'nuxt'));
+    }
+
+    return routes;
+  }
+
+  // === SvelteKit ===
+
+  private static async discoverSvelteKit(projectPath: string): Promise<DiscoveredRoute[]> {
+    const routesDir = path.join(projectPath, 'src', 'routes');
+    const files = await this.walk(routesDir, file => /^\+page(@[\w-]*)?\.svelte$/.test(path.basename(file)));
+    const routes: DiscoveredRoute[] = [];
+
+    for (const file of files) {
+      const dirs = path.relative(routesDir, path.dirname(file)).split(path.sep).filter(Boolean);
+
+      const layouts: string[] = [];
+      for (let depth = 0; depth <= dirs.length; depth++) {
+        const layout = path.join(routesDir, ...dirs.slice(0, depth), '+layout.svelte');
+        if (await this.isFile(layout)) layouts.push(layout);
+      }
+
+      const segments = dirs
+        .filter(dir => !/^\(.*\)$/.test(dir))
+        .map(dir => this.convertBracketSegment(dir));
+
+      routes.push(this.createRoute(segments, file, layouts, 'sveltekit'));
+    }
+
+    return routes;
+  }
+
+  // === React Router / Vue Router configuration ===
+
+  private static async discoverRouterConfig(projectPath: string, workspacePackages: WorkspacePackage[]): Promise<DiscoveredRoute[]> {
+    const resolver = await ModuleResolver.load(projectPath, workspacePackages);
+    const srcDir = path.join(projectPath, 'src');
+    const files = await this.walk(srcDir, file => /\.(tsx?|jsx?)$/.test(file) && !file.endsWith('.d.ts'));
+    const routes: DiscoveredRoute[] = [];
+
+    for (const file of files) {
+      const sourceCode = await fs.readFile(file, 'utf8');
+      if (!/react-router|vue-router/.test(sourceCode) && !/^(routes?|router)\./.test(path.basename(file))) continue;
+
+      const context = this.createFileContext(file, sourceCode, resolver);
+      const source: RouteSource = sourceCode.includes('vue-router') ? 'vue-router' : 'react-router';
+
+      for (const routeArray of this.findRouteArrays(context.sourceFile)) {
+        routes.push(...await this.parseRouteObjects(routeArray, context, '', [], source));
+      }
+
+      for (const element of this.findTopLevelRouteElements(context.sourceFile)) {
+        routes.push(...await this.parseRouteElement(element, context, '', []));
+      }
+    }
+
+    return routes;
+  }
+
+  private static createFileContext(filePath: string, sourceCode: string, resolver: ModuleResolver): RouteFileContext {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      sourceCode,
+      ts.ScriptTarget.Latest,
+      true,
+      ComponentParser.getScriptKind(filePath)
+    );
+
+    return { filePath, sourceFile, imports: ModuleResolver.parseImports(sourceCode, filePath), resolver };
+  }
+
+  /**
+   * Outermost array literals of route objects ({ path, element | component,
+   * children }); nested arrays are reached through `children`.
+   */
+  private static findRouteArrays(sourceFile: ts.SourceFile): ts.ArrayLiteralExpression[] {
+    const arrays: ts.ArrayLiteralExpression[] = [];
+
+    const isRouteObject = (node: ts.Expression) =>
+      ts.isObjectLiteralExpression(node) &&
+      node.properties.some(prop => prop.name && ts.isIdentifier(prop.name) && ['path', 'index'].includes(prop.name.text));
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isArrayLiteralExpression(node) && node.elements.length > 0 && node.elements.some(isRouteObject)) {
+        arrays.push(node);
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    // Only look where routers are configured so unrelated { path } arrays are ignored
+    const visitRouterSites = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && ROUTER_CALLS.has(node.expression.text)) {
+        node.arguments.forEach(visit);
+      } else if (
+        ts.isVariableDeclaration(node) &&
+        ts.isIdentifier(node.name) &&
+        /routes$/i.test(node.name.text) &&
+        node.initializer
+      ) {
+        visit(node.initializer);
+        return;
+      } else if (ts.isExportAssignment(node)) {
+        visit(node.expression);
+        return;
+      }
+      ts.forEachChild(node, visitRouterSites);
+    };
+
+    visitRouterSites(sourceFile);
+    return Array.from(new Set(arrays));
+  }
+
+  private static async parseRouteObjects(
+    array: ts.ArrayLiteralExpression,
+    context: RouteFileContext,
+    parentPath: string,
+    parentLayouts: string[],
+    source: RouteSource
+  ): Promise<DiscoveredRoute[]> {
+    const routes: DiscoveredRoute[] = [];
+
+    for (const element of array.elements) {
+      if (!ts.isObjectLiteralExpression(element)) continue;
+
+      const props = new Map<string, ts.Expression>();
+      for (const prop of element.properties) {
+        if (ts.isPropertyAssignment(prop) && prop.name && ts.isIdentifier(prop.name)) {
+          props.set(prop.name.text, prop.initializer);
+        } else if (ts.isShorthandPropertyAssignment(prop)) {
+          props.set(prop.name.text, prop.name);
+        } else if (ts.isMethodDeclaration(prop) && prop.name && ts.isIdentifier(prop.name) && prop.body) {
+          // lazy() { return import('./Page') }
+          props.set(prop.name.text, ts.factory.createArrowFunction(undefined, undefined, [], undefined, undefined, prop.body));
+        }
+      }
+
+      const pathValue = props.get('path');
+      const ownPath = pathValue && ts.isStringLiteralLike(pathValue) ? pathValue.text : '';
+      const fullPath = this.joinRoutePaths(parentPath, ownPath);
+
+      const moduleExpression = props.get('element') || props.get('Component') || props.get('component') || props.get('lazy');
+      const moduleFile = moduleExpression
+        ? await this.resolveRouteModule(moduleExpression, context)
+        : undefined;
+
+      const children = props.get('children');
+      if (children && ts.isArrayLiteralExpression(children)) {
+        routes.push(...await this.parseRouteObjects(
+          children,
+          context,
+          fullPath,
+          moduleFile ? [...parentLayouts, moduleFile] : parentLayouts,
+          source
+        ));
+        // A parent with children renders an <Outlet />/<RouterView />; it is a page
+        // of its own only when it has no index child
+        const hasIndex = children.elements.some(child => ts.isObjectLiteralExpression(child) && child.properties.some(prop =>
+          prop.name && ts.isIdentifier(prop.name) &&
+          (prop.name.text === 'index' || (prop.name.text === 'path' && ts.isPropertyAssignment(prop) && ts.isStringLiteralLike(prop.initializer) && prop.initializer.text === ''))
+        ));
+        if (hasIndex) continue;
+      }
+
+      if (!pathValue && !props.has('index')) continue;
+
+      routes.push(this.createRoute(
+        this.normalizeConfigPath(fullPath).split('/').filter(Boolean),
+        moduleFile || context.filePath,
+        parentLayouts,
+        source
+      ));
+    }
+
+    return routes;
+  }
+
+  private static findTopLevelRouteElements(sourceFile: ts.SourceFile): Array<ts.JsxElement | ts.JsxSelfClosingElement> {
+    const elements: Array<ts.JsxElement | ts.JsxSelfClosingElement> = [];
+
+    const visit = (node: ts.Node): void => {
+      if ((ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) && this.jsxTagName(node) === 'Route') {
+        elements.push(node);
+        return;
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return elements;
+  }
+
+  private static async parseRouteElement(
+    node: ts.JsxElement | ts.JsxSelfClosingElement,
+    context: RouteFileContext,
+    parentPath: string,
+    parentLayouts: string[]
+  ): Promise<DiscoveredRoute[]> {
+    const attributes = ts.isJsxElement(node) ? node.openingElement.attributes : node.attributes;
+    const attr = (name: string) => attributes.properties.find(
+      (prop): prop is ts.JsxAttribute => ts.isJsxAttribute(prop) && prop.name.getText() === name
+    );
+
+    const pathAttr = attr('path')?.initializer;
+    const ownPath = pathAttr && ts.isStringLiteral(pathAttr)
+      ? pathAttr.text
+      : pathAttr && ts.isJsxExpression(pathAttr) && pathAttr.expression && ts.isStringLiteralLike(pathAttr.expression)
+        ? pathAttr.expression.text
+        : '';
+    const fullPath = this.joinRoutePaths(parentPath, ownPath);
+
+    const elementAttr = attr('element')?.initializer || attr('Component')?.initializer || attr('component')?.initializer;
+    const moduleExpression = elementAttr && ts.isJsxExpression(elementAttr) ? elementAttr.expression : undefined;
+    const moduleFile = moduleExpression ? await this.resolveRouteModule(moduleExpression, context) : undefined;
+
+    const childRoutes = ts.isJsxElement(node)
+      ? node.children.filter((child): child is ts.JsxElement | ts.JsxSelfClosingElement =>
+          (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) && this.jsxTagName(child) === 'Route')
+      : [];
+
+    const routes: DiscoveredRoute[] = [];
+    for (const child of childRoutes) {
+      routes.push(...await this.parseRouteElement(
+        child,
+        context,
+        fullPath,
+        moduleFile ? [...parentLayouts, moduleFile] : parentLayouts
+      ));
+    }
+
+    const isIndex = !!attr('index');
+    const hasIndexChild = childRoutes.some(child => {
+      const childAttributes = ts.isJsxElement(child) ? child.openingElement.attributes : child.attributes;
+      return childAttributes.properties.some(prop => ts.isJsxAttribute(prop) && prop.name.getText() === 'index');
+    });
+
+    if ((pathAttr || isIndex) && !hasIndexChild) {
+      routes.push(this.createRoute(
+        this.normalizeConfigPath(fullPath).split('/').filter(Boolean),
+        moduleFile || context.filePath,
+        parentLayouts,
+        'react-router'
+      ));
+    }
+
+    return routes;
+  }
+
+  private static jsxTagName(node: ts.JsxElement | ts.JsxSelfClosingElement): string {
+    return (ts.isJsxElement(node) ? node.openingElement.tagName : node.tagName).getText();
+  }
+
+  /**
+   * Finds the file behind a route's element/component: <UsersPage />,
+   * UsersPage, () => import('./pages/Users') or lazy(() => import(...)).
+   */
+  private static async resolveRouteModule(
+    expression: ts.Expression,
+    context: RouteFileContext
+  ): Promise<string | undefined> {
+    let identifier: string | undefined;
+    let specifier: string | undefined;
+
+    const visit = (node: ts.Node): void => {
+      if (specifier || identifier) return;
+
+      if (
+        ts.isCallExpression(node) &&
+        node.expression.kind === ts.SyntaxKind.ImportKeyword &&
+        node.arguments[0] &&
+        ts.isStringLiteralLike(node.arguments[0])
+      ) {
+        specifier = node.arguments[0].text;
+        return;
+      }
+
+      // lazy(() => import('./Page')): look inside the arguments, not at the callee
+      if (ts.isCallExpression(node)) {
+        node.arguments.forEach(visit);
+        return;
+      }
+
+      if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+        identifier = (ts.isJsxElement(node) ? node.openingElement.tagName : node.tagName).getText().split('.')[0];
+        return;
+      }
+
+      if (ts.isIdentifier(node)) {
+        identifier = node.text;
+        return;
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(expression);
+
+    if (identifier && !specifier) {
+      const binding = context.imports.get(identifier);
+      if (binding) {
+        // Follows barrels: import { UsersPage } from '@/pages'
+        const resolved = await context.resolver.resolveExport(binding.specifier, binding.imported, context.filePath);
+        return resolved?.filePath || context.resolver.resolve(binding.specifier, context.filePath);
+      }
+
+      // const UsersPage = lazy(() => import('./pages/Users')) declared in the same file
+      const declaration = this.findVariable(context.sourceFile, identifier);
+      if (declaration?.initializer) {
+        return this.resolveRouteModule(declaration.initializer, { ...context, imports: new Map() });
+      }
+      // Components declared in the router file itself
+      return declaration ? context.filePath : undefined;
+    }
+
+    return specifier ? context.resolver.resolve(specifier, context.filePath) : undefined;
+  }
+
+  private static findVariable(sourceFile: ts.SourceFile, name: string): ts.VariableDeclaration | undefined {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+          return declaration;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private static joinRoutePaths(parent: string, child: string): string {
+    if (child.startsWith('/')) return child;
+    return [parent.replace(/\/$/, ''), child].filter(Boolean).join('/') || '/';
+  }
+
+  // Vue Router :pathMatch(.*)* and React Router * splats -> *name
+  private static normalizeConfigPath(routePath: string): string {
+    return routePath
+      .split('/')
+      .map(segment => {
+        if (segment === '*') return '*splat';
+        const repeat = segment.match(/^:(\w+)\(.*\)([*+])$/);
+        if (repeat) return repeat[2] === '*' ? `*${repeat[1]}?` : `*${repeat[1]}`;
+        return segment.replace(/^:(\w+)\(.*\)(\??)$/, ':$1$2');
+      })
+      .join('/');
+  }
+
+  // === Fallback ===
+
+  private static async discoverPagesDirectory(projectPath: string): Promise<DiscoveredRoute[]> {
+    const pagesDir = path.join(projectPath, 'src', 'pages');
+    const files = await this.walk(pagesDir, file => /\.(tsx?|jsx?|vue|svelte)$/.test(file) && !file.endsWith('.d.ts'));
+
+    return files.map(file => {
+      const segments = path.relative(pagesDir, file).replace(/\.[^.]+$/, '').split(path.sep).map(segment =>
+        // UserProfile -> user-profile
+        segment.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()
+      );
+      if (['index', 'home'].includes(segments[segments.length - 1])) segments.pop();
+      return this.createRoute(segments.map(segment => this.convertBracketSegment(segment)), file, [], 'pages-directory');
+    });
+  }
+
+  // === Helpers ===
+
+  private static createRoute(segments: string[], filePath: string, layouts: string[], source: RouteSource): DiscoveredRoute {
+    const route = '/' + segments.filter(Boolean).join('/');
+    return {
+      route,
+      filePath,
+      params: this.extractParams(route),
+      layouts: layouts.filter(layout => layout !== filePath),
+      source,
+    };
+  }
+
+  private static async readDependencies(projectPath: string): Promise<Set<string>> {
+    try {
+      const packageJson = JSON.parse(await fs.readFile(path.join(projectPath, 'package.json'), 'utf8'));
+      return new Set([
+        ...Object.keys(packageJson.dependencies || {}),
+        ...Object.keys(packageJson.devDependencies || {}),
+      ]);
+    } catch (error) {
+      return new Set();
+    }
+  }
+
+  private static async walk(dirPath: string, include: (file: string) => boolean): Promise<string[]> {
+    const files: string[] = [];
+
+    try {
+      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      for (const entry of entries) {
+        const fullPath = path.join(dirPath, entry.name);
+        if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
+          files.push(...await this.walk(fullPath, include));
+        } else if (entry.isFile() && include(fullPath)) {
+          files.push(fullPath);
+        }
+      }
+    } catch (error) {
+      // Directory might not exist
+    }
+
+    return files.sort();
+  }
+
+  private static async firstExistingDir(projectPath: string, candidates: string[]): Promise<string | undefined> {
+    for (const candidate of candidates) {
+      const dir = path.join(projectPath, candidate);
+      if (await this.isDirectory(dir)) return dir;
+    }
+    return undefined;
+  }
+
+  private static async findWithExtensions(basePath: string, extensions: string[]): Promise<string | undefined> {
+    for (const extension of extensions) {
+      if (await this.isFile(basePath + extension)) return basePath + extension;
+    }
+    return undefined;
+  }
+
+  private static async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(filePath)).isFile();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private static async isDirectory(dirPath: string): Promise<boolean> {
+    try {
+      return (await fs.stat(dirPath)).isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import type { Page } from 'playwright';
+
+export interface ElementSelector {
+  selector: string; // CSS selector, usable with querySelector
+  locator: string; // Playwright locator expression, e.g. getByRole('button', { name: 'Save' })
+  strategy: 'testid' | 'role' | 'id' | 'css';
+  unique: boolean; // whether `selector` matches only this element
+  role?: string; // explicit or implicit ARIA role
+  name?: string; // accessible name
+}
+
+// Name of the function installed on window; evaluate callbacks call it as
+// window.__uxplainSelector(element)
+export const SELECTOR_ENGINE_GLOBAL = '__uxplainSelector';
+
+// A quoted string argument in a locator expression
+const STRING_LITERAL = `"(?:[^"\\\\]|\\\\.)*"|'(?:[^'\\\\]|\\\\.)*'`;
+
+/**
+ * One way of addressing elements for every extractor. In order of preference:
+ * data-testid, role plus accessible name, a stable id and the shortest unique
+ * CSS path that avoids generated class names. The CSS selector is always
+ * returned so querySelector-based code keeps working; the locator is what
+ * follow-up Playwright calls should use.
+ */
+export class SelectorEngine {
+  // Installs the engine in the current document; needed again after navigation
+  static async install(page: Page): Promise<void> {
+    await page.evaluate((globalName) => {
+      if ((window as any)[globalName]) return;
+
+      const IMPLICIT_ROLES: Record<string, string> = {
+        button: 'button', a: 'link', select: 'combobox', textarea: 'textbox', img: 'img',
+        nav: 'navigation', main: 'main', header: 'banner', footer: 'contentinfo', aside: 'complementary',
+        form: 'form', table: 'table', ul: 'list', ol: 'list', li: 'listitem', dialog: 'dialog',
+        h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+      };
+      const INPUT_ROLES: Record<string, string> = {
+        button: 'button', submit: 'button', reset: 'button', image: 'button',
+        checkbox: 'checkbox', radio: 'radio', range: 'slider', number: 'spinbutton', search: 'searchbox',
+      };
+      const NAMED_FROM_CONTENT = new Set(['button', 'link', 'heading', 'checkbox', 'radio', 'tab', 'menuitem', 'option', 'listitem']);
+
+      const escape = (value: string) => CSS.escape(value);
+      const isUnique = (selector: string, element: Element) => {
+        try {
+          const matches = document.querySelectorAll(selector);
+          return matches.length === 1 && matches[0] === element;
+        } catch (error) {
+          return false;
+        }
+      };
+
+      // Generated ids (React's :r1:, ember123, uuids) change between renders
+      const isStableId = (id: string) =>
+        !!id && !/[:]/.test(id) && !/\d{3,}/.test(id) && !/^[a-f0-9-]{16,}$/i.test(id) && !/^(ember|ext-gen|mui-|radix-|headlessui-)/.test(id);
+
+      // CSS-in-JS and CSS module hashes (css-1x2y3z, sc-abc, Button_root__x1Y2z,
+      // _root_1a2b3_4), bare hashes and Tailwind variants are not worth keeping
+      const isStableClass = (className: string) =>
+        !/^(css|sc|jsx|svelte|emotion|styled)-/.test(className) &&
+        !/__[\w-]{5,}$/.test(className) &&
+        !/^_[\w-]+_[a-z0-9]{5}_\d+$/i.test(className) &&
+        !/^(?=.*\d)[a-z0-9]{5,}$/i.test(className) &&
+        !/[[\]:/]/.test(className);
+
+      const roleOf = (element: Element): string | null => {
+        const explicit = element.getAttribute('role');
+        if (explicit) return explicit.split(/\s+/)[0];
+        const tag = element.tagName.toLowerCase();
+        if (tag === 'a' && !element.hasAttribute('href')) return null;
+        if (tag === 'input') return INPUT_ROLES[(element.getAttribute('type') || 'text').toLowerCase()] || 'textbox';
+        return IMPLICIT_ROLES[tag] || null;
+      };
+
+      const accessibleName = (element: Element, role: string): string => {
+        const text = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim();
+        const labelledBy = element.getAttribute('aria-labelledby');
+        if (labelledBy) {
+          return text(labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent || '').join(' '));
+        }
+        const label = element.getAttribute('aria-label');
+        if (label) return text(label);
+        if (element.id) {
+          const forLabel = document.querySelector(`label[for="${escape(element.id)}"]`);
+          if (forLabel) return text(forLabel.textContent);
+        }
+        const wrappingLabel = element.closest('label');
+        if (wrappingLabel && wrappingLabel !== element) return text(wrappingLabel.textContent);
+        if (element instanceof HTMLImageElement) return text(element.alt);
+        if (element instanceof HTMLInputElement && ['submit', 'button', 'reset'].includes(element.type)) return text(element.value);
+        if (NAMED_FROM_CONTENT.has(role)) return text(element.textContent);
+        return text(element.getAttribute('title') || element.getAttribute('placeholder'));
+      };
+
+      // Role and accessible name counts over the whole document, built once per
+      // extraction: an evaluate call runs synchronously, so the cache is
+      // dropped on the next task, before the DOM can change
+      let roleNameCounts: Map<string, number> | null = null;
+      const roleNameCount = (role: string, name: string) => {
+        if (!roleNameCounts) {
+          const counts = new Map<string, number>();
+          for (const candidate of Array.from(document.querySelectorAll('*'))) {
+            const candidateRole = roleOf(candidate);
+            if (!candidateRole) continue;
+            const key = `${candidateRole}\u0000${accessibleName(candidate, candidateRole)}`;
+            counts.set(key, (counts.get(key) || 0) + 1);
+          }
+          roleNameCounts = counts;
+          setTimeout(() => { roleNameCounts = null; }, 0);
+        }
+        return roleNameCounts.get(`${role}\u0000${name}`) || 0;
+      };
+
+      // A single path segment: tag plus up to two stable classes
+      const segmentFor = (element: Element) => {
+        const tag = element.tagName.toLowerCase();
+        const classes = Array.from(element.classList).filter(isStableClass).slice(0, 2);
+        return tag + classes.map(className => `.${escape(className)}`).join('');
+      };
+
+      const anchorFor = (element: Element): string | null => {
+        const testId = element.getAttribute('data-testid');
+        if (testId && isUnique(`[data-testid="${escape(testId)}"]`, element)) return `[data-testid="${escape(testId)}"]`;
+        if (isStableId(element.id) && isUnique(`#${escape(element.id)}`, element)) return `#${escape(element.id)}`;
+        return null;
+      };
+
+      const cssPath = (element: Element): string => {
+        const own = segmentFor(element);
+        if (own.includes('.') && isUnique(own, element)) return own;
+
+        const segments: string[] = [];
+        for (let node: Element | null = element; node && node !== document.documentElement; node = node.parentElement) {
+          const anchor = node === element ? null : anchorFor(node);
+          if (anchor) {
+            const anchored = [anchor, ...segments].join(' > ');
+            if (isUnique(anchored, element)) return anchored;
+          }
+
+          let segment = segmentFor(node);
+          const parent = node.parentElement;
+          if (parent) {
+            const sameTag = Array.from(parent.children).filter(child => child.tagName === node!.tagName);
+            const sameSegment = sameTag.filter(child => child.matches(segment));
+            if (sameSegment.length > 1) segment += `:nth-of-type(${sameTag.indexOf(node) + 1})`;
+          }
+          segments.unshift(segment);
+
+          const selector = segments.join(' > ');
+          if (isUnique(selector, element)) return selector;
+        }
+
+        return segments.join(' > ');
+      };
+
+      (window as any)[globalName] = (element: Element) => {
+        const selector = anchorFor(element) || cssPath(element);
+        const unique = isUnique(selector, element);
+        const role = roleOf(element);
+        const name = role ? accessibleName(element, role) : '';
+        const accessibility = { role: role || undefined, name: name || undefined };
+
+        const testId = element.getAttribute('data-testid');
+        if (testId && isUnique(`[data-testid="${escape(testId)}"]`, element)) {
+          return { selector, locator: `getByTestId(${JSON.stringify(testId)})`, strategy: 'testid', unique, ...accessibility };
+        }
+
+        if (role && name && name.length <= 80) {
+          if (roleNameCount(role, name) === 1) {
+            return { selector, locator: `getByRole(${JSON.stringify(role)}, { name: ${JSON.stringify(name)}, exact: true })`, strategy: 'role', unique, ...accessibility };
+          }
+        }
+
+        if (isStableId(element.id) && selector === `#${escape(element.id)}`) {
+          return { selector, locator: `locator(${JSON.stringify(selector)})`, strategy: 'id', unique, ...accessibility };
+        }
+
+        return { selector, locator: `locator(${JSON.stringify(selector)})`, strategy: 'css', unique, ...accessibility };
+      };
+    }, SELECTOR_ENGINE_GLOBAL);
+  }
+
+  // Selector for the first element matching `selector`
+  static async describe(page: Page, selector: string): Promise<ElementSelector | null> {
+    await this.install(page);
+    return page.evaluate(({ sel, globalName }) => {
+      const element = document.querySelector(sel);
+      return element ? (window as any)[globalName](element) : null;
+    }, { sel: selector, globalName: SELECTOR_ENGINE_GLOBAL });
+  }
+
+  /**
+   * Turns a locator expression from this engine back into a Playwright
+   * locator, so tools can target the exact element again. Hand-written ones in
+   * action scripts work too, with either quote style and name/exact optional.
+   */
+  static toLocator(page: Page, locator: string) {
+    const testId = locator.match(new RegExp(`^getByTestId\\((${STRING_LITERAL})\\)$`));
+    if (testId) return page.getByTestId(this.parseString(testId[1]));
+
+    const role = locator.match(new RegExp(`^getByRole\\((${STRING_LITERAL})(?:,\\s*\\{\\s*name:\\s*(${STRING_LITERAL})(?:,\\s*exact:\\s*(true|false))?\\s*\\})?\\)$`));
+    if (role) {
+      return page.getByRole(this.parseString(role[1]) as any, role[2] ? { name: this.parseString(role[2]), exact: role[3] === 'true' } : {});
+    }
+
+    const css = locator.match(new RegExp(`^locator\\((${STRING_LITERAL})\\)$`));
+    return page.locator(css ? this.parseString(css[1]) : locator);
+  }
+
+  // Value of a single- or double-quoted JavaScript string literal
+  private static parseString(literal: string): string {
+    if (literal.startsWith('"')) return JSON.parse(literal);
+    // One pass, so an escaped backslash or quote is never read twice: \' loses
+    // its backslash, a bare " gains one, other escapes are the same in JSON
+    const body = literal.slice(1, -1).replace(/\\([\s\S])|"/g, (escape, char) =>
+      char === undefined ? '\\"' : char === "'" ? "'" : escape);
+    return JSON.parse(`"${body}"`);
+  }
+}
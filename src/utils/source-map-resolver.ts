@@ -0,0 +1,167 @@
+import { existsSync } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { Page } from 'playwright';
+
+export interface AuthoredLocation {
+  filePath: string; // relative to the project root when inside it
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface ParsedSourceMap {
+  sources: string[]; // with sourceRoot applied
+  mappings: number[][][]; // per generated line: [generatedColumn, sourceIndex, line, column]
+  url: string; // the map's own URL, for relative sources
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Maps positions in compiled stylesheets back to the authored SCSS, Less,
+ * CSS Modules or PostCSS input through their v3 source maps.
+ */
+export class SourceMapResolver {
+  /**
+   * Loads the map a stylesheet points to. Relative map URLs are taken from the
+   * stylesheet URL; requests go through the page so they carry its cookies.
+   */
+  static async load(page: Page, sourceMapURL: string, stylesheetURL: string): Promise<ParsedSourceMap | null> {
+    try {
+      const url = new URL(sourceMapURL, stylesheetURL || page.url()).toString();
+      let text: string;
+
+      if (url.startsWith('data:')) {
+        const [meta, data] = url.slice(5).split(/,(.*)/s);
+        text = meta.endsWith(';base64') ? Buffer.from(data, 'base64').toString('utf8') : decodeURIComponent(data);
+      } else {
+        const response = await page.context().request.get(url);
+        if (!response.ok()) return null;
+        text = await response.text();
+      }
+
+      return this.parse(JSON.parse(text), url.startsWith('data:') ? stylesheetURL : url);
+    } catch (error) {
+      console.warn(`⚠️ Could not read source map ${sourceMapURL.slice(0, 80)}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  static parse(map: any, url: string): ParsedSourceMap {
+    const sourceRoot: string = map.sourceRoot || '';
+    return {
+      sources: (map.sources || []).map((source: string) =>
+        sourceRoot && !/^[a-z]+:/i.test(source) && !path.isAbsolute(source)
+          ? `${sourceRoot.replace(/\/$/, '')}/${source}`
+          : source
+      ),
+      mappings: this.decodeMappings(map.mappings || ''),
+      url,
+    };
+  }
+
+  // Generated position (0-based line and column) -> source, 1-based line and column
+  static originalPosition(map: ParsedSourceMap, line: number, column: number): { source: string; line: number; column: number } | null {
+    const segments = map.mappings[line];
+    if (!segments) return null;
+
+    let match: number[] | undefined;
+    for (const segment of segments) {
+      if (segment[0] > column) break;
+      // A segment without a source ends the previous mapping
+      match = segment.length >= 4 ? segment : undefined;
+    }
+    if (!match) return null;
+
+    return { source: map.sources[match[1]], line: match[2] + 1, column: match[3] + 1 };
+  }
+
+  /**
+   * Turns a source map source into a file path: webpack://app/./src/a.scss,
+   * file:// URLs, Vite's /src/a.scss and /@fs/ URLs and absolute paths.
+   */
+  static toFilePath(source: string, mapURL: string, projectPath?: string): string {
+    let filePath: string;
+
+    const webpack = source.match(/^webpack:\/\/[^/]*\/(.*)$/);
+    if (webpack) {
+      filePath = webpack[1].replace(/^\.\//, '');
+    } else if (source.startsWith('file://')) {
+      filePath = fileURLToPath(source);
+    } else if (path.isAbsolute(source) && (!projectPath || existsSync(source))) {
+      filePath = source;
+    } else {
+      let resolved: URL | null = null;
+      try {
+        resolved = new URL(source, mapURL);
+      } catch (error) {
+        // Relative to a data: URL or an empty base
+      }
+      filePath = resolved && /^https?:$/.test(resolved.protocol)
+        ? decodeURIComponent(resolved.pathname).replace(/^\/@fs\//, '/')
+        : source.replace(/^\.\//, '');
+
+      // Dev servers serve the project root at /
+      if (projectPath && path.isAbsolute(filePath) && !existsSync(filePath)) {
+        filePath = filePath.slice(1);
+      }
+    }
+
+    if (!projectPath) return filePath;
+    const absolute = path.resolve(projectPath, filePath);
+    const relative = path.relative(projectPath, absolute);
+    return relative.startsWith('..') ? absolute : relative.split(path.sep).join('/');
+  }
+
+  private static decodeMappings(mappings: string): number[][][] {
+    const lines: number[][][] = [];
+    // Every field but the generated column is relative to the previous segment
+    // across the whole map
+    let sourceIndex = 0;
+    let sourceLine = 0;
+    let sourceColumn = 0;
+
+    for (const line of mappings.split(';')) {
+      const segments: number[][] = [];
+      let generatedColumn = 0;
+
+      for (const encoded of line.split(',')) {
+        if (!encoded) continue;
+        const values = this.decodeVLQ(encoded);
+        generatedColumn += values[0];
+        if (values.length >= 4) {
+          sourceIndex += values[1];
+          sourceLine += values[2];
+          sourceColumn += values[3];
+          segments.push([generatedColumn, sourceIndex, sourceLine, sourceColumn]);
+        } else {
+          segments.push([generatedColumn]);
+        }
+      }
+
+      lines.push(segments);
+    }
+
+    return lines;
+  }
+
+  private static decodeVLQ(encoded: string): number[] {
+    const values: number[] = [];
+    let value = 0;
+    let shift = 0;
+
+    for (const char of encoded) {
+      const digit = BASE64.indexOf(char);
+      value += (digit & 31) << shift;
+      if (digit & 32) {
+        shift += 5;
+      } else {
+        values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+        value = 0;
+        shift = 0;
+      }
+    }
+
+    return values;
+  }
+}
@@ -0,0 +1,113 @@
+import MagicString, { type SourceMap } from 'magic-string';
+import path from 'path';
+import ts from 'typescript';
+import { VueSFCParser } from './vue-sfc-parser.js';
+
+export interface SourceLocation {
+  filePath: string; // relative to the project root, with forward slashes
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+// Tagged source with a map back to the original, so build tools can chain it
+export interface TaggedSource {
+  code: string;
+  map: SourceMap;
+}
+
+export const SOURCE_ATTRIBUTE = 'data-uxp-src';
+
+// Vue template tags that never reach the DOM
+const VUE_VIRTUAL_TAGS = new Set(['template', 'slot', 'component', 'transition', 'keep-alive', 'teleport', 'suspense']);
+
+/**
+ * Adds data-uxp-src="path:line:col" to the host elements written in JSX and
+ * Vue templates, so a rendered element leads straight back to its source.
+ * Used by the Vite and Babel plugins; the correlator reads the attribute.
+ */
+export class SourceTagger {
+  static format(location: SourceLocation): string {
+    return `${location.filePath}:${location.line}:${location.column}`;
+  }
+
+  static parse(value: string | null | undefined): SourceLocation | null {
+    const match = value?.match(/^(.+):(\d+):(\d+)$/);
+    if (!match) return null;
+    return { filePath: match[1], line: Number(match[2]), column: Number(match[3]) };
+  }
+
+  static relativePath(fileName: string, root: string): string {
+    return path.relative(root, fileName).split(path.sep).join('/');
+  }
+
+  // Returns the tagged source, or null when there was nothing to tag
+  static tagJSX(sourceCode: string, fileName: string, root: string): TaggedSource | null {
+    if (!sourceCode.includes('<')) return null;
+
+    const scriptKind = /\.tsx$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.JSX;
+    const sourceFile = ts.createSourceFile(fileName, sourceCode, ts.ScriptTarget.Latest, true, scriptKind);
+    const filePath = this.relativePath(fileName, root);
+    const insertions: Array<{ position: number; text: string }> = [];
+
+    const visit = (node: ts.Node) => {
+      if ((ts.isJsxOpeningElement(node) || ts.isJsxSelfClosingElement(node)) && this.isHostTag(node.tagName)) {
+        const alreadyTagged = node.attributes.properties.some(attribute =>
+          ts.isJsxAttribute(attribute) && attribute.name.getText(sourceFile) === SOURCE_ATTRIBUTE
+        );
+        if (!alreadyTagged) {
+          const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+          const location = this.format({ filePath, line: start.line + 1, column: start.character + 1 });
+          insertions.push({ position: node.attributes.pos, text: ` ${SOURCE_ATTRIBUTE}="${location}"` });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    return insertions.length > 0 ? this.applyInsertions(sourceCode, fileName, insertions) : null;
+  }
+
+  // Tags the lowercase HTML elements of the root <template>; components are left alone
+  static tagVueTemplate(sourceCode: string, fileName: string, root: string): TaggedSource | null {
+    const template = VueSFCParser.parseBlocks(sourceCode).find(block => block.type === 'template');
+    if (!template || (template.attrs.lang && template.attrs.lang !== 'html')) return null;
+
+    const filePath = this.relativePath(fileName, root);
+    const content = template.content.replace(/<!--[\s\S]*?-->/g, comment => ' '.repeat(comment.length));
+    const insertions: Array<{ position: number; text: string }> = [];
+    const openTag = /<([a-z][a-z0-9]*)(?=[\s/>])([^>]*)>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = openTag.exec(content)) !== null) {
+      if (VUE_VIRTUAL_TAGS.has(match[1]) || match[2].includes(SOURCE_ATTRIBUTE)) continue;
+
+      const position = template.offset + match.index;
+      const before = sourceCode.slice(0, position).split('\n');
+      const location = this.format({ filePath, line: before.length, column: before[before.length - 1].length + 1 });
+      insertions.push({ position: position + 1 + match[1].length, text: ` ${SOURCE_ATTRIBUTE}="${location}"` });
+    }
+
+    return insertions.length > 0 ? this.applyInsertions(sourceCode, fileName, insertions) : null;
+  }
+
+  // <div>, <svg:path> and custom elements, but not <Button> or <ui.Card>
+  private static isHostTag(tagName: ts.JsxTagNameExpression): boolean {
+    if (ts.isIdentifier(tagName)) return /^[a-z]/.test(tagName.text);
+    return ts.isJsxNamespacedName(tagName);
+  }
+
+  private static applyInsertions(
+    sourceCode: string,
+    fileName: string,
+    insertions: Array<{ position: number; text: string }>
+  ): TaggedSource {
+    const result = new MagicString(sourceCode);
+    for (const insertion of insertions) {
+      result.appendLeft(insertion.position, insertion.text);
+    }
+    return {
+      code: result.toString(),
+      map: result.generateMap({ source: fileName, includeContent: true, hires: true }),
+    };
+  }
+}
@@ -0,0 +1,401 @@
+import fs from 'fs/promises';
+import path from 'path';
+import ts from 'typescript';
+import type { WorkspacePackage } from './workspace-detector.js';
+
+export interface StoryDefinition {
+  id: string; // e.g. example-button--primary
+  title: string;
+  name: string;
+  filePath: string; // absolute path of the CSF file
+  args: Record<string, unknown>; // meta args merged with story args
+  component?: string; // local name of the meta `component`, resolved through the file's imports
+}
+
+export interface StorybookStories {
+  source: 'server' | 'static' | 'files';
+  url?: string;
+  stories: StoryDefinition[];
+}
+
+export interface StorybookOptions {
+  url?: string; // running Storybook
+  staticDir?: string; // static build folder, relative to the Storybook root
+}
+
+interface ParsedCSF {
+  title?: string;
+  component?: string;
+  stories: Array<{ exportName: string; name?: string; args: Record<string, unknown> }>;
+}
+
+interface IndexEntry {
+  id: string;
+  title: string;
+  name: string;
+  importPath: string;
+}
+
+const STORY_FILE = /\.stories\.(tsx?|jsx?|mjs)$/;
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'build', 'storybook-static', '.git']);
+
+/**
+ * Reads the stories of a project from the Storybook index: a running
+ * Storybook's /index.json, a static build's index.json or, failing both, the
+ * CSF files next to a `.storybook` config. Story args come from the CSF files.
+ */
+export class StorybookReader {
+  static async load(projectPath: string, packages: WorkspacePackage[], options: StorybookOptions = {}): Promise<StorybookStories | null> {
+    // Storybook roots are the folders holding a .storybook config
+    const roots: string[] = [];
+    for (const dir of [projectPath, ...packages.map(pkg => pkg.path)]) {
+      if (!roots.includes(dir) && await this.exists(path.join(dir, '.storybook'))) roots.push(dir);
+    }
+    if (roots.length === 0 && !options.url) return null;
+
+    let source: StorybookStories['source'] = 'files';
+    let entries: Array<IndexEntry & { root: string }> | null = null;
+
+    if (options.url) {
+      const index = await this.fetchIndex(options.url);
+      if (index) {
+        source = 'server';
+        entries = index.map(entry => ({ ...entry, root: roots[0] || projectPath }));
+      } else {
+        console.warn(`⚠️ Could not read the story index from ${options.url}`);
+      }
+    }
+
+    if (!entries) {
+      for (const root of roots) {
+        const staticDir = path.join(root, options.staticDir || 'storybook-static');
+        const index = await this.readIndexFile(path.join(staticDir, 'index.json')) ||
+                      await this.readIndexFile(path.join(staticDir, 'stories.json'));
+        if (index) {
+          source = 'static';
+          entries = [...(entries || []), ...index.map(entry => ({ ...entry, root }))];
+        }
+      }
+    }
+
+    const parsed = new Map<string, ParsedCSF | null>();
+    const parseFile = async (filePath: string): Promise<ParsedCSF | null> => {
+      if (!parsed.has(filePath)) {
+        try {
+          parsed.set(filePath, this.parseCSF(await fs.readFile(filePath, 'utf8'), filePath));
+        } catch (error) {
+          parsed.set(filePath, null);
+        }
+      }
+      return parsed.get(filePath)!;
+    };
+
+    const stories: StoryDefinition[] = [];
+
+    if (entries) {
+      for (const entry of entries) {
+        const filePath = path.resolve(entry.root, entry.importPath);
+        const csf = await parseFile(filePath);
+        // Ids are built from the export name, whatever the display name is
+        const story = csf?.stories.find(candidate => `${this.sanitize(entry.title)}--${this.sanitize(this.storyNameFromExport(candidate.exportName))}` === entry.id);
+        stories.push({
+          id: entry.id,
+          title: entry.title,
+          name: entry.name,
+          filePath,
+          args: story?.args || {},
+          component: csf?.component,
+        });
+      }
+    } else {
+      for (const root of roots) {
+        for (const filePath of await this.findStoryFiles(root)) {
+          const csf = await parseFile(filePath);
+          if (!csf) continue;
+
+          const title = csf.title || this.autoTitle(path.relative(root, filePath));
+          for (const story of csf.stories) {
+            const name = story.name || this.storyNameFromExport(story.exportName);
+            stories.push({
+              id: `${this.sanitize(title)}--${this.sanitize(this.storyNameFromExport(story.exportName))}`,
+              title,
+              name,
+              filePath,
+              args: story.args,
+              component: csf.component,
+            });
+          }
+        }
+      }
+    }
+
+    return { source, url: options.url, stories };
+  }
+
+  /**
+   * Title, component, args and stories of a Component Story Format module.
+   * Args that are not literals (functions, identifiers) are kept as source text.
+   */
+  static parseCSF(sourceCode: string, fileName: string): ParsedCSF {
+    const sourceFile = ts.createSourceFile(fileName, sourceCode, ts.ScriptTarget.Latest, true,
+      /\.[jt]sx$/.test(fileName) ? ts.ScriptKind.TSX : ts.ScriptKind.TS);
+
+    const variables = new Map<string, ts.Expression>();
+    const assignments = new Map<string, Map<string, ts.Expression>>(); // Primary.args = {...}
+    const exported: Array<{ name: string; initializer?: ts.Expression }> = [];
+    let metaExpression: ts.Expression | undefined;
+
+    for (const statement of sourceFile.statements) {
+      const isExported = ts.canHaveModifiers(statement) &&
+        ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (!ts.isIdentifier(declaration.name)) continue;
+          if (declaration.initializer) variables.set(declaration.name.text, declaration.initializer);
+          if (isExported) exported.push({ name: declaration.name.text, initializer: declaration.initializer });
+        }
+      } else if (ts.isFunctionDeclaration(statement) && statement.name && isExported) {
+        exported.push({ name: statement.name.text });
+      } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+        metaExpression = statement.expression;
+      } else if (ts.isExpressionStatement(statement) &&
+                 ts.isBinaryExpression(statement.expression) &&
+                 statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+                 ts.isPropertyAccessExpression(statement.expression.left) &&
+                 ts.isIdentifier(statement.expression.left.expression)) {
+        const target = statement.expression.left.expression.text;
+        const properties = assignments.get(target) || new Map<string, ts.Expression>();
+        properties.set(statement.expression.left.name.text, statement.expression.right);
+        assignments.set(target, properties);
+      }
+    }
+
+    const meta = this.resolveObject(metaExpression, variables);
+    const metaArgs = this.objectValue(this.property(meta, 'args'), sourceFile);
+    const component = this.unwrap(this.property(meta, 'component'));
+    const title = this.unwrap(this.property(meta, 'title'));
+    const include = this.storyFilter(this.property(meta, 'includeStories'));
+    const exclude = this.storyFilter(this.property(meta, 'excludeStories'));
+
+    const stories: ParsedCSF['stories'] = [];
+    for (const { name: exportName, initializer } of exported) {
+      if (exportName === '__namedExportsOrder') continue;
+      if (include && !include(exportName)) continue;
+      if (exclude && exclude(exportName)) continue;
+
+      // CSF3 object stories; CSF2 functions and Template.bind({}) take properties by assignment
+      const story = initializer ? this.resolveObject(initializer, new Map()) : undefined;
+      const assigned = assignments.get(exportName);
+      const args = this.property(story, 'args') || assigned?.get('args');
+      const name = this.unwrap(this.property(story, 'name') || this.property(story, 'storyName') || assigned?.get('storyName'));
+
+      stories.push({
+        exportName,
+        name: name && ts.isStringLiteralLike(name) ? name.text : undefined,
+        args: { ...metaArgs, ...this.objectValue(args, sourceFile) },
+      });
+    }
+
+    return {
+      title: title && ts.isStringLiteralLike(title) ? title.text : undefined,
+      component: component && ts.isIdentifier(component) ? component.text : undefined,
+      stories,
+    };
+  }
+
+  // The story id in an iframe URL (?id=) or a manager URL (?path=/story/<id>)
+  static storyIdFromUrl(url: string): string | undefined {
+    try {
+      const parsed = new URL(url);
+      return parsed.searchParams.get('id') ||
+             parsed.searchParams.get('path')?.match(/^\/(?:story|docs)\/([^/?#]+)/)?.[1] ||
+             undefined;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  // The preview iframe rendering only the story, without the Storybook UI
+  static storyUrl(storybookUrl: string, storyId: string): string {
+    const url = new URL('iframe.html', storybookUrl.endsWith('/') ? storybookUrl : `${storybookUrl}/`);
+    url.searchParams.set('id', storyId);
+    url.searchParams.set('viewMode', 'story');
+    return url.toString();
+  }
+
+  // Same as Storybook's sanitize() used for story ids
+  static sanitize(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[ ’–—―′¿'`~!@#$%^&*()_|+\-=?;:'",.<>{}[\]\\/]/gi, '-')
+      .replace(/-+/g, '-')
+      .replace(/^-+/, '')
+      .replace(/-+$/, '');
+  }
+
+  // PrimaryButton -> Primary Button, like Storybook's storyNameFromExport
+  static storyNameFromExport(exportName: string): string {
+    return exportName
+      .replace(/[_-]+/g, ' ')
+      .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .replace(/([a-zA-Z])(\d)/g, '$1 $2')
+      .trim()
+      .replace(/\b\w/g, char => char.toUpperCase());
+  }
+
+  // components/Button/Button.stories.tsx -> components/Button
+  private static autoTitle(relativePath: string): string {
+    const segments = relativePath
+      .split(path.sep)
+      .filter((segment, index) => !(index === 0 && ['src', 'stories'].includes(segment)));
+    segments[segments.length - 1] = segments[segments.length - 1].replace(STORY_FILE, '');
+    if (segments.length > 1 && segments[segments.length - 1] === segments[segments.length - 2]) segments.pop();
+    if (segments.length > 1 && segments[segments.length - 1] === 'index') segments.pop();
+    return segments.join('/');
+  }
+
+  private static async fetchIndex(storybookUrl: string): Promise<IndexEntry[] | null> {
+    for (const file of ['index.json', 'stories.json']) {
+      try {
+        const response = await fetch(new URL(file, storybookUrl.endsWith('/') ? storybookUrl : `${storybookUrl}/`), {
+          signal: AbortSignal.timeout(10000),
+        });
+        if (response.ok) return this.parseIndex(await response.json());
+      } catch (error) {
+        // Try the next index file
+      }
+    }
+    return null;
+  }
+
+  private static async readIndexFile(filePath: string): Promise<IndexEntry[] | null> {
+    try {
+      return this.parseIndex(JSON.parse(await fs.readFile(filePath, 'utf8')));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // index.json (v4/v5, Storybook 7+) has `entries`, stories.json (v3) has `stories`
+  private static parseIndex(index: any): IndexEntry[] {
+    const entries: any[] = Object.values(index?.entries || index?.stories || {});
+    return entries
+      .filter(entry => (entry.type || 'story') === 'story' && (entry.importPath || entry.parameters?.fileName))
+      .map(entry => ({
+        id: entry.id,
+        title: entry.title || entry.kind,
+        name: entry.name,
+        importPath: entry.importPath || entry.parameters.fileName,
+      }));
+  }
+
+  private static async findStoryFiles(dir: string): Promise<string[]> {
+    const files: string[] = [];
+    try {
+      for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory() && !entry.name.startsWith('.') && !SKIPPED_DIRS.has(entry.name)) {
+          files.push(...await this.findStoryFiles(fullPath));
+        } else if (entry.isFile() && STORY_FILE.test(entry.name)) {
+          files.push(fullPath);
+        }
+      }
+    } catch (error) {
+      // Directory might not be readable
+    }
+    return files;
+  }
+
+  private static resolveObject(expression: ts.Expression | undefined, variables: Map<string, ts.Expression>): ts.ObjectLiteralExpression | undefined {
+    const node = this.unwrap(expression);
+    if (!node) return undefined;
+    if (ts.isObjectLiteralExpression(node)) return node;
+    if (ts.isIdentifier(node) && variables.has(node.text)) return this.resolveObject(variables.get(node.text), variables);
+    return undefined;
+  }
+
+  private static property(object: ts.ObjectLiteralExpression | undefined, name: string): ts.Expression | undefined {
+    for (const property of object?.properties || []) {
+      if (ts.isPropertyAssignment(property) && this.propertyName(property.name) === name) return property.initializer;
+      if (ts.isShorthandPropertyAssignment(property) && property.name.text === name) return property.name;
+    }
+    return undefined;
+  }
+
+  private static propertyName(name: ts.PropertyName): string | undefined {
+    return ts.isIdentifier(name) || ts.isStringLiteralLike(name) || ts.isNumericLiteral(name) ? name.text : undefined;
+  }
+
+  // Strips `as Meta`, `satisfies Meta<...>` and parentheses
+  private static unwrap(expression: ts.Expression | undefined): ts.Expression | undefined {
+    let node = expression;
+    while (node && (ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isParenthesizedExpression(node) || ts.isTypeAssertionExpression(node))) {
+      node = node.expression;
+    }
+    return node;
+  }
+
+  private static objectValue(expression: ts.Expression | undefined, sourceFile: ts.SourceFile): Record<string, unknown> {
+    const value = this.literalValue(expression, sourceFile);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+
+  private static literalValue(expression: ts.Expression | undefined, sourceFile: ts.SourceFile): unknown {
+    const node = this.unwrap(expression);
+    if (!node) return undefined;
+
+    if (ts.isStringLiteralLike(node)) return node.text;
+    if (ts.isNumericLiteral(node)) return Number(node.text);
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+    if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+      return -Number(node.operand.text);
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+      return node.elements.map(element => this.literalValue(element, sourceFile));
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+      const result: Record<string, unknown> = {};
+      for (const property of node.properties) {
+        if (ts.isPropertyAssignment(property)) {
+          const name = this.propertyName(property.name);
+          if (name !== undefined) result[name] = this.literalValue(property.initializer, sourceFile);
+        } else if (ts.isShorthandPropertyAssignment(property)) {
+          result[property.name.text] = property.name.text;
+        }
+      }
+      return result;
+    }
+    return node.getText(sourceFile);
+  }
+
+  // includeStories/excludeStories: an array of export names or a regex
+  private static storyFilter(expression: ts.Expression | undefined): ((exportName: string) => boolean) | undefined {
+    const node = this.unwrap(expression);
+    if (!node) return undefined;
+    if (ts.isArrayLiteralExpression(node)) {
+      const names = node.elements.filter(ts.isStringLiteralLike).map(element => element.text);
+      return exportName => names.includes(exportName);
+    }
+    if (ts.isRegularExpressionLiteral(node)) {
+      const [, pattern, flags] = node.text.match(/^\/(.*)\/(\w*)$/) || [];
+      if (pattern !== undefined) {
+        const regex = new RegExp(pattern, flags);
+        return exportName => regex.test(exportName);
+      }
+    }
+    return undefined;
+  }
+
+  private static async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
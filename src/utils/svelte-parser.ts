@@ -0,0 +1,242 @@
+import ts from 'typescript';
+import { ComponentParser } from './component-parser.js';
+import type { EventDefinition, PropDefinition, SlotDefinition } from '../tools/project-indexer.js';
+
+export interface ParsedSvelteComponent {
+  name: string;
+  props: PropDefinition[];
+  events: EventDefinition[];
+  slots: SlotDefinition[];
+  imports: string[];
+  usedComponents: string[];
+  css: string;
+  description?: string;
+}
+
+export class SvelteParser {
+  static parse(sourceCode: string, fileName: string): ParsedSvelteComponent {
+    const scripts = this.extractBlocks(sourceCode, 'script');
+    const styles = this.extractBlocks(sourceCode, 'style');
+
+    // Everything outside <script> and <style> is markup
+    let markup = sourceCode;
+    for (const block of [...scripts, ...styles]) {
+      markup = markup.replace(block.raw, '');
+    }
+
+    const result: ParsedSvelteComponent = {
+      name: this.nameFromFile(fileName),
+      props: [],
+      events: [],
+      slots: this.extractSlots(markup),
+      imports: [],
+      usedComponents: this.extractUsedComponents(markup),
+      css: styles.map(block => block.content.trim()).join('\n\n'),
+      description: this.extractComponentDoc(markup),
+    };
+
+    for (const script of scripts) {
+      const isModule = /\bcontext\s*=\s*["']module["']|\bmodule\b/.test(script.attrs);
+      const lang = /\blang\s*=\s*["']ts["']/.test(script.attrs) ? 'ts' : 'js';
+      const sourceFile = ts.createSourceFile(
+        `${fileName}.${lang}`,
+        script.content,
+        ts.ScriptTarget.Latest,
+        true,
+        lang === 'ts' ? ts.ScriptKind.TS : ts.ScriptKind.JS
+      );
+
+      for (const statement of sourceFile.statements) {
+        if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+          result.imports.push(statement.moduleSpecifier.text);
+        }
+      }
+
+      // Props and events only live in the instance script
+      if (!isModule) {
+        result.props.push(...this.extractProps(sourceFile));
+        result.events.push(...this.extractEvents(sourceFile));
+      }
+    }
+
+    return result;
+  }
+
+  private static extractBlocks(sourceCode: string, tag: 'script' | 'style'): Array<{ raw: string; attrs: string; content: string }> {
+    const blocks: Array<{ raw: string; attrs: string; content: string }> = [];
+    const blockRegex = new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)<\\/${tag}>`, 'g');
+    let match: RegExpExecArray | null;
+
+    while ((match = blockRegex.exec(sourceCode)) !== null) {
+      blocks.push({ raw: match[0], attrs: match[1] || '', content: match[2] });
+    }
+
+    return blocks;
+  }
+
+  private static extractProps(sourceFile: ts.SourceFile): PropDefinition[] {
+    const props: PropDefinition[] = [];
+
+    for (const statement of sourceFile.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+
+      const isExported = ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+      const isLet = (statement.declarationList.flags & ts.NodeFlags.Let) !== 0;
+
+      for (const declaration of statement.declarationList.declarations) {
+        // Svelte 4: export let title: string = 'Untitled';
+        if (isExported && isLet && ts.isIdentifier(declaration.name)) {
+          const prop: PropDefinition = {
+            name: declaration.name.text,
+            type: declaration.type?.getText(sourceFile) || 'unknown',
+            required: !declaration.initializer,
+          };
+          if (declaration.initializer) prop.defaultValue = declaration.initializer.getText(sourceFile);
+
+          const description = ComponentParser.getJSDocDescription(statement);
+          if (description) prop.description = description;
+
+          props.push(prop);
+          continue;
+        }
+
+        // Svelte 5: let { title, size = 'md' }: Props = $props();
+        if (
+          declaration.initializer &&
+          ts.isCallExpression(declaration.initializer) &&
+          ts.isIdentifier(declaration.initializer.expression) &&
+          declaration.initializer.expression.text === '$props'
+        ) {
+          props.push(...this.propsFromRune(declaration, sourceFile));
+        }
+      }
+    }
+
+    return props;
+  }
+
+  private static propsFromRune(declaration: ts.VariableDeclaration, sourceFile: ts.SourceFile): PropDefinition[] {
+    const call = declaration.initializer as ts.CallExpression;
+    const propsType = declaration.type || call.typeArguments?.[0];
+    const props = new Map<string, PropDefinition>();
+
+    if (propsType) {
+      for (const prop of ComponentParser.propsFromType(propsType, sourceFile)) {
+        props.set(prop.name, prop);
+      }
+    }
+
+    if (ts.isObjectBindingPattern(declaration.name)) {
+      for (const element of declaration.name.elements) {
+        if (element.dotDotDotToken) continue;
+
+        const name = element.propertyName && !ts.isComputedPropertyName(element.propertyName)
+          ? element.propertyName.text
+          : ts.isIdentifier(element.name) ? element.name.text : undefined;
+        if (!name) continue;
+
+        const prop = props.get(name) || { name, type: 'unknown', required: true };
+        if (element.initializer) {
+          // value = $bindable('') marks a two-way bindable prop
+          const initializer = element.initializer;
+          const isBindable = ts.isCallExpression(initializer) &&
+            ts.isIdentifier(initializer.expression) &&
+            initializer.expression.text === '$bindable';
+          const defaultValue = isBindable ? (initializer as ts.CallExpression).arguments[0] : initializer;
+
+          if (defaultValue) prop.defaultValue = defaultValue.getText(sourceFile);
+          if (isBindable && !prop.description) prop.description = 'Bindable';
+          prop.required = false;
+        }
+        props.set(name, prop);
+      }
+    }
+
+    return Array.from(props.values());
+  }
+
+  /**
+   * Svelte 4 component events: createEventDispatcher<{ change: string }>()
+   * and dispatch('change') calls.
+   */
+  private static extractEvents(sourceFile: ts.SourceFile): EventDefinition[] {
+    const events = new Map<string, EventDefinition>();
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+        const callee = node.expression.text;
+        const typeArgument = node.typeArguments?.[0];
+
+        if (callee === 'createEventDispatcher' && typeArgument && ts.isTypeLiteralNode(typeArgument)) {
+          for (const member of typeArgument.members) {
+            if (ts.isPropertySignature(member) && member.name && (ts.isIdentifier(member.name) || ts.isStringLiteral(member.name))) {
+              events.set(member.name.text, {
+                name: member.name.text,
+                payload: member.type?.getText(sourceFile),
+              });
+            }
+          }
+        } else if (callee === 'dispatch' && node.arguments[0] && ts.isStringLiteralLike(node.arguments[0])) {
+          const name = node.arguments[0].text;
+          if (!events.has(name)) events.set(name, { name });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return Array.from(events.values());
+  }
+
+  /**
+   * Slots (<slot name="x">) and, for Svelte 5, snippets rendered with
+   * {@render header()}.
+   */
+  private static extractSlots(markup: string): SlotDefinition[] {
+    const slots = new Map<string, SlotDefinition>();
+    const slotRegex = /<slot\b([^>]*?)\/?>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = slotRegex.exec(markup)) !== null) {
+      const attrs = match[1];
+      const name = attrs.match(/\bname\s*=\s*["']([^"']+)["']/)?.[1] || 'default';
+      const props = Array.from(attrs.matchAll(/(?:^|\s)(?:([\w-]+)\s*=\s*\{|\{([\w$]+)\})/g))
+        .map(prop => prop[1] || prop[2])
+        .filter(prop => prop !== 'name');
+      slots.set(name, { name, props: props.length > 0 ? props : undefined });
+    }
+
+    const renderRegex = /\{@render\s+([\w$]+)\??\.?\(/g;
+    while ((match = renderRegex.exec(markup)) !== null) {
+      const name = match[1] === 'children' ? 'default' : match[1];
+      if (!slots.has(name)) slots.set(name, { name, description: 'Snippet' });
+    }
+
+    return Array.from(slots.values());
+  }
+
+  private static extractUsedComponents(markup: string): string[] {
+    const components = new Set<string>();
+    const tagRegex = /<([A-Z][\w]*)(?:\.[\w.]+)?[\s/>]/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagRegex.exec(markup)) !== null) {
+      components.add(match[1]);
+    }
+
+    return Array.from(components);
+  }
+
+  // <!-- @component Description --> is Svelte's documentation comment
+  private static extractComponentDoc(markup: string): string | undefined {
+    const match = markup.match(/<!--\s*@component\s*([\s\S]*?)-->/);
+    return match ? match[1].trim().split('\n')[0].trim() || undefined : undefined;
+  }
+
+  private static nameFromFile(fileName: string): string {
+    const base = fileName.split(/[/\\]/).pop()!.replace(/\.svelte$/, '');
+    return base
+      .replace(/[-_.\s]+(\w)/g, (_, char: string) => char.toUpperCase())
+      .replace(/^\w/, char => char.toUpperCase());
+  }
+}
@@ -0,0 +1,521 @@
+import ts from 'typescript';
+import { ComponentParser } from './component-parser.js';
+import type { EventDefinition, PropDefinition, SlotDefinition } from '../tools/project-indexer.js';
+
+export interface SFCBlock {
+  type: 'template' | 'script' | 'style';
+  content: string;
+  attrs: Record<string, string | true>;
+  startLine: number;
+  offset: number; // of the content in the file
+}
+
+export interface ParsedVueComponent {
+  name: string;
+  props: PropDefinition[];
+  emits: EventDefinition[];
+  slots: SlotDefinition[];
+  imports: string[];
+  usedComponents: string[];
+  css: string;
+  description?: string;
+}
+
+// Components provided by Vue and Vue Router that never resolve to project files
+const BUILT_IN_COMPONENTS = new Set([
+  'Transition', 'TransitionGroup', 'KeepAlive', 'Teleport', 'Suspense',
+  'Component', 'Slot', 'Template', 'RouterLink', 'RouterView',
+]);
+
+const RUNTIME_TYPES: Record<string, string> = {
+  String: 'string',
+  Number: 'number',
+  Boolean: 'boolean',
+  Array: 'unknown[]',
+  Object: 'object',
+  Function: 'Function',
+  Date: 'Date',
+  Symbol: 'symbol',
+};
+
+export class VueSFCParser {
+  static parse(sourceCode: string, fileName: string): ParsedVueComponent {
+    const blocks = this.parseBlocks(sourceCode);
+    const template = blocks.find(block => block.type === 'template');
+    const scripts = blocks.filter(block => block.type === 'script');
+
+    const result: ParsedVueComponent = {
+      name: this.nameFromFile(fileName),
+      props: [],
+      emits: [],
+      slots: [],
+      imports: [],
+      usedComponents: [],
+      css: this.collectStyles(blocks),
+    };
+
+    // PascalCase registration name -> imported component identifier
+    const registered = new Map<string, string>();
+
+    for (const script of scripts) {
+      const lang = typeof script.attrs.lang === 'string' ? script.attrs.lang : 'js';
+      const sourceFile = ts.createSourceFile(
+        `${fileName}.${lang}`,
+        script.content,
+        ts.ScriptTarget.Latest,
+        true,
+        ComponentParser.getScriptKind(`.${lang}`)
+      );
+
+      for (const statement of sourceFile.statements) {
+        if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+          result.imports.push(statement.moduleSpecifier.text);
+          for (const name of this.importedNames(statement)) {
+            // Imports in <script setup> are usable in the template directly
+            if (script.attrs.setup) registered.set(name, name);
+          }
+        }
+      }
+
+      if (script.attrs.setup) {
+        this.parseScriptSetup(sourceFile, result);
+      } else {
+        this.parseOptionsApi(sourceFile, result, registered);
+      }
+    }
+
+    if (template) {
+      result.usedComponents = this.extractUsedComponents(template.content, registered);
+
+      // Slots declared with defineSlots win over the ones found in the template
+      for (const slot of this.extractTemplateSlots(template.content)) {
+        if (!result.slots.some(existing => existing.name === slot.name)) {
+          result.slots.push(slot);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Splits an SFC into its top-level blocks. Nested <template> tags inside the
+   * root template are balanced so they do not end the block early.
+   */
+  static parseBlocks(sourceCode: string): SFCBlock[] {
+    const blocks: SFCBlock[] = [];
+    const openTag = /<(template|script|style)(\s[^>]*)?>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = openTag.exec(sourceCode)) !== null) {
+      const type = match[1] as SFCBlock['type'];
+      const contentStart = match.index + match[0].length;
+      let contentEnd = -1;
+
+      if (type === 'template') {
+        const tags = /<(\/)?template\b[^>]*>/g;
+        tags.lastIndex = contentStart;
+        let depth = 1;
+        let tag: RegExpExecArray | null;
+        while ((tag = tags.exec(sourceCode)) !== null) {
+          depth += tag[1] ? -1 : 1;
+          if (depth === 0) {
+            contentEnd = tag.index;
+            openTag.lastIndex = tags.lastIndex;
+            break;
+          }
+        }
+      } else {
+        contentEnd = sourceCode.indexOf(`</${type}>`, contentStart);
+        if (contentEnd !== -1) openTag.lastIndex = contentEnd + type.length + 3;
+      }
+
+      if (contentEnd === -1) break;
+
+      blocks.push({
+        type,
+        content: sourceCode.slice(contentStart, contentEnd),
+        attrs: this.parseAttributes(match[2] || ''),
+        startLine: sourceCode.slice(0, contentStart).split('\n').length,
+        offset: contentStart,
+      });
+    }
+
+    return blocks;
+  }
+
+  private static parseAttributes(source: string): Record<string, string | true> {
+    const attrs: Record<string, string | true> = {};
+    const attrRegex = /([\w:@.-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = attrRegex.exec(source)) !== null) {
+      attrs[match[1]] = match[2] ?? match[3] ?? match[4] ?? true;
+    }
+
+    return attrs;
+  }
+
+  private static collectStyles(blocks: SFCBlock[]): string {
+    return blocks
+      .filter(block => block.type === 'style')
+      .map(block => {
+        const flags = ['scoped', 'module', 'lang']
+          .filter(attr => block.attrs[attr])
+          .map(attr => block.attrs[attr] === true ? attr : `${attr}="${block.attrs[attr]}"`);
+        const header = flags.length > 0 ? `/* <style ${flags.join(' ')}> */\n` : '';
+        return `${header}${block.content.trim()}`;
+      })
+      .join('\n\n');
+  }
+
+  private static importedNames(statement: ts.ImportDeclaration): string[] {
+    const clause = statement.importClause;
+    if (!clause || clause.isTypeOnly) return [];
+
+    const names: string[] = [];
+    if (clause.name) names.push(clause.name.text);
+    if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+      names.push(...clause.namedBindings.elements.filter(el => !el.isTypeOnly).map(el => el.name.text));
+    }
+    return names;
+  }
+
+  private static parseScriptSetup(sourceFile: ts.SourceFile, result: ParsedVueComponent): void {
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) && ts.isIdentifier(node.expression)) {
+        switch (node.expression.text) {
+          case 'defineProps':
+            result.props = this.propsFromDefineProps(node, sourceFile);
+            this.applyDestructuredDefaults(node, result.props, sourceFile);
+            break;
+          case 'withDefaults': {
+            const [inner, defaults] = node.arguments;
+            if (inner && ts.isCallExpression(inner)) {
+              result.props = this.propsFromDefineProps(inner, sourceFile);
+              if (defaults && ts.isObjectLiteralExpression(defaults)) {
+                this.applyDefaults(result.props, defaults, sourceFile);
+              }
+            }
+            // defineProps inside withDefaults has been handled
+            return;
+          }
+          case 'defineEmits':
+            result.emits = node.typeArguments?.[0]
+              ? this.emitsFromType(node.typeArguments[0], sourceFile)
+              : this.emitsFromRuntime(node.arguments[0], sourceFile);
+            break;
+          case 'defineSlots':
+            if (node.typeArguments?.[0] && ts.isTypeLiteralNode(node.typeArguments[0])) {
+              result.slots = this.slotsFromType(node.typeArguments[0], sourceFile);
+            }
+            break;
+          case 'defineOptions': {
+            const options = node.arguments[0];
+            if (options && ts.isObjectLiteralExpression(options)) {
+              result.name = this.getStringProperty(options, 'name') || result.name;
+            }
+            break;
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+  }
+
+  private static parseOptionsApi(sourceFile: ts.SourceFile, result: ParsedVueComponent, registered: Map<string, string>): void {
+    const exportDefault = sourceFile.statements.find(ts.isExportAssignment);
+    if (!exportDefault) return;
+
+    // export default { ... } or export default defineComponent({ ... })
+    let options = ComponentParser.unwrapExpression(exportDefault.expression);
+    if (ts.isCallExpression(options) && options.arguments[0]) {
+      options = ComponentParser.unwrapExpression(options.arguments[0]);
+    }
+    if (!ts.isObjectLiteralExpression(options)) return;
+
+    result.name = this.getStringProperty(options, 'name') || result.name;
+    result.description = ComponentParser.getJSDocDescription(exportDefault);
+
+    for (const property of options.properties) {
+      const key = property.name && !ts.isComputedPropertyName(property.name) ? property.name.text : '';
+
+      if (ts.isPropertyAssignment(property)) {
+        if (key === 'props') {
+          result.props = this.propsFromRuntime(property.initializer, sourceFile);
+        } else if (key === 'emits') {
+          result.emits = this.emitsFromRuntime(property.initializer, sourceFile);
+        } else if (key === 'components' && ts.isObjectLiteralExpression(property.initializer)) {
+          // components: { UserCard, 'base-button': BaseButton }
+          for (const component of property.initializer.properties) {
+            if (!component.name || ts.isComputedPropertyName(component.name) || ts.isPrivateIdentifier(component.name)) continue;
+
+            const target = ts.isPropertyAssignment(component) && ts.isIdentifier(component.initializer)
+              ? component.initializer.text
+              : component.name.text;
+            registered.set(this.toPascalCase(component.name.text), target);
+          }
+        }
+      }
+    }
+  }
+
+  private static propsFromDefineProps(call: ts.CallExpression, sourceFile: ts.SourceFile): PropDefinition[] {
+    if (call.typeArguments?.[0]) {
+      return ComponentParser.propsFromType(call.typeArguments[0], sourceFile);
+    }
+    return call.arguments[0] ? this.propsFromRuntime(call.arguments[0], sourceFile) : [];
+  }
+
+  // const { size = 'md' } = defineProps<Props>() (reactive props destructure)
+  private static applyDestructuredDefaults(call: ts.CallExpression, props: PropDefinition[], sourceFile: ts.SourceFile): void {
+    const declaration = call.parent;
+    if (!ts.isVariableDeclaration(declaration) || !ts.isObjectBindingPattern(declaration.name)) return;
+
+    for (const element of declaration.name.elements) {
+      const name = element.propertyName && !ts.isComputedPropertyName(element.propertyName)
+        ? element.propertyName.text
+        : ts.isIdentifier(element.name) ? element.name.text : undefined;
+      const prop = props.find(p => p.name === name);
+      if (prop && element.initializer) {
+        prop.defaultValue = element.initializer.getText(sourceFile);
+        prop.required = false;
+      }
+    }
+  }
+
+  private static applyDefaults(props: PropDefinition[], defaults: ts.ObjectLiteralExpression, sourceFile: ts.SourceFile): void {
+    for (const property of defaults.properties) {
+      if (!ts.isPropertyAssignment(property) || !property.name || ts.isComputedPropertyName(property.name)) continue;
+
+      const prop = props.find(p => p.name === (property.name as ts.Identifier).text);
+      if (prop) {
+        prop.defaultValue = property.initializer.getText(sourceFile);
+        prop.required = false;
+      }
+    }
+  }
+
+  private static propsFromRuntime(node: ts.Expression, sourceFile: ts.SourceFile): PropDefinition[] {
+    const expression = ComponentParser.unwrapExpression(node);
+
+    // props: ['title', 'size']
+    if (ts.isArrayLiteralExpression(expression)) {
+      return expression.elements
+        .filter(ts.isStringLiteralLike)
+        .map(element => ({ name: element.text, type: 'unknown', required: false }));
+    }
+
+    if (!ts.isObjectLiteralExpression(expression)) return [];
+
+    const props: PropDefinition[] = [];
+    for (const property of expression.properties) {
+      if (!property.name || ts.isComputedPropertyName(property.name) || ts.isPrivateIdentifier(property.name)) continue;
+
+      const prop: PropDefinition = { name: property.name.text, type: 'unknown', required: false };
+      const description = ComponentParser.getJSDocDescription(property);
+      if (description) prop.description = description;
+
+      if (ts.isPropertyAssignment(property)) {
+        const value = ComponentParser.unwrapExpression(property.initializer);
+
+        if (ts.isObjectLiteralExpression(value)) {
+          // title: { type: String, required: true, default: 'Untitled' }
+          for (const option of value.properties) {
+            if (!ts.isPropertyAssignment(option) || !option.name || ts.isComputedPropertyName(option.name)) continue;
+
+            const optionName = (option.name as ts.Identifier).text;
+            if (optionName === 'type') {
+              prop.type = this.runtimeTypeToString(option.initializer, sourceFile);
+            } else if (optionName === 'required') {
+              prop.required = option.initializer.kind === ts.SyntaxKind.TrueKeyword;
+            } else if (optionName === 'default') {
+              prop.defaultValue = option.initializer.getText(sourceFile);
+            }
+          }
+        } else {
+          // title: String
+          prop.type = this.runtimeTypeToString(property.initializer, sourceFile);
+        }
+      }
+
+      props.push(prop);
+    }
+
+    return props;
+  }
+
+  private static runtimeTypeToString(node: ts.Expression, sourceFile: ts.SourceFile): string {
+    // Object as PropType<User>
+    if (ts.isAsExpression(node)) {
+      const type = node.type;
+      if (ts.isTypeReferenceNode(type) && type.typeArguments?.[0]) {
+        return type.typeArguments[0].getText(sourceFile);
+      }
+      return type.getText(sourceFile);
+    }
+
+    if (ts.isArrayLiteralExpression(node)) {
+      return node.elements.map(element => this.runtimeTypeToString(element, sourceFile)).join(' | ');
+    }
+
+    const text = node.getText(sourceFile);
+    return RUNTIME_TYPES[text] || text;
+  }
+
+  private static emitsFromType(type: ts.TypeNode, sourceFile: ts.SourceFile): EventDefinition[] {
+    if (!ts.isTypeLiteralNode(type)) return [];
+
+    const events: EventDefinition[] = [];
+    for (const member of type.members) {
+      const description = ComponentParser.getJSDocDescription(member);
+
+      // (e: 'change', id: number): void
+      if (ts.isCallSignatureDeclaration(member)) {
+        const [event, ...payload] = member.parameters;
+        const eventType = event?.type;
+        if (!eventType || !ts.isLiteralTypeNode(eventType) || !ts.isStringLiteral(eventType.literal)) continue;
+
+        events.push({
+          name: eventType.literal.text,
+          payload: payload.map(param => param.getText(sourceFile)).join(', ') || undefined,
+          description,
+        });
+        continue;
+      }
+
+      // change: [id: number]
+      if (ts.isPropertySignature(member) && member.name && !ts.isComputedPropertyName(member.name) && !ts.isPrivateIdentifier(member.name)) {
+        const payload = member.type && ts.isTupleTypeNode(member.type)
+          ? member.type.elements.map(element => element.getText(sourceFile)).join(', ')
+          : member.type?.getText(sourceFile);
+        events.push({ name: member.name.text, payload: payload || undefined, description });
+      }
+    }
+
+    return events;
+  }
+
+  private static emitsFromRuntime(node: ts.Expression | undefined, sourceFile: ts.SourceFile): EventDefinition[] {
+    if (!node) return [];
+    const expression = ComponentParser.unwrapExpression(node);
+
+    if (ts.isArrayLiteralExpression(expression)) {
+      return expression.elements
+        .filter(ts.isStringLiteralLike)
+        .map(element => ({ name: element.text }));
+    }
+
+    if (!ts.isObjectLiteralExpression(expression)) return [];
+
+    // { submit: (payload: Form) => true, close: null }
+    const events: EventDefinition[] = [];
+    for (const property of expression.properties) {
+      if (!property.name || ts.isComputedPropertyName(property.name) || ts.isPrivateIdentifier(property.name)) continue;
+
+      const validator = ts.isPropertyAssignment(property) ? ComponentParser.unwrapExpression(property.initializer) : undefined;
+      const payload = validator && (ts.isArrowFunction(validator) || ts.isFunctionExpression(validator))
+        ? validator.parameters.map(param => param.getText(sourceFile)).join(', ')
+        : ts.isMethodDeclaration(property) ? property.parameters.map(param => param.getText(sourceFile)).join(', ') : '';
+
+      events.push({
+        name: property.name.text,
+        payload: payload || undefined,
+        description: ComponentParser.getJSDocDescription(property),
+      });
+    }
+
+    return events;
+  }
+
+  private static slotsFromType(type: ts.TypeLiteralNode, sourceFile: ts.SourceFile): SlotDefinition[] {
+    const slots: SlotDefinition[] = [];
+
+    for (const member of type.members) {
+      if (!member.name || ts.isComputedPropertyName(member.name) || ts.isPrivateIdentifier(member.name)) continue;
+
+      // default(props: { item: Item }): any, or header?: (props: {}) => any
+      const signature = ts.isMethodSignature(member)
+        ? member
+        : ts.isPropertySignature(member) && member.type && ts.isFunctionTypeNode(member.type) ? member.type : undefined;
+      const propsType = signature?.parameters[0]?.type;
+
+      slots.push({
+        name: member.name.text,
+        props: propsType ? ComponentParser.propsFromType(propsType, sourceFile).map(prop => prop.name) : undefined,
+        description: ComponentParser.getJSDocDescription(member),
+      });
+    }
+
+    return slots;
+  }
+
+  private static extractTemplateSlots(template: string): SlotDefinition[] {
+    const slots = new Map<string, SlotDefinition>();
+    const slotRegex = /<slot\b([^>]*?)\/?>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = slotRegex.exec(template)) !== null) {
+      const attrs = this.parseAttributes(match[1]);
+      const name = typeof attrs.name === 'string' ? attrs.name : 'default';
+      const props = Object.keys(attrs)
+        .filter(attr => attr !== 'name' && (attr.startsWith(':') || attr.startsWith('v-bind:')))
+        .map(attr => attr.replace(/^(v-bind)?:/, ''));
+
+      slots.set(name, { name, props: props.length > 0 ? props : undefined });
+    }
+
+    return Array.from(slots.values());
+  }
+
+  /**
+   * Finds components used in a template. <user-card> and <UserCard> both
+   * resolve to the registered UserCard; tags that are neither imported nor
+   * registered are kept as well since they may be registered globally.
+   */
+  private static extractUsedComponents(template: string, registered: Map<string, string>): string[] {
+    const components = new Set<string>();
+    const tagRegex = /<([A-Za-z][\w.-]*)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagRegex.exec(template)) !== null) {
+      const tag = match[1];
+      const isPascal = /^[A-Z]/.test(tag);
+      if (!isPascal && !tag.includes('-')) continue; // native element
+
+      const name = isPascal ? tag.split('.')[0] : this.toPascalCase(tag);
+      if (BUILT_IN_COMPONENTS.has(name)) continue;
+
+      components.add(registered.get(name) || name);
+    }
+
+    return Array.from(components);
+  }
+
+  private static getStringProperty(object: ts.ObjectLiteralExpression, name: string): string | undefined {
+    for (const property of object.properties) {
+      if (
+        ts.isPropertyAssignment(property) &&
+        property.name && !ts.isComputedPropertyName(property.name) &&
+        (property.name as ts.Identifier).text === name &&
+        ts.isStringLiteralLike(property.initializer)
+      ) {
+        return property.initializer.text;
+      }
+    }
+    return undefined;
+  }
+
+  private static toPascalCase(value: string): string {
+    return value
+      .replace(/[-_.\s]+(\w)/g, (_, char: string) => char.toUpperCase())
+      .replace(/^\w/, char => char.toUpperCase());
+  }
+
+  private static nameFromFile(fileName: string): string {
+    const base = fileName.split(/[/\\]/).pop()!.replace(/\.vue$/, '');
+    return this.toPascalCase(base === 'index' ? fileName.split(/[/\\]/).slice(-2, -1)[0] || base : base);
+  }
+}
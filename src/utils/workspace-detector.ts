@@ -0,0 +1,211 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface WorkspacePackage {
+  name: string;
+  path: string; // absolute package directory
+  relativePath: string; // '' for the repository root
+  packageJson: Record<string, any>;
+}
+
+export interface Workspace {
+  tool: 'npm' | 'yarn' | 'pnpm' | 'nx' | 'turborepo' | 'lerna' | 'none';
+  packages: WorkspacePackage[];
+}
+
+// Directories never searched for packages
+const SKIPPED_DIRS = new Set(['node_modules', 'dist', 'build', '.git']);
+
+export class WorkspaceDetector {
+  /**
+   * Lists the packages of a monorepo from npm/yarn `workspaces`,
+   * pnpm-workspace.yaml, Nx and Lerna configs. Turborepo builds on the package
+   * manager's workspaces; without them its apps/* and packages/* layout is used.
+   * A single-package project is returned as a workspace of one.
+   */
+  static async detect(projectPath: string): Promise<Workspace> {
+    const rootPackageJson = await this.readJson(path.join(projectPath, 'package.json')) || {};
+    const isTurbo = await this.exists(path.join(projectPath, 'turbo.json'));
+    let tool: Workspace['tool'] = 'none';
+    let patterns: string[] = [];
+
+    const pnpmPatterns = await this.readPnpmWorkspace(projectPath);
+    const npmWorkspaces = Array.isArray(rootPackageJson.workspaces)
+      ? rootPackageJson.workspaces
+      : rootPackageJson.workspaces?.packages;
+
+    if (pnpmPatterns) {
+      tool = 'pnpm';
+      patterns = pnpmPatterns;
+    } else if (Array.isArray(npmWorkspaces)) {
+      tool = await this.exists(path.join(projectPath, 'yarn.lock')) ? 'yarn' : 'npm';
+      patterns = npmWorkspaces;
+    }
+
+    const nxJson = await this.readJson(path.join(projectPath, 'nx.json'));
+    if (nxJson && patterns.length === 0) {
+      tool = 'nx';
+      const layout = nxJson.workspaceLayout || {};
+      patterns = [`${layout.appsDir || 'apps'}/**`, `${layout.libsDir || 'libs'}/**`, 'packages/**'];
+    }
+
+    const lernaJson = await this.readJson(path.join(projectPath, 'lerna.json'));
+    if (lernaJson && patterns.length === 0) {
+      tool = 'lerna';
+      patterns = lernaJson.packages || ['packages/*'];
+    }
+
+    if (isTurbo) {
+      if (patterns.length === 0) patterns = ['apps/*', 'packages/*'];
+      if (tool === 'none') tool = 'turborepo';
+    }
+
+    if (patterns.length === 0) {
+      return {
+        tool: 'none',
+        packages: [{ name: rootPackageJson.name || path.basename(projectPath), path: projectPath, relativePath: '', packageJson: rootPackageJson }],
+      };
+    }
+
+    const included = patterns.filter(pattern => !pattern.startsWith('!'));
+    const excluded = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1));
+
+    const directories = new Set<string>();
+    for (const pattern of included) {
+      for (const dir of await this.expandPattern(projectPath, pattern)) {
+        const relative = path.relative(projectPath, dir);
+        if (!excluded.some(exclude => this.matchesPattern(relative, exclude))) directories.add(dir);
+      }
+    }
+
+    const packages: WorkspacePackage[] = [];
+    for (const dir of Array.from(directories).sort()) {
+      const packageJson = await this.readJson(path.join(dir, 'package.json'));
+      // Nx projects may only have a project.json
+      const projectJson = packageJson ? null : await this.readJson(path.join(dir, 'project.json'));
+      if (!packageJson && !projectJson) continue;
+
+      packages.push({
+        name: packageJson?.name || projectJson?.name || path.basename(dir),
+        path: dir,
+        relativePath: path.relative(projectPath, dir),
+        packageJson: packageJson || {},
+      });
+    }
+
+    // Nested matches (apps/** finding apps/web and apps/web/e2e) keep the outermost package
+    const outermost = packages.filter(pkg => !packages.some(other =>
+      other !== pkg && pkg.path.startsWith(other.path + path.sep)
+    ));
+
+    return { tool, packages: outermost };
+  }
+
+  // The innermost package containing the file
+  static findPackage(packages: WorkspacePackage[], filePath: string): WorkspacePackage | undefined {
+    return packages
+      .filter(pkg => filePath === pkg.path || filePath.startsWith(pkg.path + path.sep) || pkg.relativePath === '')
+      .sort((a, b) => b.path.length - a.path.length)[0];
+  }
+
+  // packages:\n  - 'apps/*'\n  - "!**/test/**", or the flow form packages: ['apps/*', 'libs/*']
+  private static async readPnpmWorkspace(projectPath: string): Promise<string[] | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(projectPath, 'pnpm-workspace.yaml'), 'utf8');
+    } catch (error) {
+      return null;
+    }
+
+    const flow = content.match(/^packages\s*:\s*\[([^\]]*)\]/m);
+    if (flow) {
+      return flow[1]
+        .split(',')
+        .map(item => item.replace(/#.*$/gm, '').trim().replace(/^['"]|['"]$/g, ''))
+        .filter(Boolean);
+    }
+
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of content.split('\n')) {
+      if (/^packages\s*:/.test(line)) {
+        inPackages = true;
+        continue;
+      }
+      if (inPackages) {
+        const item = line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+        if (item) patterns.push(item[1]);
+        else if (/^\S/.test(line)) inPackages = false;
+      }
+    }
+    return patterns;
+  }
+
+  private static async expandPattern(projectPath: string, pattern: string): Promise<string[]> {
+    const segments = pattern.replace(/^\.\//, '').replace(/\/$/, '').split('/');
+    let current = [projectPath];
+
+    for (const segment of segments) {
+      const next: string[] = [];
+      for (const dir of current) {
+        if (segment === '**') {
+          next.push(dir, ...await this.listDirectories(dir, true));
+        } else if (segment.includes('*')) {
+          const regex = new RegExp(`^${segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+          next.push(...(await this.listDirectories(dir, false)).filter(child => regex.test(path.basename(child))));
+        } else if (await this.exists(path.join(dir, segment))) {
+          next.push(path.join(dir, segment));
+        }
+      }
+      current = next;
+    }
+
+    return current.filter(dir => dir !== projectPath);
+  }
+
+  private static matchesPattern(relativePath: string, pattern: string): boolean {
+    const regex = pattern
+      .replace(/^\.\//, '')
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      // A trailing /** also matches the directory itself
+      .replace(/\/\*\*$/, '\u0001')
+      .replace(/\*\*\/?/g, '\u0000')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\u0000/g, '(.*/)?')
+      .replace('\u0001', '(/.*)?');
+    return new RegExp(`^${regex}/?$`).test(relativePath.split(path.sep).join('/'));
+  }
+
+  private static async listDirectories(dir: string, recursive: boolean): Promise<string[]> {
+    const result: string[] = [];
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.') || SKIPPED_DIRS.has(entry.name)) continue;
+        const child = path.join(dir, entry.name);
+        result.push(child);
+        if (recursive) result.push(...await this.listDirectories(child, true));
+      }
+    } catch (error) {
+      // Directory might not exist
+    }
+    return result;
+  }
+
+  private static async readJson(filePath: string): Promise<Record<string, any> | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}